@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { LoggerModule } from '@bringup/logger';
@@ -9,7 +10,7 @@ import { AuthModule } from '@bringup/auth';
 import { AlertModule } from '@bringup/alert';
 import { TasksModule } from '@bringup/tasks';
 @Module({
-  imports: [LoggerModule,AppConfigModule,DatabaseModule,AuthModule,AlertModule,TasksModule],
+  imports: [LoggerModule,AppConfigModule,ScheduleModule.forRoot(),DatabaseModule,AuthModule,AlertModule,TasksModule],
   controllers: [AppController],
   providers: [AppService],
 })
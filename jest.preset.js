@@ -0,0 +1,6 @@
+// Projects transpile their specs with @swc/jest, so the preset's ts-jest
+// transform is left out
+const nxPreset = { ...require('@nx/jest/preset').default };
+delete nxPreset.transform;
+
+module.exports = nxPreset;
@@ -1,3 +1,16 @@
 export * from './lib/alert.module';
 export * from './lib/alert.service';
 export * from './lib/alert.controller';
+export * from './lib/notification-admin.controller';
+export * from './lib/realtime.service';
+export * from './lib/notification-preferences.service';
+export * from './lib/notification-digest.service';
+export * from './lib/notification-template.service';
+export * from './lib/notification-retention.service';
+export * from './lib/notification-broadcast.service';
+export * from './lib/push-receipt.service';
+export * from './lib/push-retry.service';
+export * from './lib/stream.controller';
+export * from './lib/channels/expo-push.channel';
+export * from './lib/channels/email.channel';
+export * from './lib/channels/webhook.channel';
@@ -1,42 +1,79 @@
 import {
   Controller,
   Get,
+  Post,
   Patch,
+  Put,
   Delete,
+  Body,
   Param,
   Query,
   UseGuards,
   HttpCode,
   HttpStatus,
-  NotFoundException,
   ParseIntPipe,
   DefaultValuePipe,
   ParseBoolPipe,
+  ParseEnumPipe,
+  ParseDatePipe,
 } from '@nestjs/common';
 import { AlertService } from './alert.service';
-import { CurrentUser, FirebaseAuthGuard } from '@bringup/auth';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { CurrentUser, FirebaseAuthGuard, OwnedResource } from '@bringup/auth';
 import {
   type FirebaseUser,
+  type OwnedResourceOptions,
   INotificationResponse,
   IMarkReadResponse,
+  IBulkNotificationsResponse,
   IPaginatedNotificationsResponse,
+  INotificationPreferencesResponse,
+  UpdateNotificationPreferencesDto,
+  NotificationIdsDto,
+  NotificationType,
   ALERT_PAGINATION_DEFAULTS,
+  ALERT_COLLECTIONS,
+  ALERT_ERROR_CODES,
+  ALERT_ERROR_MESSAGES,
 } from '@bringup/shared';
 
+/**
+ * Single-notification routes are limited to the recipient
+ */
+const NOTIFICATION_OWNER: OwnedResourceOptions = {
+  collection: ALERT_COLLECTIONS.NOTIFICATIONS,
+  ownerField: 'recipientUid',
+  notFound: {
+    message: ALERT_ERROR_MESSAGES.NOTIFICATION_NOT_FOUND,
+    code: ALERT_ERROR_CODES.NOTIFICATION_NOT_FOUND,
+  },
+  forbidden: {
+    message: ALERT_ERROR_MESSAGES.ACCESS_DENIED,
+    code: ALERT_ERROR_CODES.ACCESS_DENIED,
+  },
+};
+
 /**
  * Controller for managing user notifications
- * All routes require Firebase authentication
+ * All routes require Firebase authentication and only reach the caller's
+ * own notifications
  */
 @Controller('notifications')
 @UseGuards(FirebaseAuthGuard)
 export class AlertController {
-  constructor(private readonly alertService: AlertService) {}
+  constructor(
+    private readonly alertService: AlertService,
+    private readonly preferencesService: NotificationPreferencesService,
+  ) {}
 
   /**
    * Get notifications for the authenticated user with pagination
    * @param user - Current authenticated user
    * @param limit - Maximum number of notifications to return (default: 50)
    * @param unreadOnly - Filter to only unread notifications (default: false)
+   * @param type - Filter to one notification type
+   * @param from - Only notifications created at or after this time (ISO 8601)
+   * @param to - Only notifications created at or before this time (ISO 8601)
    * @param cursor - Pagination cursor (last notification ID from previous page)
    */
   @Get()
@@ -50,11 +87,18 @@ export class AlertController {
     limit: number,
     @Query('unreadOnly', new DefaultValuePipe(false), ParseBoolPipe)
     unreadOnly: boolean,
+    @Query('type', new ParseEnumPipe(NotificationType, { optional: true }))
+    type?: NotificationType,
+    @Query('from', new ParseDatePipe({ optional: true })) from?: Date,
+    @Query('to', new ParseDatePipe({ optional: true })) to?: Date,
     @Query('cursor') cursor?: string,
   ): Promise<IPaginatedNotificationsResponse> {
     return this.alertService.getUserNotifications(user.uid, {
       limit,
       unreadOnly,
+      type,
+      from,
+      to,
       cursor,
     });
   }
@@ -71,34 +115,111 @@ export class AlertController {
     return { count };
   }
 
+  /**
+   * Get notification preferences of the authenticated user
+   * @param user - Current authenticated user
+   */
+  @Get('preferences')
+  async getPreferences(
+    @CurrentUser() user: FirebaseUser,
+  ): Promise<INotificationPreferencesResponse> {
+    return this.preferencesService.getPreferences(user.uid);
+  }
+
+  /**
+   * Update notification preferences of the authenticated user
+   * @param user - Current authenticated user
+   * @param dto - Preference fields to replace
+   */
+  @Put('preferences')
+  async updatePreferences(
+    @CurrentUser() user: FirebaseUser,
+    @Body() dto: UpdateNotificationPreferencesDto,
+  ): Promise<INotificationPreferencesResponse> {
+    return this.preferencesService.updatePreferences(user.uid, dto);
+  }
+
+  /**
+   * Mark the given notifications as read
+   * @param user - Current authenticated user
+   * @param dto - IDs of the notifications
+   */
+  @Patch('bulk/read')
+  @HttpCode(HttpStatus.OK)
+  async markManyAsRead(
+    @CurrentUser() user: FirebaseUser,
+    @Body() dto: NotificationIdsDto,
+  ): Promise<IBulkNotificationsResponse> {
+    return this.alertService.markNotificationsAsRead(dto.ids, user.uid);
+  }
+
+  /**
+   * Mark the given notifications as unread
+   * @param user - Current authenticated user
+   * @param dto - IDs of the notifications
+   */
+  @Patch('bulk/unread')
+  @HttpCode(HttpStatus.OK)
+  async markManyAsUnread(
+    @CurrentUser() user: FirebaseUser,
+    @Body() dto: NotificationIdsDto,
+  ): Promise<IBulkNotificationsResponse> {
+    return this.alertService.markNotificationsAsUnread(dto.ids, user.uid);
+  }
+
+  /**
+   * Delete the given notifications
+   * @param user - Current authenticated user
+   * @param dto - IDs of the notifications
+   */
+  @Post('bulk/delete')
+  @HttpCode(HttpStatus.OK)
+  async deleteMany(
+    @CurrentUser() user: FirebaseUser,
+    @Body() dto: NotificationIdsDto,
+  ): Promise<IBulkNotificationsResponse> {
+    return this.alertService.deleteNotifications(dto.ids, user.uid);
+  }
+
+  /**
+   * Delete every read notification of the authenticated user
+   * @param user - Current authenticated user
+   */
+  @Delete('read')
+  @HttpCode(HttpStatus.OK)
+  async deleteRead(
+    @CurrentUser() user: FirebaseUser,
+  ): Promise<IBulkNotificationsResponse> {
+    return this.alertService.deleteReadNotifications(user.uid);
+  }
+
   /**
    * Get a single notification by ID
    * @param notificationId - The notification ID
+   * @param user - Current authenticated user
    */
   @Get(':id')
+  @OwnedResource(NOTIFICATION_OWNER)
   async getNotificationById(
     @Param('id') notificationId: string,
+    @CurrentUser() user: FirebaseUser,
   ): Promise<INotificationResponse> {
-    const notification =
-      await this.alertService.getNotificationById(notificationId);
-
-    if (!notification) {
-      throw new NotFoundException('Notification not found');
-    }
-
-    return notification;
+    return this.alertService.getNotificationById(notificationId, user.uid);
   }
 
   /**
    * Mark a single notification as read
    * @param notificationId - The notification ID
+   * @param user - Current authenticated user
    */
   @Patch(':id/read')
+  @OwnedResource(NOTIFICATION_OWNER)
   @HttpCode(HttpStatus.OK)
   async markAsRead(
     @Param('id') notificationId: string,
+    @CurrentUser() user: FirebaseUser,
   ): Promise<IMarkReadResponse> {
-    return this.alertService.markNotificationAsRead(notificationId);
+    return this.alertService.markNotificationAsRead(notificationId, user.uid);
   }
 
   /**
@@ -119,6 +240,7 @@ export class AlertController {
    * @param user - Current authenticated user
    */
   @Delete(':id')
+  @OwnedResource(NOTIFICATION_OWNER)
   @HttpCode(HttpStatus.OK)
   async deleteNotification(
     @Param('id') notificationId: string,
@@ -1,7 +1,26 @@
 import { Module } from '@nestjs/common';
+import { Expo } from 'expo-server-sdk';
 import { AlertController } from './alert.controller';
+import { NotificationAdminController } from './notification-admin.controller';
 import { AlertService } from './alert.service';
+import { RealtimeService } from './realtime.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationDigestService } from './notification-digest.service';
+import { NotificationTemplateService } from './notification-template.service';
+import { NotificationRetentionService } from './notification-retention.service';
+import { NotificationBroadcastService } from './notification-broadcast.service';
+import { PushReceiptService } from './push-receipt.service';
+import { PushRetryService } from './push-retry.service';
+import { StreamController } from './stream.controller';
+import { ExpoPushChannel } from './channels/expo-push.channel';
+import { EmailChannel } from './channels/email.channel';
+import { WebhookChannel } from './channels/webhook.channel';
 import { DatabaseModule } from '@bringup/database';
+import {
+  EXPO_CLIENT_TOKEN,
+  NOTIFICATION_CHANNELS_TOKEN,
+  NotificationChannelSender,
+} from '@bringup/shared';
 
 /**
  * Alert Module
@@ -12,12 +31,43 @@ import { DatabaseModule } from '@bringup/database';
  * - Store and manage notification records in Firestore
  * - Mark notifications as read
  * - Query user notifications
- * - Cleanup old notifications
+ * - Scheduled cleanup of old notifications with per-type retention
+ * - Live task and unread count updates over Server-Sent Events
+ * - Poll Expo push receipts for delivery status and dead tokens
+ * - Retry failed push notifications with exponential backoff
+ * - Per-user notification preferences and quiet hours
+ * - Hourly or daily digest pushes for lower priority notifications
+ * - Email and webhook channels alongside push
+ * - Notification copy rendered from templates in the user's locale
+ * - System alert broadcasts to all, listed or filtered users
  */
 @Module({
   imports: [DatabaseModule],
-  controllers: [AlertController],
-  providers: [AlertService],
-  exports: [AlertService],
+  controllers: [AlertController, StreamController, NotificationAdminController],
+  providers: [
+    AlertService,
+    RealtimeService,
+    NotificationPreferencesService,
+    NotificationDigestService,
+    NotificationTemplateService,
+    NotificationRetentionService,
+    NotificationBroadcastService,
+    PushReceiptService,
+    PushRetryService,
+    ExpoPushChannel,
+    EmailChannel,
+    WebhookChannel,
+    // Add a channel here to make it available to every notification
+    {
+      provide: NOTIFICATION_CHANNELS_TOKEN,
+      useFactory: (
+        ...channels: NotificationChannelSender[]
+      ): NotificationChannelSender[] => channels,
+      inject: [ExpoPushChannel, EmailChannel, WebhookChannel],
+    },
+    // Provided by token so a fake client can stand in for Expo
+    { provide: EXPO_CLIENT_TOKEN, useFactory: () => new Expo() },
+  ],
+  exports: [AlertService, RealtimeService, NotificationPreferencesService],
 })
 export class AlertModule {}
@@ -1,41 +1,88 @@
-import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import * as admin from 'firebase-admin';
-import { Expo, ExpoPushMessage } from 'expo-server-sdk';
+import { Expo } from 'expo-server-sdk';
 import {
   INotificationDocument,
+  INotificationRecipient,
+  INotificationChannelMessage,
+  INotificationChannelResult,
   INotificationResponse,
   IPaginatedNotificationsResponse,
   NotificationType,
   NotificationStatus,
+  NotificationPriority,
+  NotificationLocale,
+  NotificationChannel,
+  NotificationChannelSender,
   ISendPushNotificationParams,
   ITaskAssignmentNotificationParams,
   ITaskReactionNotificationParams,
+  ITaskCompletedNotificationParams,
+  ITaskClosedNotificationParams,
+  ITaskExpiredNotificationParams,
+  ITaskReminderNotificationParams,
+  ITaskUpdatedNotificationParams,
+  ITaskCommentNotificationParams,
+  ITaskReviewNotificationParams,
+  TaskReviewKind,
+  TaskUpdateKind,
   IGetNotificationsOptions,
   IMarkReadResponse,
+  IBulkNotificationsResponse,
   ICleanupResponse,
+  IBroadcastProgress,
+  ISystemAlertBatchParams,
+  FIRESTORE_ERROR_CODES,
   FIRESTORE_TOKEN,
   FirebaseUser,
   ALERT_COLLECTIONS,
+  ALERT_BULK,
+  ALERT_ERROR_CODES,
+  ALERT_ERROR_MESSAGES,
   ALERT_PAGINATION_DEFAULTS,
-  ALERT_RETENTION,
   ALERT_PUSH_CONFIG,
+  ALERT_RETENTION,
+  ALERT_RETENTION_DAYS,
+  ALERT_SUPPRESSION_REASONS,
+  ALERT_SYSTEM_SENDER_UID,
+  ALERT_IDEMPOTENT_TYPES,
+  ALERT_TYPE_PRIORITIES,
+  ALERT_DIGEST,
+  ALERT_CHANNELS,
+  ALERT_PUSH_RETRY,
+  NOTIFICATION_CHANNELS_TOKEN,
+  TASK_COLLECTIONS,
+  RealtimeEventType,
 } from '@bringup/shared';
+import { AppConfigService } from '@bringup/config';
+import { RealtimeService } from './realtime.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationTemplateService } from './notification-template.service';
 
 /**
- * Service for managing push notifications and notification records
- * Uses Expo Push Notifications and Firestore for persistence
+ * Service for managing notifications and notification records
+ * Delivers over the configured channels and uses Firestore for persistence
  */
 @Injectable()
 export class AlertService {
   private readonly logger = new Logger(AlertService.name);
-  private readonly expo: Expo;
 
   constructor(
     @Inject(FIRESTORE_TOKEN)
     private readonly firestore: admin.firestore.Firestore,
-  ) {
-    this.expo = new Expo();
-  }
+    @Inject(NOTIFICATION_CHANNELS_TOKEN)
+    private readonly channelSenders: NotificationChannelSender[],
+    private readonly realtimeService: RealtimeService,
+    private readonly configService: AppConfigService,
+    private readonly preferencesService: NotificationPreferencesService,
+    private readonly templateService: NotificationTemplateService,
+  ) {}
 
   // ==========================================
   // PUBLIC NOTIFICATION SENDERS
@@ -54,8 +101,7 @@ export class AlertService {
       recipientUid: assigneeUid,
       senderUid: creatorUid,
       type: NotificationType.TASK_ASSIGNED,
-      title: `New task from ${creatorName}`,
-      body: taskTitle,
+      variables: { creatorName, taskTitle },
       dataType: NotificationType.TASK_ASSIGNED,
     });
   }
@@ -75,18 +121,355 @@ export class AlertService {
       reaction,
     } = params;
 
-    const reactionText = reaction.replace(/_/g, ' ');
     await this.sendPushNotification({
       taskId,
       recipientUid: creatorUid,
       senderUid: assigneeUid,
       type: NotificationType.TASK_REACTION,
-      title: `${assigneeName} responded`,
-      body: `"${reactionText}" on: ${taskTitle}`,
+      variables: { assigneeName, taskTitle, reaction },
       dataType: NotificationType.TASK_REACTION,
     });
   }
 
+  /**
+   * Send notification to the creator when a task is completed
+   */
+  async sendTaskCompletedNotification(
+    params: ITaskCompletedNotificationParams,
+  ): Promise<void> {
+    const { taskId, creatorUid, actorUid, actorName, taskTitle } = params;
+
+    await this.sendPushNotification({
+      taskId,
+      recipientUid: creatorUid,
+      senderUid: actorUid,
+      type: NotificationType.TASK_COMPLETED,
+      variables: { actorName, taskTitle },
+      dataType: NotificationType.TASK_COMPLETED,
+    });
+  }
+
+  /**
+   * Send notification to the assignees when the creator cancels a task
+   */
+  async sendTaskCancelledNotification(
+    params: ITaskClosedNotificationParams,
+  ): Promise<void> {
+    await this.sendTaskClosedNotification(
+      params,
+      NotificationType.TASK_CANCELLED,
+    );
+  }
+
+  /**
+   * Send notification to the assignees when the creator deletes a task
+   */
+  async sendTaskDeletedNotification(
+    params: ITaskClosedNotificationParams,
+  ): Promise<void> {
+    await this.sendTaskClosedNotification(
+      params,
+      NotificationType.TASK_DELETED,
+    );
+  }
+
+  /**
+   * Send notification to the creator and open assignees when a task expires
+   */
+  async sendTaskExpiredNotification(
+    params: ITaskExpiredNotificationParams,
+  ): Promise<void> {
+    const { taskId, creatorUid, assignees, taskTitle } = params;
+
+    await Promise.all([
+      this.sendPushNotification({
+        taskId,
+        recipientUid: creatorUid,
+        senderUid: ALERT_SYSTEM_SENDER_UID,
+        type: NotificationType.TASK_EXPIRED,
+        variant: 'creator',
+        variables: {
+          taskTitle,
+          count: assignees.length,
+          assigneeName: assignees[0]?.name ?? '',
+        },
+        dataType: NotificationType.TASK_EXPIRED,
+      }),
+      ...assignees.map((assignee) =>
+        this.sendPushNotification({
+          taskId,
+          recipientUid: assignee.uid,
+          senderUid: ALERT_SYSTEM_SENDER_UID,
+          type: NotificationType.TASK_EXPIRED,
+          variant: 'assignee',
+          variables: { taskTitle },
+          dataType: NotificationType.TASK_EXPIRED,
+        }),
+      ),
+    ]);
+  }
+
+  /**
+   * Send reminder to assignee before a task expires
+   */
+  async sendTaskReminderNotification(
+    params: ITaskReminderNotificationParams,
+  ): Promise<void> {
+    const { taskId, assigneeUid, taskTitle, remainingMinutes } = params;
+
+    await this.sendPushNotification({
+      taskId,
+      recipientUid: assigneeUid,
+      senderUid: ALERT_SYSTEM_SENDER_UID,
+      type: NotificationType.TASK_REMINDER,
+      variables: { taskTitle, count: remainingMinutes },
+      dataType: NotificationType.TASK_REMINDER,
+    });
+  }
+
+  /**
+   * Send notification when the creator edits or reassigns a task
+   */
+  async sendTaskUpdatedNotification(
+    params: ITaskUpdatedNotificationParams,
+  ): Promise<void> {
+    const { taskId, recipientUid, creatorUid, creatorName, taskTitle, kind } =
+      params;
+
+    await this.sendPushNotification({
+      taskId,
+      recipientUid,
+      senderUid: creatorUid,
+      type: NotificationType.TASK_UPDATED,
+      variant: kind,
+      variables: { creatorName, taskTitle },
+      dataType: NotificationType.TASK_UPDATED,
+      // A new assignment matters as much as a new task
+      ...(kind === TaskUpdateKind.ASSIGNED_TO_YOU && {
+        priority: NotificationPriority.HIGH,
+      }),
+    });
+  }
+
+  /**
+   * Send notification for a step of the completion approval workflow
+   */
+  async sendTaskReviewNotification(
+    params: ITaskReviewNotificationParams,
+  ): Promise<void> {
+    const {
+      taskId,
+      recipientUid,
+      actorUid,
+      actorName,
+      taskTitle,
+      kind,
+      reason,
+    } = params;
+
+    await this.sendPushNotification({
+      taskId,
+      recipientUid,
+      senderUid: actorUid,
+      type: NotificationType.TASK_REVIEW,
+      variant: kind,
+      variables: { actorName, taskTitle, reason: reason ?? '' },
+      dataType: NotificationType.TASK_REVIEW,
+      // The creator has to act on a submission
+      ...(kind === TaskReviewKind.SUBMITTED && {
+        priority: NotificationPriority.HIGH,
+      }),
+    });
+  }
+
+  /**
+   * Send notification when someone comments on a task
+   */
+  async sendTaskCommentNotification(
+    params: ITaskCommentNotificationParams,
+  ): Promise<void> {
+    const {
+      taskId,
+      recipientUid,
+      authorUid,
+      authorName,
+      taskTitle,
+      commentBody,
+    } = params;
+
+    const preview =
+      commentBody.length > ALERT_PUSH_CONFIG.COMMENT_PREVIEW_LENGTH
+        ? `${commentBody.slice(0, ALERT_PUSH_CONFIG.COMMENT_PREVIEW_LENGTH)}…`
+        : commentBody;
+
+    await this.sendPushNotification({
+      taskId,
+      recipientUid,
+      senderUid: authorUid,
+      type: NotificationType.TASK_COMMENT,
+      variables: { authorName, taskTitle, preview },
+      dataType: NotificationType.TASK_COMMENT,
+    });
+  }
+
+  /**
+   * Send a system alert to one page of broadcast recipients (broadcast job)
+   * Users who turned system alerts off are skipped, everyone else gets their
+   * own notification and the page's pushes go out together
+   * Users the broadcast already reached are skipped too, so an interrupted
+   * page can be sent again
+   */
+  async sendSystemAlerts(
+    params: ISystemAlertBatchParams,
+  ): Promise<IBroadcastProgress> {
+    const { broadcastId, senderUid, title, body, recipients } = params;
+    const type = NotificationType.SYSTEM_ALERT;
+    const priority = ALERT_TYPE_PRIORITIES[type];
+    const progress: IBroadcastProgress = {
+      processed: recipients.length,
+      sent: 0,
+      failed: 0,
+      suppressed: 0,
+      skipped: 0,
+    };
+
+    if (recipients.length === 0) {
+      return progress;
+    }
+
+    const outgoing: {
+      ref: admin.firestore.DocumentReference;
+      senders: NotificationChannelSender[];
+      message: INotificationChannelMessage;
+      results: {
+        channel: NotificationChannel;
+        result: INotificationChannelResult;
+      }[];
+    }[] = [];
+
+    for (const user of recipients) {
+      // One notification per recipient, keyed so a rerun cannot create it twice
+      const notificationId = `${broadcastId}_${user.uid}`;
+
+      try {
+        const plan = await this.preferencesService.planDelivery(
+          user.uid,
+          type,
+          '',
+          priority,
+        );
+        if (plan.suppressedReason === ALERT_SUPPRESSION_REASONS.TYPE_DISABLED) {
+          progress.skipped++;
+          continue;
+        }
+
+        const rendered = this.templateService.render(
+          this.templateService.resolveLocale(user.locale),
+          type,
+          { title, body },
+        );
+        const ref = await this.createNotificationRecord({
+          notificationId,
+          broadcastId,
+          type,
+          priority,
+          recipientUid: user.uid,
+          senderUid,
+          taskId: '',
+          ...rendered,
+          dataType: type,
+        });
+
+        // The record stays readable in-app, only the delivery is held back
+        if (plan.suppressedReason) {
+          await ref.update({
+            status: NotificationStatus.SUPPRESSED,
+            suppressedReason: plan.suppressedReason,
+            nextRetryAt: null,
+          });
+          progress.suppressed++;
+          continue;
+        }
+
+        const recipient = this.buildRecipient(user.uid, user, plan.webhookUrl);
+        const senders = this.getSenders(recipient, type, plan.channels, []);
+        if (senders.length === 0) {
+          await this.recordDeliveryFailure(
+            [ref],
+            'No channel can reach the user - needs to login to enable notifications',
+            1,
+            false,
+          );
+          progress.failed++;
+          continue;
+        }
+
+        outgoing.push({
+          ref,
+          senders,
+          message: {
+            notificationIds: [ref.id],
+            type,
+            recipient,
+            ...rendered,
+            data: { notificationId: ref.id, taskId: '', type, broadcastId },
+          },
+          results: [],
+        });
+      } catch (error) {
+        if (
+          (error as { code?: number }).code ===
+          FIRESTORE_ERROR_CODES.ALREADY_EXISTS
+        ) {
+          progress.skipped++;
+          continue;
+        }
+        this.logger.error(
+          `❌ System alert ${broadcastId} failed for ${user.uid}:`,
+          error,
+        );
+        progress.failed++;
+      }
+    }
+
+    // Each channel takes the whole page at once when it can
+    for (const sender of this.channelSenders) {
+      const batch = outgoing.filter((item) => item.senders.includes(sender));
+      if (batch.length === 0) {
+        continue;
+      }
+
+      const messages = batch.map((item) => item.message);
+      const results = sender.sendMany
+        ? await sender.sendMany(messages)
+        : await Promise.all(messages.map((message) => sender.send(message)));
+      batch.forEach((item, index) =>
+        item.results.push({ channel: sender.channel, result: results[index] }),
+      );
+    }
+
+    for (const { ref, message, results } of outgoing) {
+      const { sent } = await this.recordDispatch(
+        [ref],
+        message.recipient.uid,
+        results,
+        [],
+        1,
+      );
+      if (sent) {
+        progress.sent++;
+      } else {
+        progress.failed++;
+      }
+    }
+
+    this.logger.log(
+      `📢 System alert ${broadcastId}: ${progress.sent} sent, ${progress.failed} failed, ${progress.skipped} skipped`,
+    );
+
+    return progress;
+  }
+
   // ==========================================
   // NOTIFICATION QUERIES
   // ==========================================
@@ -102,6 +485,8 @@ export class AlertService {
       limit = ALERT_PAGINATION_DEFAULTS.DEFAULT_LIMIT,
       unreadOnly = false,
       type,
+      from,
+      to,
       cursor,
     } = options;
 
@@ -118,6 +503,22 @@ export class AlertService {
       query = query.where('type', '==', type);
     }
 
+    if (from) {
+      query = query.where(
+        'createdAt',
+        '>=',
+        admin.firestore.Timestamp.fromDate(from),
+      );
+    }
+
+    if (to) {
+      query = query.where(
+        'createdAt',
+        '<=',
+        admin.firestore.Timestamp.fromDate(to),
+      );
+    }
+
     // Get total count for pagination metadata
     const totalSnapshot = await query.count().get();
     const total = totalSnapshot.data().count;
@@ -162,20 +563,13 @@ export class AlertService {
   }
 
   /**
-   * Get a single notification by ID
+   * Get a single notification of a user by ID
    */
   async getNotificationById(
     notificationId: string,
-  ): Promise<INotificationResponse | null> {
-    const doc = await this.firestore
-      .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
-      .doc(notificationId)
-      .get();
-
-    if (!doc.exists) {
-      return null;
-    }
-
+    uid: string,
+  ): Promise<INotificationResponse> {
+    const doc = await this.getOwnedNotification(notificationId, uid);
     return this.mapDocumentToResponse(doc);
   }
 
@@ -198,27 +592,23 @@ export class AlertService {
   // ==========================================
 
   /**
-   * Mark a single notification as read
+   * Mark a single notification of a user as read
    */
   async markNotificationAsRead(
     notificationId: string,
+    uid: string,
   ): Promise<IMarkReadResponse> {
-    const notificationRef = this.firestore
-      .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
-      .doc(notificationId);
-
-    const doc = await notificationRef.get();
-
-    if (!doc.exists) {
-      throw new Error('Notification not found');
-    }
+    const doc = await this.getOwnedNotification(notificationId, uid);
 
-    await notificationRef.update({
+    await doc.ref.update({
       isRead: true,
       readAt: admin.firestore.Timestamp.now(),
       status: NotificationStatus.READ,
+      nextRetryAt: null,
     });
 
+    await this.publishUnreadCount(uid);
+
     return { message: 'Notification marked as read' };
   }
 
@@ -236,181 +626,477 @@ export class AlertService {
       return { message: 'No unread notifications' };
     }
 
-    const batch = this.firestore.batch();
     const now = admin.firestore.Timestamp.now();
+    await this.writeInBatches(snapshot.docs, (batch, doc) =>
+      batch.update(doc.ref, {
+        isRead: true,
+        readAt: now,
+        status: NotificationStatus.READ,
+        nextRetryAt: null,
+      }),
+    );
+    await this.publishUnreadCount(uid);
+
+    return { message: `Marked ${snapshot.size} notifications as read` };
+  }
+
+  /**
+   * Mark the given notifications of a user as read
+   */
+  async markNotificationsAsRead(
+    notificationIds: string[],
+    uid: string,
+  ): Promise<IBulkNotificationsResponse> {
+    const docs = (
+      await this.getOwnedNotifications(notificationIds, uid)
+    ).filter((doc) => !doc.get('isRead'));
 
-    snapshot.docs.forEach((doc) => {
+    const now = admin.firestore.Timestamp.now();
+    await this.writeInBatches(docs, (batch, doc) =>
       batch.update(doc.ref, {
         isRead: true,
         readAt: now,
         status: NotificationStatus.READ,
-      });
-    });
+        nextRetryAt: null,
+      }),
+    );
 
-    await batch.commit();
+    if (docs.length > 0) {
+      await this.publishUnreadCount(uid);
+    }
 
-    return { message: `Marked ${snapshot.size} notifications as read` };
+    return {
+      message: `Marked ${docs.length} notifications as read`,
+      count: docs.length,
+    };
   }
 
   /**
-   * Delete a single notification
+   * Mark the given notifications of a user as unread
    */
-  async deleteNotification(
-    notificationId: string,
+  async markNotificationsAsUnread(
+    notificationIds: string[],
     uid: string,
-  ): Promise<IMarkReadResponse> {
-    const notificationRef = this.firestore
-      .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
-      .doc(notificationId);
+  ): Promise<IBulkNotificationsResponse> {
+    const docs = (
+      await this.getOwnedNotifications(notificationIds, uid)
+    ).filter((doc) => doc.get('isRead'));
 
-    const doc = await notificationRef.get();
+    await this.writeInBatches(docs, (batch, doc) =>
+      batch.update(doc.ref, {
+        isRead: false,
+        readAt: null,
+        status: this.getUnreadStatus(doc.data() as INotificationDocument),
+      }),
+    );
 
-    if (!doc.exists) {
-      throw new Error('Notification not found');
+    if (docs.length > 0) {
+      await this.publishUnreadCount(uid);
     }
 
+    return {
+      message: `Marked ${docs.length} notifications as unread`,
+      count: docs.length,
+    };
+  }
+
+  /**
+   * Delete a single notification of a user
+   */
+  async deleteNotification(
+    notificationId: string,
+    uid: string,
+  ): Promise<IMarkReadResponse> {
+    const doc = await this.getOwnedNotification(notificationId, uid);
     const data = doc.data() as INotificationDocument;
-    if (data.recipientUid !== uid) {
-      throw new Error('Unauthorized');
-    }
 
-    await notificationRef.delete();
+    await doc.ref.delete();
+
+    if (!data.isRead) {
+      await this.publishUnreadCount(uid);
+    }
 
     return { message: 'Notification deleted' };
   }
 
-  // ==========================================
-  // MAINTENANCE OPERATIONS
-  // ==========================================
-
   /**
-   * Delete old notifications (cleanup job)
+   * Delete the given notifications of a user
    */
-  async deleteOldNotifications(
-    days: number = ALERT_RETENTION.RETENTION_DAYS,
-  ): Promise<ICleanupResponse> {
-    const cutoff = admin.firestore.Timestamp.fromMillis(
-      Date.now() - days * 24 * 60 * 60 * 1000,
-    );
+  async deleteNotifications(
+    notificationIds: string[],
+    uid: string,
+  ): Promise<IBulkNotificationsResponse> {
+    const docs = await this.getOwnedNotifications(notificationIds, uid);
 
-    const snapshot = await this.firestore
-      .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
-      .where('createdAt', '<', cutoff)
-      .get();
+    await this.writeInBatches(docs, (batch, doc) => batch.delete(doc.ref));
 
-    if (snapshot.empty) {
-      return { deletedCount: 0 };
+    if (docs.some((doc) => !doc.get('isRead'))) {
+      await this.publishUnreadCount(uid);
     }
 
-    // Batch delete in chunks of 500 (Firestore limit)
-    const batchSize = 500;
+    return {
+      message: `Deleted ${docs.length} notifications`,
+      count: docs.length,
+    };
+  }
+
+  /**
+   * Delete every read notification of a user
+   */
+  async deleteReadNotifications(
+    uid: string,
+  ): Promise<IBulkNotificationsResponse> {
     let deletedCount = 0;
 
-    for (let i = 0; i < snapshot.docs.length; i += batchSize) {
-      const batch = this.firestore.batch();
-      const chunk = snapshot.docs.slice(i, i + batchSize);
+    // Page through so large inboxes aren't loaded at once
+    for (;;) {
+      const snapshot = await this.firestore
+        .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
+        .where('recipientUid', '==', uid)
+        .where('isRead', '==', true)
+        .limit(ALERT_BULK.BATCH_SIZE)
+        .get();
 
-      chunk.forEach((doc) => batch.delete(doc.ref));
-      await batch.commit();
+      if (snapshot.empty) {
+        break;
+      }
 
-      deletedCount += chunk.length;
-    }
+      await this.writeInBatches(snapshot.docs, (batch, doc) =>
+        batch.delete(doc.ref),
+      );
+      deletedCount += snapshot.size;
 
-    this.logger.log(`🧹 Deleted ${deletedCount} old notifications`);
+      if (snapshot.size < ALERT_BULK.BATCH_SIZE) {
+        break;
+      }
+    }
 
-    return { deletedCount };
+    return {
+      message: `Deleted ${deletedCount} read notifications`,
+      count: deletedCount,
+    };
   }
 
-  // ==========================================
-  // PRIVATE HELPERS
-  // ==========================================
-
   /**
-   * Core push notification sender with Expo SDK
+   * Remove devices whose push tokens Expo reported as no longer registered
+   * Tokens the user no longer has are ignored
    */
-  private async sendPushNotification(
-    params: ISendPushNotificationParams,
-  ): Promise<void> {
-    const { taskId, recipientUid, senderUid, type, title, body, dataType } =
-      params;
+  async clearPushTokens(uid: string, pushTokens: string[]): Promise<void> {
+    if (pushTokens.length === 0) {
+      return;
+    }
 
-    this.logger.log(
-      `🔔 Sending notification for task ${taskId} → ${recipientUid}`,
-    );
+    const userRef = this.firestore.collection('users').doc(uid);
+    const deadTokens = new Set(pushTokens);
 
-    try {
-      // Idempotency check for task assignment (prevent duplicate notifications)
-      if (type === NotificationType.TASK_ASSIGNED) {
-        const existing = await this.checkExistingNotification(
-          taskId,
-          recipientUid,
-          type,
+    const clearedCount = await this.firestore.runTransaction(
+      async (transaction) => {
+        const userSnap = await transaction.get(userRef);
+        const user = userSnap.data() as FirebaseUser | undefined;
+        const devices = user?.devices ?? [];
+        const remaining = devices.filter(
+          (device) => !deadTokens.has(device.token),
         );
-        if (existing) {
-          this.logger.warn(
-            `⚠️ Notification already exists for task ${taskId} → ${recipientUid}`,
-          );
-          return;
+        const legacyCleared = !!user?.fcmToken && deadTokens.has(user.fcmToken);
+
+        const update: Record<string, unknown> = {};
+        if (remaining.length !== devices.length) {
+          update['devices'] = remaining;
+        }
+        if (legacyCleared) {
+          update['fcmToken'] = null;
+          update['fcmTokenUpdatedAt'] =
+            admin.firestore.FieldValue.serverTimestamp();
         }
-      }
 
-      // Create notification record
-      const notificationRef = await this.createNotificationRecord({
-        type,
-        recipientUid,
-        senderUid,
-        taskId,
-        title,
-        body,
-        dataType,
-      });
+        if (Object.keys(update).length === 0) {
+          return 0;
+        }
 
-      // Fetch recipient's push token
-      const user = await this.getUser(recipientUid);
-      if (!user) {
-        await this.updateNotificationStatus(
-          notificationRef,
-          NotificationStatus.FAILED,
-          'User not found',
-        );
-        return;
+        transaction.update(userRef, update);
+        return devices.length - remaining.length + (legacyCleared ? 1 : 0);
+      },
+    );
+
+    if (clearedCount > 0) {
+      this.logger.warn(
+        `🧹 Cleared ${clearedCount} unregistered push tokens for user ${uid}`,
+      );
+    }
+  }
+
+  /**
+   * Retry delivery of a failed or stalled notification (retry job)
+   * Returns whether any channel sent it
+   */
+  async retryNotification(
+    doc: admin.firestore.QueryDocumentSnapshot,
+  ): Promise<boolean> {
+    const data = doc.data() as INotificationDocument;
+
+    // Claim the record; fails when it changed since it was read
+    try {
+      await doc.ref.update(
+        {
+          nextRetryAt: admin.firestore.Timestamp.fromMillis(
+            Date.now() + ALERT_PUSH_RETRY.SEND_LEASE_MS,
+          ),
+        },
+        { lastUpdateTime: doc.updateTime },
+      );
+    } catch {
+      return false;
+    }
+
+    const attempt = (data.attempts ?? 0) + 1;
+    this.logger.log(
+      `🔁 Retrying notification ${doc.id} → ${data.recipientUid} (attempt ${attempt})`,
+    );
+
+    // Channels that already went out are not sent again
+    const sentChannels = Object.entries(data.channels ?? {})
+      .filter(
+        ([, delivery]) =>
+          delivery.status === NotificationStatus.SENT ||
+          delivery.status === NotificationStatus.DELIVERED,
+      )
+      .map(([channel]) => channel as NotificationChannel);
+
+    try {
+      const sent = await this.deliverNotification(doc.ref, {
+        type: data.type,
+        priority: data.priority ?? ALERT_TYPE_PRIORITIES[data.type],
+        recipientUid: data.recipientUid,
+        taskId: data.taskId,
+        title: data.title,
+        body: data.body,
+        dataType: data.data.type,
+        sentChannels,
+        attempt,
+      });
+
+      if (sent && data.type === NotificationType.TASK_ASSIGNED) {
+        await this.markTaskNotified(data.taskId);
       }
+      return sent;
+    } catch {
+      // Failure and next retry already recorded
+      return false;
+    }
+  }
 
-      const expoPushToken = user.fcmToken;
-      if (!expoPushToken) {
-        const userIdentifier = user.name || user.email || recipientUid;
-        this.logger.warn(
-          `⚠️ User "${userIdentifier}" (${recipientUid}) has no FCM token. User needs to logout/login to register device for push notifications.`,
-        );
-        await this.updateNotificationStatus(
-          notificationRef,
-          NotificationStatus.FAILED,
-          'User has no FCM token - needs to login to enable notifications',
+  /**
+   * Send a user's queued notifications as one push (digest job)
+   * Returns the number of notifications the push covered
+   */
+  async sendDigest(
+    recipientUid: string,
+    docs: admin.firestore.QueryDocumentSnapshot[],
+  ): Promise<number> {
+    const lease = admin.firestore.Timestamp.fromMillis(
+      Date.now() + ALERT_PUSH_RETRY.SEND_LEASE_MS,
+    );
+
+    // Claim the records; skips those read or changed since they were queried
+    const claimed = (
+      await Promise.all(
+        docs.map((doc) =>
+          doc.ref
+            .update(
+              {
+                status: NotificationStatus.PENDING,
+                digestAt: null,
+                nextRetryAt: lease,
+              },
+              { lastUpdateTime: doc.updateTime },
+            )
+            .then(() => doc)
+            .catch(() => null),
+        ),
+      )
+    ).filter((doc): doc is admin.firestore.QueryDocumentSnapshot => !!doc);
+
+    if (claimed.length === 0) {
+      return 0;
+    }
+
+    const notifications = claimed.map(
+      (doc) => doc.data() as INotificationDocument,
+    );
+    const attempt =
+      Math.max(...notifications.map((data) => data.attempts ?? 0)) + 1;
+
+    // A digest of one is just the notification itself
+    const [first] = notifications;
+    const locale = await this.getRecipientLocale(recipientUid);
+    const content =
+      claimed.length === 1
+        ? {
+            title: first.title,
+            body: first.body,
+            data: {
+              notificationId: claimed[0].id,
+              taskId: first.taskId,
+              type: first.data.type,
+            },
+          }
+        : {
+            ...this.templateService.renderDigest(locale, notifications),
+            data: { type: ALERT_DIGEST.DATA_TYPE, count: claimed.length },
+          };
+
+    this.logger.log(
+      `🗂️ Sending digest of ${claimed.length} notifications → ${recipientUid}`,
+    );
+
+    try {
+      const sent = await this.dispatch(
+        claimed.map((doc) => doc.ref),
+        {
+          recipientUid,
+          type: claimed.length === 1 ? first.type : null,
+          ...content,
+          channels: [NotificationChannel.PUSH],
+          webhookUrl: null,
+          attempt,
+        },
+      );
+      return sent ? claimed.length : 0;
+    } catch {
+      // Failure and next retry already recorded
+      return 0;
+    }
+  }
+
+  // ==========================================
+  // MAINTENANCE OPERATIONS
+  // ==========================================
+
+  /**
+   * Delete notifications older than their type's retention (cleanup job)
+   * Each type is deleted a page at a time so old documents are never all
+   * loaded at once; types missing from retentionDays use the default
+   */
+  async deleteOldNotifications(
+    retentionDays: Partial<
+      Record<NotificationType, number>
+    > = ALERT_RETENTION_DAYS,
+  ): Promise<ICleanupResponse> {
+    const deletedByType: Partial<Record<NotificationType, number>> = {};
+    let deletedCount = 0;
+
+    for (const type of Object.values(NotificationType)) {
+      const days = retentionDays[type] ?? ALERT_RETENTION.RETENTION_DAYS;
+      const cutoff = admin.firestore.Timestamp.fromMillis(
+        Date.now() - days * 24 * 60 * 60 * 1000,
+      );
+
+      let typeCount = 0;
+      for (;;) {
+        const snapshot = await this.firestore
+          .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
+          .where('type', '==', type)
+          .where('createdAt', '<', cutoff)
+          .limit(ALERT_RETENTION.BATCH_SIZE)
+          .get();
+
+        if (snapshot.empty) {
+          break;
+        }
+
+        // Deleted documents drop out of the query, so no cursor is needed
+        await this.writeInBatches(snapshot.docs, (batch, doc) =>
+          batch.delete(doc.ref),
         );
-        return;
+        typeCount += snapshot.size;
+
+        if (snapshot.size < ALERT_RETENTION.BATCH_SIZE) {
+          break;
+        }
       }
 
-      const userIdentifier = user.name || user.email || recipientUid;
-      this.logger.log(
-        `✓ Found FCM token for "${userIdentifier}" (${recipientUid}): ${expoPushToken.substring(0, 20)}...`,
-      );
+      if (typeCount > 0) {
+        deletedByType[type] = typeCount;
+        deletedCount += typeCount;
+      }
+    }
+
+    this.logger.log(`🧹 Deleted ${deletedCount} old notifications`);
+
+    return { deletedCount, deletedByType };
+  }
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * Core notification sender
+   */
+  private async sendPushNotification(
+    params: ISendPushNotificationParams,
+  ): Promise<void> {
+    const {
+      taskId,
+      recipientUid,
+      senderUid,
+      type,
+      variant,
+      variables,
+      dataType,
+    } = params;
+    const priority = params.priority ?? ALERT_TYPE_PRIORITIES[type];
+
+    this.logger.log(
+      `🔔 Sending notification for task ${taskId} → ${recipientUid}`,
+    );
 
-      // Validate token format
-      if (!Expo.isExpoPushToken(expoPushToken)) {
-        await this.updateNotificationStatus(
-          notificationRef,
-          NotificationStatus.FAILED,
-          'Invalid Expo Push Token format',
+    try {
+      // Idempotency check for one-off task notifications (prevent duplicates)
+      if (ALERT_IDEMPOTENT_TYPES.includes(type)) {
+        const existing = await this.checkExistingNotification(
+          taskId,
+          recipientUid,
+          type,
         );
-        return;
+        if (existing) {
+          this.logger.warn(
+            `⚠️ Notification already exists for task ${taskId} → ${recipientUid}`,
+          );
+          return;
+        }
       }
 
-      // Send push notification via Expo
-      await this.sendExpoNotification(notificationRef, expoPushToken, {
+      // Rendered once in the recipient's locale and stored with the record
+      const locale = await this.getRecipientLocale(recipientUid);
+      const { title, body } = this.templateService.render(
+        locale,
+        type,
+        variables,
+        variant,
+      );
+
+      // Create notification record
+      const notificationRef = await this.createNotificationRecord({
+        type,
+        priority,
+        recipientUid,
+        senderUid,
+        taskId,
+        title,
+        body,
+        dataType,
+      });
+
+      await this.deliverNotification(notificationRef, {
+        type,
+        priority,
+        recipientUid,
         taskId,
         title,
         body,
         dataType,
+        attempt: 1,
       });
     } catch (error) {
       this.logger.error('❌ sendPushNotification failed:', error);
@@ -418,6 +1104,423 @@ export class AlertService {
     }
   }
 
+  /**
+   * Notify each assignee that the task they were working on is gone
+   */
+  private async sendTaskClosedNotification(
+    params: ITaskClosedNotificationParams,
+    type: NotificationType,
+  ): Promise<void> {
+    const { taskId, assigneeUids, actorUid, actorName, taskTitle } = params;
+
+    await Promise.all(
+      assigneeUids.map((recipientUid) =>
+        this.sendPushNotification({
+          taskId,
+          recipientUid,
+          senderUid: actorUid,
+          type,
+          variables: { actorName, taskTitle },
+          dataType: type,
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Send an existing notification over the channels the recipient's
+   * preferences allow, queueing its push when it waits for a digest
+   * Returns whether any channel sent it; channel errors are recorded and
+   * rethrown
+   */
+  private async deliverNotification(
+    notificationRef: admin.firestore.DocumentReference,
+    params: {
+      type: NotificationType;
+      priority: NotificationPriority;
+      recipientUid: string;
+      taskId: string;
+      title: string;
+      body: string;
+      dataType: string;
+      /** Channels that sent the notification on an earlier attempt */
+      sentChannels?: NotificationChannel[];
+      /** Attempt number, starting at 1 */
+      attempt: number;
+    },
+  ): Promise<boolean> {
+    const {
+      type,
+      priority,
+      recipientUid,
+      taskId,
+      title,
+      body,
+      dataType,
+      sentChannels,
+      attempt,
+    } = params;
+
+    // The record stays readable in-app, only the delivery is held back
+    const plan = await this.preferencesService.planDelivery(
+      recipientUid,
+      type,
+      taskId,
+      priority,
+    );
+    if (plan.suppressedReason) {
+      this.logger.log(
+        `🔕 Notification ${notificationRef.id} held back: ${plan.suppressedReason}`,
+      );
+      await notificationRef.update({
+        status: NotificationStatus.SUPPRESSED,
+        suppressedReason: plan.suppressedReason,
+        nextRetryAt: null,
+      });
+      return false;
+    }
+
+    const dispatchParams = {
+      recipientUid,
+      type,
+      title,
+      body,
+      data: {
+        notificationId: notificationRef.id,
+        taskId,
+        type: dataType,
+      },
+      channels: plan.channels,
+      webhookUrl: plan.webhookUrl,
+      sentChannels,
+      attempt,
+    };
+
+    if (!plan.digestAt) {
+      return this.dispatch([notificationRef], dispatchParams);
+    }
+
+    // Other channels go out now, the push waits for the digest
+    if (plan.channels.length > 0) {
+      try {
+        await this.dispatch([notificationRef], dispatchParams);
+      } catch {
+        // Failure already recorded per channel
+      }
+    }
+
+    this.logger.log(
+      `🗂️ Notification ${notificationRef.id} queued for digest at ${plan.digestAt.toISOString()}`,
+    );
+    await notificationRef.update({
+      status: NotificationStatus.QUEUED,
+      digestAt: admin.firestore.Timestamp.fromDate(plan.digestAt),
+      nextRetryAt: null,
+    });
+    return false;
+  }
+
+  /**
+   * Send one message covering the given notifications over each channel
+   * that can reach the recipient, recording the outcome per channel
+   * Returns whether any channel sent it; throws when every channel failed
+   */
+  private async dispatch(
+    notificationRefs: admin.firestore.DocumentReference[],
+    params: {
+      recipientUid: string;
+      type: NotificationType | null;
+      title: string;
+      body: string;
+      data: Record<string, unknown>;
+      channels: NotificationChannel[];
+      webhookUrl: string | null;
+      /** Channels that sent the notifications on an earlier attempt */
+      sentChannels?: NotificationChannel[];
+      /** Attempt number, starting at 1 */
+      attempt: number;
+    },
+  ): Promise<boolean> {
+    const { recipientUid, type, title, body, data, webhookUrl, attempt } =
+      params;
+    const sentChannels = params.sentChannels ?? [];
+
+    const user = await this.getUser(recipientUid);
+    if (!user) {
+      await this.recordDeliveryFailure(
+        notificationRefs,
+        'User not found',
+        attempt,
+        false,
+      );
+      return false;
+    }
+
+    const userIdentifier = user.name || user.email || recipientUid;
+    const recipient = this.buildRecipient(recipientUid, user, webhookUrl);
+    const senders = this.getSenders(
+      recipient,
+      type,
+      params.channels,
+      sentChannels,
+    );
+
+    if (senders.length === 0) {
+      if (sentChannels.length > 0) {
+        // Sent earlier over another channel, nothing left to retry
+        await Promise.all(
+          notificationRefs.map((ref) => ref.update({ nextRetryAt: null })),
+        );
+        return true;
+      }
+
+      this.logger.warn(
+        `⚠️ No channel can reach "${userIdentifier}" (${recipientUid}). User needs to logout/login to register device for push notifications.`,
+      );
+      await this.recordDeliveryFailure(
+        notificationRefs,
+        'No channel can reach the user - needs to login to enable notifications',
+        attempt,
+        false,
+      );
+      return false;
+    }
+
+    const message = {
+      notificationIds: notificationRefs.map((ref) => ref.id),
+      type,
+      recipient,
+      title,
+      body,
+      data,
+    };
+    const results = await Promise.all(
+      senders.map(async (sender) => ({
+        channel: sender.channel,
+        result: await sender.send(message),
+      })),
+    );
+
+    const { sent, errors } = await this.recordDispatch(
+      notificationRefs,
+      recipientUid,
+      results,
+      sentChannels,
+      attempt,
+    );
+
+    if (!sent) {
+      throw new Error(errors.join('; '));
+    }
+    return true;
+  }
+
+  /**
+   * Senders of the channels still to send over that can reach the recipient
+   */
+  private getSenders(
+    recipient: INotificationRecipient,
+    type: NotificationType | null,
+    channels: NotificationChannel[],
+    sentChannels: NotificationChannel[],
+  ): NotificationChannelSender[] {
+    const pending = channels.filter(
+      (channel) => !sentChannels.includes(channel),
+    );
+
+    // Users without a device still hear about what matters most
+    if (
+      pending.includes(NotificationChannel.PUSH) &&
+      recipient.pushTokens.length === 0 &&
+      type &&
+      ALERT_CHANNELS.EMAIL_FALLBACK_TYPES.includes(type) &&
+      !pending.includes(NotificationChannel.EMAIL) &&
+      !sentChannels.includes(NotificationChannel.EMAIL)
+    ) {
+      pending.push(NotificationChannel.EMAIL);
+    }
+
+    return this.channelSenders.filter(
+      (sender) =>
+        pending.includes(sender.channel) && sender.canReach(recipient),
+    );
+  }
+
+  /**
+   * Store the outcome of each channel on the notifications, scheduling a
+   * retry of the failed channels and pruning dead push tokens
+   */
+  private async recordDispatch(
+    notificationRefs: admin.firestore.DocumentReference[],
+    recipientUid: string,
+    results: {
+      channel: NotificationChannel;
+      result: INotificationChannelResult;
+    }[],
+    sentChannels: NotificationChannel[],
+    attempt: number,
+  ): Promise<{ sent: boolean; errors: string[] }> {
+    const label =
+      notificationRefs.length === 1
+        ? `Notification ${notificationRefs[0].id}`
+        : `Digest of ${notificationRefs.length} notifications`;
+
+    const now = admin.firestore.Timestamp.now();
+    const update: Record<string, unknown> = { attempts: attempt };
+    const errors: string[] = [];
+    let sent = sentChannels.length > 0;
+    let retryable = false;
+
+    for (const { channel, result } of results) {
+      update[`channels.${channel}`] = {
+        status: result.sent
+          ? NotificationStatus.SENT
+          : NotificationStatus.FAILED,
+        attempts: attempt,
+        sentAt: result.sent ? now : null,
+        error: result.error ?? null,
+      };
+
+      if (result.sent) {
+        sent = true;
+        Object.assign(update, result.record);
+        this.logger.log(`✅ ${label} sent over ${channel}`);
+      } else {
+        errors.push(`${channel}: ${result.error ?? 'Unknown error'}`);
+        retryable ||= !!result.retryable;
+      }
+
+      // A token missed here is pruned on a later send
+      if (result.deadPushTokens?.length) {
+        try {
+          await this.clearPushTokens(recipientUid, result.deadPushTokens);
+        } catch (error) {
+          this.logger.warn(
+            `Failed to clear push tokens for ${recipientUid}:`,
+            error,
+          );
+        }
+      }
+    }
+
+    // Only the failed channels are retried
+    const nextRetryAt = this.getNextRetryAt(
+      attempt,
+      errors.length > 0 && retryable,
+    );
+    if (errors.length > 0) {
+      this.logger.error(
+        `❌ ${label}: ${errors.join('; ')} (attempt ${attempt}${nextRetryAt ? ', will retry' : ''})`,
+      );
+    }
+
+    Object.assign(update, {
+      status: sent ? NotificationStatus.SENT : NotificationStatus.FAILED,
+      nextRetryAt,
+      error:
+        errors.length > 0
+          ? errors.join('; ')
+          : admin.firestore.FieldValue.delete(),
+    });
+    if (sent && sentChannels.length === 0) {
+      update['sentAt'] = now;
+    }
+    await Promise.all(notificationRefs.map((ref) => ref.update(update)));
+
+    return { sent, errors };
+  }
+
+  /**
+   * Fetch a notification, failing unless it belongs to the user
+   */
+  private async getOwnedNotification(
+    notificationId: string,
+    uid: string,
+  ): Promise<admin.firestore.DocumentSnapshot> {
+    const doc = await this.firestore
+      .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
+      .doc(notificationId)
+      .get();
+
+    if (!doc.exists) {
+      throw new NotFoundException({
+        message: ALERT_ERROR_MESSAGES.NOTIFICATION_NOT_FOUND,
+        code: ALERT_ERROR_CODES.NOTIFICATION_NOT_FOUND,
+      });
+    }
+
+    if (doc.get('recipientUid') !== uid) {
+      throw new ForbiddenException({
+        message: ALERT_ERROR_MESSAGES.ACCESS_DENIED,
+        code: ALERT_ERROR_CODES.ACCESS_DENIED,
+      });
+    }
+
+    return doc;
+  }
+
+  /**
+   * Fetch the given notifications, keeping those that belong to the user
+   */
+  private async getOwnedNotifications(
+    notificationIds: string[],
+    uid: string,
+  ): Promise<admin.firestore.DocumentSnapshot[]> {
+    const collection = this.firestore.collection(
+      ALERT_COLLECTIONS.NOTIFICATIONS,
+    );
+    const refs = Array.from(new Set(notificationIds), (id) =>
+      collection.doc(id),
+    );
+
+    const docs: admin.firestore.DocumentSnapshot[] = [];
+    for (let i = 0; i < refs.length; i += ALERT_BULK.BATCH_SIZE) {
+      docs.push(
+        ...(await this.firestore.getAll(
+          ...refs.slice(i, i + ALERT_BULK.BATCH_SIZE),
+        )),
+      );
+    }
+
+    return docs.filter((doc) => doc.exists && doc.get('recipientUid') === uid);
+  }
+
+  /**
+   * Apply a write to each document, committing batches within Firestore's
+   * 500-write limit
+   */
+  private async writeInBatches(
+    docs: admin.firestore.DocumentSnapshot[],
+    write: (
+      batch: admin.firestore.WriteBatch,
+      doc: admin.firestore.DocumentSnapshot,
+    ) => void,
+  ): Promise<void> {
+    for (let i = 0; i < docs.length; i += ALERT_BULK.BATCH_SIZE) {
+      const batch = this.firestore.batch();
+      docs
+        .slice(i, i + ALERT_BULK.BATCH_SIZE)
+        .forEach((doc) => write(batch, doc));
+      await batch.commit();
+    }
+  }
+
+  /**
+   * Delivery status to restore when a read notification is marked unread
+   */
+  private getUnreadStatus(data: INotificationDocument): NotificationStatus {
+    if (data.suppressedReason) {
+      return NotificationStatus.SUPPRESSED;
+    }
+    if (data.deliveredAt) {
+      return NotificationStatus.DELIVERED;
+    }
+    if (data.sentAt) {
+      return NotificationStatus.SENT;
+    }
+    return data.error ? NotificationStatus.FAILED : NotificationStatus.PENDING;
+  }
+
   /**
    * Check if a notification already exists (for idempotency)
    */
@@ -441,7 +1544,11 @@ export class AlertService {
    * Create a notification document in Firestore
    */
   private async createNotificationRecord(params: {
+    /** Document ID, generated when unset */
+    notificationId?: string;
+    broadcastId?: string;
     type: NotificationType;
+    priority: NotificationPriority;
     recipientUid: string;
     senderUid: string;
     taskId: string;
@@ -449,11 +1556,22 @@ export class AlertService {
     body: string;
     dataType: string;
   }): Promise<admin.firestore.DocumentReference> {
-    const { type, recipientUid, senderUid, taskId, title, body, dataType } =
-      params;
+    const {
+      notificationId,
+      broadcastId,
+      type,
+      priority,
+      recipientUid,
+      senderUid,
+      taskId,
+      title,
+      body,
+      dataType,
+    } = params;
 
     const notificationData: Omit<INotificationDocument, 'id'> = {
       type,
+      priority,
       recipientUid,
       senderUid,
       taskId,
@@ -462,23 +1580,49 @@ export class AlertService {
       data: {
         taskId,
         type: dataType,
+        ...(broadcastId && { broadcastId }),
       },
       status: NotificationStatus.PENDING,
       isRead: false,
       createdAt: admin.firestore.Timestamp.now(),
       sentAt: null,
       readAt: null,
+      attempts: 0,
+      // Picked up by the retry job if the first send never finishes
+      nextRetryAt: admin.firestore.Timestamp.fromMillis(
+        Date.now() + ALERT_PUSH_RETRY.SEND_LEASE_MS,
+      ),
+      broadcastId,
     };
 
-    const ref = await this.firestore
-      .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
-      .add(notificationData);
+    const collection = this.firestore.collection(
+      ALERT_COLLECTIONS.NOTIFICATIONS,
+    );
+    const ref = notificationId
+      ? collection.doc(notificationId)
+      : collection.doc();
+    await ref.create(notificationData);
 
     this.logger.log(`📝 Notification document created: ${ref.id}`);
+    await this.publishUnreadCount(recipientUid);
 
     return ref;
   }
 
+  /**
+   * Push the user's current unread count to their open streams
+   */
+  private async publishUnreadCount(uid: string): Promise<void> {
+    try {
+      const count = await this.getUnreadCount(uid);
+      this.realtimeService.publish([uid], RealtimeEventType.UNREAD_COUNT, {
+        count,
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to publish unread count for ${uid}:`, error);
+    }
+  }
+
   /**
    * Get a user by UID
    */
@@ -494,81 +1638,126 @@ export class AlertService {
   }
 
   /**
-   * Update notification status with optional error
+   * Locale the user's notifications are written in
    */
-  private async updateNotificationStatus(
-    ref: admin.firestore.DocumentReference,
-    status: NotificationStatus,
-    error?: string,
-  ): Promise<void> {
-    const updateData: Record<string, unknown> = { status };
+  private async getRecipientLocale(uid: string): Promise<NotificationLocale> {
+    const userSnap = await this.firestore.collection('users').doc(uid).get();
+    const user = userSnap.data() as FirebaseUser | undefined;
+    return this.templateService.resolveLocale(user?.locale);
+  }
 
-    if (error) {
-      updateData.error = error;
-      this.logger.error(`❌ ${error}`);
+  /**
+   * Push tokens of every device the user registered
+   * Includes the single token stored before device registrations
+   */
+  private getPushTokens(user: FirebaseUser): string[] {
+    const tokens = new Set((user.devices ?? []).map((device) => device.token));
+    if (user.fcmToken) {
+      tokens.add(user.fcmToken);
     }
+    return Array.from(tokens);
+  }
 
-    await ref.update(updateData);
+  /**
+   * Recipient details for the channels, keeping only valid push tokens
+   */
+  private buildRecipient(
+    uid: string,
+    user: FirebaseUser,
+    webhookUrl: string | null,
+  ): INotificationRecipient {
+    const pushTokens = this.getPushTokens(user);
+    const validTokens = pushTokens.filter((token) =>
+      Expo.isExpoPushToken(token),
+    );
+    if (validTokens.length < pushTokens.length) {
+      this.logger.warn(
+        `⚠️ Skipping ${pushTokens.length - validTokens.length} invalid push tokens of ${uid}`,
+      );
+    }
+
+    return {
+      uid,
+      name: user.name,
+      email: user.email,
+      pushTokens: validTokens,
+      webhookUrl,
+    };
   }
 
   /**
-   * Send notification via Expo Push API
+   * Mark a delivery attempt failed and schedule a retry when it may succeed
    */
-  private async sendExpoNotification(
-    notificationRef: admin.firestore.DocumentReference,
-    expoPushToken: string,
-    params: {
-      taskId: string;
-      title: string;
-      body: string;
-      dataType: string;
-    },
+  private async recordDeliveryFailure(
+    refs: admin.firestore.DocumentReference[],
+    error: string,
+    attempt: number,
+    retryable: boolean,
   ): Promise<void> {
-    const { taskId, title, body, dataType } = params;
+    const { maxAttempts } = this.configService.pushRetryConfig;
+    const nextRetryAt = this.getNextRetryAt(attempt, retryable);
 
-    const message: ExpoPushMessage = {
-      to: expoPushToken,
-      sound: 'default',
-      title,
-      body,
-      data: {
-        notificationId: notificationRef.id,
-        taskId,
-        type: dataType,
-      },
-      priority: 'high',
-      channelId: ALERT_PUSH_CONFIG.CHANNEL_ID,
-    };
+    this.logger.error(
+      `❌ ${error} (attempt ${attempt}/${maxAttempts}${nextRetryAt ? ', will retry' : ''})`,
+    );
 
-    this.logger.log(`📤 Sending push notification...`);
+    await Promise.all(
+      refs.map((ref) =>
+        ref.update({
+          status: NotificationStatus.FAILED,
+          error,
+          attempts: attempt,
+          nextRetryAt,
+        }),
+      ),
+    );
+  }
 
-    const chunks = this.expo.chunkPushNotifications([message]);
-    const tickets = [];
+  /**
+   * When to retry after a failed attempt, null when it won't be retried
+   */
+  private getNextRetryAt(
+    attempt: number,
+    retryable: boolean,
+  ): admin.firestore.Timestamp | null {
+    const { maxAttempts } = this.configService.pushRetryConfig;
+    return retryable && attempt < maxAttempts
+      ? admin.firestore.Timestamp.fromMillis(
+          Date.now() + this.getRetryDelay(attempt),
+        )
+      : null;
+  }
 
-    for (const chunk of chunks) {
-      const ticketChunk = await this.expo.sendPushNotificationsAsync(chunk);
-      tickets.push(...ticketChunk);
-    }
+  /**
+   * Exponential backoff with equal jitter for the retry after an attempt
+   */
+  private getRetryDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.configService.pushRetryConfig;
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
 
-    const ticket = tickets[0];
+    // Keep half the delay and randomize the rest so retries don't bunch up
+    return delay / 2 + Math.random() * (delay / 2);
+  }
 
-    if (ticket?.status === 'error') {
-      const errorMsg = ticket.message || 'Unknown Expo error';
-      await this.updateNotificationStatus(
-        notificationRef,
-        NotificationStatus.FAILED,
-        errorMsg,
+  /**
+   * Mark the task's assignment notification as sent after a successful retry
+   */
+  private async markTaskNotified(taskId: string): Promise<void> {
+    try {
+      await this.firestore
+        .collection(TASK_COLLECTIONS.TASKS)
+        .doc(taskId)
+        .update({
+          'notification.sent': true,
+          'notification.sentAt': admin.firestore.Timestamp.now(),
+          'notification.error': null,
+        });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update notification status of task ${taskId}:`,
+        error,
       );
-      throw new Error(errorMsg);
     }
-
-    await notificationRef.update({
-      status: NotificationStatus.SENT,
-      sentAt: admin.firestore.Timestamp.now(),
-      fcmMessageId: ticket?.id || 'unknown',
-    });
-
-    this.logger.log(`✅ Notification ${notificationRef.id} sent successfully`);
   }
 
   /**
@@ -591,6 +1780,7 @@ export class AlertService {
       body: data.body,
       data: data.data,
       status: data.status,
+      priority: data.priority ?? ALERT_TYPE_PRIORITIES[data.type],
       isRead: data.isRead,
       createdAt: data.createdAt?.toDate() || new Date(),
       sentAt: data.sentAt?.toDate() || null,
@@ -0,0 +1,111 @@
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { AppConfigService } from '@bringup/config';
+import {
+  INotificationRecipient,
+  NotificationChannel,
+  NotificationType,
+} from '@bringup/shared';
+import { EmailChannel } from './email.channel';
+
+/**
+ * Message received by the capture server
+ */
+interface CapturedMail {
+  from: string;
+  to: string[];
+  raw: string;
+}
+
+const recipient: INotificationRecipient = {
+  uid: 'user-1',
+  name: 'Jane',
+  email: 'jane@example.com',
+  pushTokens: [],
+  webhookUrl: null,
+};
+
+describe('EmailChannel', () => {
+  let server: SMTPServer;
+  let port: number;
+  let captured: CapturedMail[];
+
+  beforeAll(async () => {
+    server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      logger: false,
+      onData(stream, session, callback) {
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('end', () => {
+          captured.push({
+            from: session.envelope.mailFrom
+              ? session.envelope.mailFrom.address
+              : '',
+            to: session.envelope.rcptTo.map((rcpt) => rcpt.address),
+            raw: Buffer.concat(chunks).toString('utf-8'),
+          });
+          callback();
+        });
+      },
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    port = (server.server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    captured = [];
+  });
+
+  function createChannel(): EmailChannel {
+    const configService = {
+      emailConfig: {
+        host: '127.0.0.1',
+        port,
+        secure: false,
+        user: null,
+        password: null,
+        from: 'Bringup <no-reply@example.com>',
+      },
+    } as unknown as AppConfigService;
+
+    return new EmailChannel(configService);
+  }
+
+  it('sends the notification to the recipient over SMTP', async () => {
+    const result = await createChannel().send({
+      notificationIds: ['notification-1'],
+      type: NotificationType.TASK_ASSIGNED,
+      recipient,
+      title: 'Task assigned',
+      body: 'Water the plants before noon',
+      data: {},
+    });
+
+    expect(result).toEqual({ sent: true });
+    expect(captured).toHaveLength(1);
+
+    const [mail] = captured;
+    expect(mail.from).toBe('no-reply@example.com');
+    expect(mail.to).toEqual(['jane@example.com']);
+    expect(mail.raw).toMatch(/^To: jane@example\.com$/m);
+    expect(mail.raw).toMatch(/^Subject: Task assigned$/m);
+    expect(mail.raw).toContain('Water the plants before noon');
+  });
+
+  it('only reaches recipients with an email address', () => {
+    const channel = createChannel();
+
+    expect(channel.channel).toBe(NotificationChannel.EMAIL);
+    expect(channel.canReach(recipient)).toBe(true);
+    expect(channel.canReach({ ...recipient, email: '' })).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as nodemailer from 'nodemailer';
+import { AppConfigService } from '@bringup/config';
+import {
+  INotificationChannelMessage,
+  INotificationChannelResult,
+  INotificationRecipient,
+  NotificationChannel,
+  NotificationChannelSender,
+} from '@bringup/shared';
+
+/**
+ * Email channel over SMTP
+ * Disabled unless SMTP_HOST is configured
+ */
+@Injectable()
+export class EmailChannel implements NotificationChannelSender {
+  readonly channel = NotificationChannel.EMAIL;
+  private readonly logger = new Logger(EmailChannel.name);
+  private readonly transporter: nodemailer.Transporter | null;
+  private readonly from: string | null;
+
+  constructor(configService: AppConfigService) {
+    const { host, port, secure, user, password, from } =
+      configService.emailConfig;
+
+    this.from = from;
+    this.transporter = host
+      ? nodemailer.createTransport({
+          host,
+          port,
+          secure,
+          ...(user && { auth: { user, pass: password ?? '' } }),
+        })
+      : null;
+  }
+
+  canReach(recipient: INotificationRecipient): boolean {
+    return !!this.transporter && !!recipient.email;
+  }
+
+  async send(
+    message: INotificationChannelMessage,
+  ): Promise<INotificationChannelResult> {
+    if (!this.transporter) {
+      return { sent: false, error: 'Email is not configured' };
+    }
+
+    const { recipient, title, body } = message;
+
+    try {
+      const info = await this.transporter.sendMail({
+        from: this.from ?? undefined,
+        to: recipient.email,
+        subject: title,
+        text: body,
+      });
+
+      this.logger.log(`✅ Email ${info.messageId} sent to ${recipient.uid}`);
+      return { sent: true };
+    } catch (error) {
+      // SMTP 5xx replies are permanent, everything else may pass later
+      const responseCode = (error as { responseCode?: number }).responseCode;
+      return {
+        sent: false,
+        error: (error as Error).message,
+        retryable: !responseCode || responseCode < 500,
+      };
+    }
+  }
+}
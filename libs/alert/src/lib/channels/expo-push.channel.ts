@@ -0,0 +1,144 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Expo, ExpoPushMessage, ExpoPushTicket } from 'expo-server-sdk';
+import {
+  ALERT_PUSH_CONFIG,
+  ALERT_PUSH_RECEIPTS,
+  ALERT_PUSH_RETRY,
+  EXPO_CLIENT_TOKEN,
+  INotificationChannelMessage,
+  INotificationChannelResult,
+  INotificationPushTicket,
+  INotificationRecipient,
+  NotificationChannel,
+  NotificationChannelSender,
+} from '@bringup/shared';
+
+/**
+ * Push channel using the Expo Push API
+ * Sends to each of the recipient's devices and succeeds when any accepts
+ */
+@Injectable()
+export class ExpoPushChannel implements NotificationChannelSender {
+  readonly channel = NotificationChannel.PUSH;
+  private readonly logger = new Logger(ExpoPushChannel.name);
+
+  constructor(
+    @Inject(EXPO_CLIENT_TOKEN)
+    private readonly expo: Expo,
+  ) {}
+
+  canReach(recipient: INotificationRecipient): boolean {
+    return recipient.pushTokens.length > 0;
+  }
+
+  async send(
+    message: INotificationChannelMessage,
+  ): Promise<INotificationChannelResult> {
+    const [result] = await this.sendMany([message]);
+    return result;
+  }
+
+  /**
+   * Pushes of every message go out together, in as few Expo requests as
+   * chunkPushNotifications allows; a failed request only fails its chunk
+   */
+  async sendMany(
+    messages: INotificationChannelMessage[],
+  ): Promise<INotificationChannelResult[]> {
+    const pushes: ExpoPushMessage[] = messages.flatMap(
+      ({ recipient, title, body, data }) =>
+        recipient.pushTokens.map((to) => ({
+          to,
+          sound: 'default' as const,
+          title,
+          body,
+          data,
+          priority: 'high' as const,
+          channelId: ALERT_PUSH_CONFIG.CHANNEL_ID,
+        })),
+    );
+
+    this.logger.log(
+      `📤 Sending push notification to ${pushes.length} devices...`,
+    );
+
+    // Tickets come back in the order the pushes were sent
+    const outcomes: (ExpoPushTicket | Error)[] = [];
+    for (const chunk of this.expo.chunkPushNotifications(pushes)) {
+      try {
+        outcomes.push(...(await this.expo.sendPushNotificationsAsync(chunk)));
+      } catch (error) {
+        outcomes.push(...chunk.map(() => error as Error));
+      }
+    }
+
+    let offset = 0;
+    return messages.map(({ recipient }) => {
+      const count = recipient.pushTokens.length;
+      const result = this.toResult(
+        recipient.pushTokens,
+        outcomes.slice(offset, offset + count),
+      );
+      offset += count;
+      return result;
+    });
+  }
+
+  /**
+   * Result of one message from the tickets of its pushes
+   */
+  private toResult(
+    pushTokens: string[],
+    outcomes: (ExpoPushTicket | Error)[],
+  ): INotificationChannelResult {
+    const sentTickets: INotificationPushTicket[] = [];
+    const deadPushTokens: string[] = [];
+    const errors: string[] = [];
+    let retryable = false;
+
+    outcomes.forEach((outcome, index) => {
+      const pushToken = pushTokens[index];
+      if (outcome instanceof Error) {
+        // Network or Expo outage, worth retrying
+        errors.push(outcome.message);
+        retryable = true;
+        return;
+      }
+      if (outcome.status === 'ok') {
+        sentTickets.push({ ticketId: outcome.id, pushToken });
+        return;
+      }
+
+      const errorCode = outcome.details?.error ?? '';
+      errors.push(outcome.message || 'Unknown Expo error');
+      if (!ALERT_PUSH_RETRY.PERMANENT_EXPO_ERRORS.includes(errorCode)) {
+        retryable = true;
+      }
+      if (errorCode === ALERT_PUSH_RECEIPTS.DEVICE_NOT_REGISTERED) {
+        deadPushTokens.push(pushToken);
+      }
+    });
+
+    if (sentTickets.length === 0) {
+      return {
+        sent: false,
+        error: errors[0] || 'Unknown Expo error',
+        retryable,
+        deadPushTokens,
+      };
+    }
+
+    this.logger.log(
+      `✅ Push sent to ${sentTickets.length}/${pushTokens.length} devices`,
+    );
+
+    return {
+      sent: true,
+      record: {
+        fcmMessageId: sentTickets[0].ticketId,
+        pushTickets: sentTickets,
+      },
+      deadPushTokens,
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { isPublicWebhookUrl } from './webhook-url.util';
+
+describe('isPublicWebhookUrl', () => {
+  it.each([
+    'https://127.0.0.1/hook',
+    'https://localhost/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'https://10.1.2.3/hook',
+    'https://172.20.0.1/hook',
+    'https://192.168.1.10/hook',
+    'https://[::1]/hook',
+    'https://[fd00::1]/hook',
+    'https://[fe80::1]/hook',
+    'https://[::ffff:127.0.0.1]/hook',
+  ])('rejects %s', async (url) => {
+    await expect(isPublicWebhookUrl(url)).resolves.toBe(false);
+  });
+
+  it('accepts a public address', async () => {
+    await expect(isPublicWebhookUrl('https://8.8.8.8/hook')).resolves.toBe(
+      true,
+    );
+  });
+
+  it('rejects an invalid URL', async () => {
+    await expect(isPublicWebhookUrl('not a url')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { lookup } from 'dns/promises';
+import { BlockList } from 'net';
+
+/**
+ * Addresses a webhook may not point at: unspecified, loopback, private,
+ * carrier-grade NAT, link-local (cloud metadata), multicast and reserved
+ * IPv4-mapped IPv6 addresses are checked against the IPv4 ranges
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('192.0.0.0', 24, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4');
+BLOCKED_ADDRESSES.addAddress('::', 'ipv6');
+BLOCKED_ADDRESSES.addAddress('::1', 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Whether a webhook URL's host resolves to public addresses only
+ * Invalid URLs and hosts that don't resolve count as not public
+ */
+export async function isPublicWebhookUrl(url: string): Promise<boolean> {
+  let hostname: string;
+  try {
+    // IPv6 hosts keep their brackets in URL.hostname
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return false;
+  }
+
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return (
+      addresses.length > 0 &&
+      addresses.every(
+        ({ address, family }) =>
+          !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+      )
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { AppConfigService } from '@bringup/config';
+import {
+  ALERT_CHANNELS,
+  INotificationChannelMessage,
+  INotificationChannelResult,
+  INotificationRecipient,
+  NotificationChannel,
+  NotificationChannelSender,
+} from '@bringup/shared';
+import { isPublicWebhookUrl } from './webhook-url.util';
+
+/**
+ * Webhook channel posting notifications as JSON to the user's URL
+ * Bodies are signed when WEBHOOK_SIGNING_SECRET is configured
+ * The URL is checked when saved and again on each send, since its host can
+ * resolve to a different address later
+ */
+@Injectable()
+export class WebhookChannel implements NotificationChannelSender {
+  readonly channel = NotificationChannel.WEBHOOK;
+  private readonly logger = new Logger(WebhookChannel.name);
+  private readonly signingSecret: string | null;
+
+  constructor(configService: AppConfigService) {
+    this.signingSecret = configService.webhookConfig.signingSecret;
+  }
+
+  canReach(recipient: INotificationRecipient): boolean {
+    return !!recipient.webhookUrl;
+  }
+
+  async send(
+    message: INotificationChannelMessage,
+  ): Promise<INotificationChannelResult> {
+    const { recipient, notificationIds, type, title, body, data } = message;
+    if (!recipient.webhookUrl) {
+      return { sent: false, error: 'No webhook URL set' };
+    }
+    if (!(await isPublicWebhookUrl(recipient.webhookUrl))) {
+      return {
+        sent: false,
+        error: 'Webhook URL does not resolve to a public address',
+      };
+    }
+
+    const payload = JSON.stringify({
+      notificationIds,
+      type,
+      recipientUid: recipient.uid,
+      title,
+      body,
+      data,
+      sentAt: new Date().toISOString(),
+    });
+
+    try {
+      await axios.post(recipient.webhookUrl, payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.signingSecret && {
+            [ALERT_CHANNELS.WEBHOOK_SIGNATURE_HEADER]: `sha256=${createHmac(
+              'sha256',
+              this.signingSecret,
+            )
+              .update(payload)
+              .digest('hex')}`,
+          }),
+        },
+        timeout: ALERT_CHANNELS.WEBHOOK_TIMEOUT_MS,
+        maxRedirects: 0,
+      });
+
+      this.logger.log(`✅ Webhook delivered for ${recipient.uid}`);
+      return { sent: true };
+    } catch (error) {
+      // Client errors won't change on retry, rate limits and outages may
+      const status = axios.isAxiosError(error)
+        ? error.response?.status
+        : undefined;
+      return {
+        sent: false,
+        error: status
+          ? `Webhook responded with ${status}`
+          : (error as Error).message,
+        retryable: !status || status >= 500 || status === 429,
+      };
+    }
+  }
+}
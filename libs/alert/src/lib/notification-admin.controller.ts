@@ -0,0 +1,96 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
+import { NotificationRetentionService } from './notification-retention.service';
+import { NotificationBroadcastService } from './notification-broadcast.service';
+import { CurrentUser, Roles } from '@bringup/auth';
+import {
+  type FirebaseUser,
+  IBroadcastResponse,
+  IRetentionRunResponse,
+  SendSystemAlertDto,
+  UserRole,
+  ALERT_BROADCAST,
+  ALERT_RETENTION,
+} from '@bringup/shared';
+
+/**
+ * Controller for notification maintenance and system alerts
+ * Admin only; support staff may read run and broadcast history
+ */
+@Controller('admin/notifications')
+@Roles(UserRole.ADMIN)
+export class NotificationAdminController {
+  constructor(
+    private readonly retentionService: NotificationRetentionService,
+    private readonly broadcastService: NotificationBroadcastService,
+  ) {}
+
+  /**
+   * Get the most recent notification retention runs, newest first
+   * @param limit - Maximum number of runs to return (default: 20)
+   */
+  @Get('retention-runs')
+  @Roles(UserRole.ADMIN, UserRole.SUPPORT)
+  async getRetentionRuns(
+    @Query(
+      'limit',
+      new DefaultValuePipe(ALERT_RETENTION.RUN_HISTORY_LIMIT),
+      ParseIntPipe,
+    )
+    limit: number,
+  ): Promise<IRetentionRunResponse[]> {
+    return this.retentionService.getRecentRuns(limit);
+  }
+
+  /**
+   * Broadcast a system alert to all active users, listed users or users
+   * matching a filter; sending continues in the background
+   * @param user - Current authenticated user
+   * @param dto - Alert copy and recipients
+   */
+  @Post('broadcasts')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createBroadcast(
+    @CurrentUser() user: FirebaseUser,
+    @Body() dto: SendSystemAlertDto,
+  ): Promise<IBroadcastResponse> {
+    return this.broadcastService.createBroadcast(user.uid, dto);
+  }
+
+  /**
+   * Get the most recent broadcasts, newest first
+   * @param limit - Maximum number of broadcasts to return (default: 20)
+   */
+  @Get('broadcasts')
+  @Roles(UserRole.ADMIN, UserRole.SUPPORT)
+  async getBroadcasts(
+    @Query(
+      'limit',
+      new DefaultValuePipe(ALERT_BROADCAST.HISTORY_LIMIT),
+      ParseIntPipe,
+    )
+    limit: number,
+  ): Promise<IBroadcastResponse[]> {
+    return this.broadcastService.getRecentBroadcasts(limit);
+  }
+
+  /**
+   * Get a broadcast and its progress
+   * @param id - Broadcast ID
+   */
+  @Get('broadcasts/:id')
+  @Roles(UserRole.ADMIN, UserRole.SUPPORT)
+  async getBroadcast(@Param('id') id: string): Promise<IBroadcastResponse> {
+    return this.broadcastService.getBroadcast(id);
+  }
+}
@@ -0,0 +1,317 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import * as admin from 'firebase-admin';
+import {
+  ALERT_BROADCAST,
+  ALERT_COLLECTIONS,
+  ALERT_ERROR_CODES,
+  ALERT_ERROR_MESSAGES,
+  AUTH_COLLECTIONS,
+  BroadcastStatus,
+  BroadcastTarget,
+  FIRESTORE_TOKEN,
+  FirebaseUser,
+  IBroadcastDocument,
+  IBroadcastFilter,
+  IBroadcastResponse,
+  ResumableJob,
+  ResumableJobPage,
+  SendSystemAlertDto,
+} from '@bringup/shared';
+import { ResumableJobService } from '@bringup/database';
+import { AlertService } from './alert.service';
+import { NotificationTemplateService } from './notification-template.service';
+
+/**
+ * Notification Broadcast Service
+ * Sends system alerts to many users a page at a time, recording progress
+ * on the broadcast so an interrupted one resumes where it stopped
+ */
+@Injectable()
+export class NotificationBroadcastService {
+  private readonly logger = new Logger(NotificationBroadcastService.name);
+
+  /**
+   * Pending broadcasts as resumable jobs, a page of users at a time
+   * A failed page fails the broadcast, so no user is sent it twice
+   */
+  private readonly broadcastJob: ResumableJob<IBroadcastDocument> = {
+    name: 'Broadcast',
+    collection: ALERT_COLLECTIONS.BROADCASTS,
+    orderBy: 'createdAt',
+    statuses: BroadcastStatus,
+    lockName: ALERT_BROADCAST.LOCK_NAME,
+    lockTtlMs: ALERT_BROADCAST.LOCK_TTL_MS,
+    maxRunMs: ALERT_BROADCAST.MAX_RUN_MS,
+    runPage: (id, broadcast) => this.sendPage(id, broadcast),
+    onError: () => ({ update: {}, failed: true }),
+  };
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    private readonly alertService: AlertService,
+    private readonly templateService: NotificationTemplateService,
+    private readonly jobService: ResumableJobService,
+  ) {}
+
+  /**
+   * Scheduled entry point, only one instance sends broadcasts at a time
+   */
+  @Interval(ALERT_BROADCAST.INTERVAL_MS)
+  async handleBroadcasts(): Promise<void> {
+    await this.jobService.run(this.broadcastJob);
+  }
+
+  /**
+   * Store a broadcast and start sending it
+   */
+  async createBroadcast(
+    senderUid: string,
+    dto: SendSystemAlertDto,
+  ): Promise<IBroadcastResponse> {
+    const uids =
+      dto.target === BroadcastTarget.UIDS
+        ? Array.from(new Set(dto.uids))
+        : null;
+    const filter: IBroadcastFilter | null =
+      dto.target === BroadcastTarget.FILTER
+        ? {
+            locales: dto.filter?.locales ?? null,
+            lastLoginAfter: dto.filter?.lastLoginAfter
+              ? admin.firestore.Timestamp.fromDate(
+                  new Date(dto.filter.lastLoginAfter),
+                )
+              : null,
+          }
+        : null;
+
+    let total: number | null = uids?.length ?? null;
+    if (dto.target === BroadcastTarget.ALL) {
+      const count = await this.getActiveUsersQuery().count().get();
+      total = count.data().count;
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const broadcast: IBroadcastDocument = {
+      senderUid,
+      title: dto.title,
+      body: dto.body,
+      target: dto.target,
+      uids,
+      filter,
+      status: BroadcastStatus.PENDING,
+      total,
+      progress: {
+        processed: 0,
+        sent: 0,
+        failed: 0,
+        suppressed: 0,
+        skipped: 0,
+      },
+      cursor: null,
+      error: null,
+      createdAt: now,
+      startedAt: null,
+      updatedAt: now,
+      finishedAt: null,
+    };
+
+    const ref = await this.firestore
+      .collection(ALERT_COLLECTIONS.BROADCASTS)
+      .add(broadcast);
+    this.logger.log(
+      `📢 Broadcast ${ref.id} created by ${senderUid} (${dto.target})`,
+    );
+
+    this.jobService.start(this.broadcastJob);
+
+    return this.toResponse(ref.id, broadcast);
+  }
+
+  /**
+   * Get a broadcast and its progress
+   */
+  async getBroadcast(broadcastId: string): Promise<IBroadcastResponse> {
+    const doc = await this.firestore
+      .collection(ALERT_COLLECTIONS.BROADCASTS)
+      .doc(broadcastId)
+      .get();
+
+    if (!doc.exists) {
+      throw new NotFoundException({
+        message: ALERT_ERROR_MESSAGES.BROADCAST_NOT_FOUND,
+        code: ALERT_ERROR_CODES.BROADCAST_NOT_FOUND,
+      });
+    }
+
+    return this.toResponse(doc.id, doc.data() as IBroadcastDocument);
+  }
+
+  /**
+   * Most recent broadcasts, newest first
+   */
+  async getRecentBroadcasts(
+    limit: number = ALERT_BROADCAST.HISTORY_LIMIT,
+  ): Promise<IBroadcastResponse[]> {
+    const snapshot = await this.firestore
+      .collection(ALERT_COLLECTIONS.BROADCASTS)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) =>
+      this.toResponse(doc.id, doc.data() as IBroadcastDocument),
+    );
+  }
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * Send a broadcast to the next page of users
+   */
+  private async sendPage(
+    broadcastId: string,
+    broadcast: IBroadcastDocument,
+  ): Promise<ResumableJobPage<IBroadcastDocument>> {
+    const page = await this.getNextPage(broadcast, broadcast.cursor);
+    const recipients = page.docs
+      .filter((user) => this.matchesFilter(user, broadcast.filter))
+      .map((user) => ({ ...(user.data() as FirebaseUser), uid: user.id }));
+
+    const progress = await this.alertService.sendSystemAlerts({
+      broadcastId,
+      senderUid: broadcast.senderUid,
+      title: broadcast.title,
+      body: broadcast.body,
+      recipients,
+    });
+    // Users read but not targeted count as skipped
+    const untargeted = page.missing + page.docs.length - recipients.length;
+    progress.processed += untargeted;
+    progress.skipped += untargeted;
+
+    return { state: { cursor: page.cursor }, progress, done: page.done };
+  }
+
+  /**
+   * Next page of active users after the cursor
+   * Listed users who are missing or inactive are counted as missing
+   */
+  private async getNextPage(
+    broadcast: IBroadcastDocument,
+    cursor: string | null,
+  ): Promise<{
+    docs: admin.firestore.DocumentSnapshot[];
+    missing: number;
+    cursor: string | null;
+    done: boolean;
+  }> {
+    if (broadcast.target === BroadcastTarget.UIDS) {
+      const uids = broadcast.uids ?? [];
+      const start = cursor ? uids.indexOf(cursor) + 1 : 0;
+      const pageUids = uids.slice(start, start + ALERT_BROADCAST.BATCH_SIZE);
+      const docs =
+        pageUids.length > 0
+          ? await this.firestore.getAll(
+              ...pageUids.map((uid) =>
+                this.firestore.collection(AUTH_COLLECTIONS.USERS).doc(uid),
+              ),
+            )
+          : [];
+      const activeDocs = docs.filter(
+        (doc) => doc.exists && doc.get('isActive') === true,
+      );
+
+      return {
+        docs: activeDocs,
+        missing: docs.length - activeDocs.length,
+        cursor: pageUids[pageUids.length - 1] ?? cursor,
+        done: start + ALERT_BROADCAST.BATCH_SIZE >= uids.length,
+      };
+    }
+
+    let query = this.getActiveUsersQuery()
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(ALERT_BROADCAST.BATCH_SIZE);
+    if (cursor) {
+      query = query.startAfter(cursor);
+    }
+
+    const snapshot = await query.get();
+    return {
+      docs: snapshot.docs,
+      missing: 0,
+      cursor: snapshot.docs[snapshot.docs.length - 1]?.id ?? cursor,
+      done: snapshot.size < ALERT_BROADCAST.BATCH_SIZE,
+    };
+  }
+
+  private getActiveUsersQuery(): admin.firestore.Query {
+    return this.firestore
+      .collection(AUTH_COLLECTIONS.USERS)
+      .where('isActive', '==', true);
+  }
+
+  /**
+   * Whether a user matches a filtered broadcast
+   */
+  private matchesFilter(
+    user: admin.firestore.DocumentSnapshot,
+    filter: IBroadcastFilter | null,
+  ): boolean {
+    if (!filter) {
+      return true;
+    }
+
+    const locale = this.templateService.resolveLocale(user.get('locale'));
+    if (filter.locales && !filter.locales.includes(locale)) {
+      return false;
+    }
+
+    const lastLoginAt = user.get('lastLoginAt') as
+      | admin.firestore.Timestamp
+      | null
+      | undefined;
+    if (
+      filter.lastLoginAfter &&
+      (!lastLoginAt ||
+        lastLoginAt.toMillis() < filter.lastLoginAfter.toMillis())
+    ) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Convert a stored broadcast to its API shape
+   */
+  private toResponse(
+    id: string,
+    broadcast: IBroadcastDocument,
+  ): IBroadcastResponse {
+    return {
+      id,
+      senderUid: broadcast.senderUid,
+      title: broadcast.title,
+      body: broadcast.body,
+      target: broadcast.target,
+      uids: broadcast.uids,
+      filter: broadcast.filter && {
+        locales: broadcast.filter.locales,
+        lastLoginAfter:
+          broadcast.filter.lastLoginAfter?.toDate().toISOString() ?? null,
+      },
+      status: broadcast.status,
+      total: broadcast.total,
+      progress: broadcast.progress,
+      error: broadcast.error,
+      createdAt: broadcast.createdAt.toDate().toISOString(),
+      startedAt: broadcast.startedAt?.toDate().toISOString() ?? null,
+      finishedAt: broadcast.finishedAt?.toDate().toISOString() ?? null,
+    };
+  }
+}
@@ -0,0 +1,116 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import * as admin from 'firebase-admin';
+import {
+  ALERT_COLLECTIONS,
+  ALERT_DIGEST,
+  FIRESTORE_TOKEN,
+  INotificationDocument,
+  NotificationStatus,
+} from '@bringup/shared';
+import { DistributedLockService } from '@bringup/database';
+import { AlertService } from './alert.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+
+/**
+ * Notification Digest Service
+ * Periodically combines each user's queued notifications into one push
+ * once their digest is due
+ */
+@Injectable()
+export class NotificationDigestService {
+  private readonly logger = new Logger(NotificationDigestService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    private readonly alertService: AlertService,
+    private readonly preferencesService: NotificationPreferencesService,
+    private readonly lockService: DistributedLockService,
+  ) {}
+
+  /**
+   * Scheduled entry point, only one instance sends digests at a time
+   */
+  @Interval(ALERT_DIGEST.INTERVAL_MS)
+  async handleDigests(): Promise<void> {
+    try {
+      await this.lockService.runExclusive(
+        ALERT_DIGEST.LOCK_NAME,
+        ALERT_DIGEST.LOCK_TTL_MS,
+        () => this.sendDueDigests(),
+      );
+    } catch (error) {
+      this.logger.error('Notification digest run failed:', error);
+    }
+  }
+
+  /**
+   * Send digests for one page of queued notifications that are due
+   * Returns the number of notifications sent
+   */
+  async sendDueDigests(): Promise<number> {
+    const snapshot = await this.firestore
+      .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
+      .where('status', '==', NotificationStatus.QUEUED)
+      .where('digestAt', '<=', admin.firestore.Timestamp.now())
+      .orderBy('digestAt', 'asc')
+      .limit(ALERT_DIGEST.BATCH_SIZE)
+      .get();
+
+    if (snapshot.empty) {
+      return 0;
+    }
+
+    const docsByRecipient = new Map<
+      string,
+      admin.firestore.QueryDocumentSnapshot[]
+    >();
+    for (const doc of snapshot.docs) {
+      const { recipientUid } = doc.data() as INotificationDocument;
+      const docs = docsByRecipient.get(recipientUid) ?? [];
+      docs.push(doc);
+      docsByRecipient.set(recipientUid, docs);
+    }
+
+    let sentCount = 0;
+    for (const [recipientUid, docs] of docsByRecipient) {
+      try {
+        if (await this.preferencesService.isQuietTime(recipientUid)) {
+          await this.postpone(docs);
+          continue;
+        }
+        sentCount += await this.alertService.sendDigest(recipientUid, docs);
+      } catch (error) {
+        this.logger.warn(`Failed to send digest to ${recipientUid}:`, error);
+      }
+    }
+
+    this.logger.log(
+      `🗂️ Sent ${docsByRecipient.size} digests covering ${sentCount} notifications`,
+    );
+
+    return sentCount;
+  }
+
+  /**
+   * Check a digest that fell in quiet hours again later
+   * Moves it out of the way of other users' due digests meanwhile
+   */
+  private async postpone(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+  ): Promise<void> {
+    const digestAt = admin.firestore.Timestamp.fromMillis(
+      Date.now() + ALERT_DIGEST.QUIET_HOURS_DELAY_MS,
+    );
+
+    const writer = this.firestore.bulkWriter();
+    for (const doc of docs) {
+      // Skip notifications read in the meantime
+      writer
+        .update(doc.ref, { digestAt }, { lastUpdateTime: doc.updateTime })
+        .catch(() => undefined);
+    }
+    await writer.close();
+  }
+}
@@ -0,0 +1,248 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import * as admin from 'firebase-admin';
+import {
+  ALERT_COLLECTIONS,
+  ALERT_ERROR_CODES,
+  ALERT_ERROR_MESSAGES,
+  ALERT_PREFERENCES,
+  ALERT_SUPPRESSION_REASONS,
+  FIRESTORE_TOKEN,
+  INotificationPreferences,
+  INotificationPreferencesDocument,
+  INotificationPreferencesResponse,
+  INotificationDeliveryPlan,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationPriority,
+  NotificationType,
+  UpdateNotificationPreferencesDto,
+} from '@bringup/shared';
+import {
+  isWithinQuietHours,
+  nextHourStart,
+  nextTimeOfDay,
+} from './notification-preferences.util';
+import { isPublicWebhookUrl } from './channels/webhook-url.util';
+
+/**
+ * Service for per-user notification preferences
+ * Decides which channels a notification goes out over, and when
+ */
+@Injectable()
+export class NotificationPreferencesService {
+  private readonly logger = new Logger(NotificationPreferencesService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+  ) {}
+
+  /**
+   * Get a user's preferences, with defaults when none are saved
+   */
+  async getPreferences(uid: string): Promise<INotificationPreferencesResponse> {
+    const snap = await this.getPreferencesRef(uid).get();
+    const data = snap.data() as INotificationPreferencesDocument | undefined;
+
+    return {
+      ...this.withDefaults(data),
+      updatedAt: data?.updatedAt?.toDate().toISOString() ?? null,
+    };
+  }
+
+  /**
+   * Replace the preference fields that were sent
+   */
+  async updatePreferences(
+    uid: string,
+    dto: UpdateNotificationPreferencesDto,
+  ): Promise<INotificationPreferencesResponse> {
+    const update: Record<string, unknown> = {
+      updatedAt: admin.firestore.Timestamp.now(),
+    };
+
+    // DTOs are class instances, Firestore only stores plain objects
+    if (dto.types) {
+      const preferenceByType = new Map(
+        dto.types.map((preference) => [preference.type, preference]),
+      );
+      update['types'] = Array.from(
+        preferenceByType.values(),
+        ({ type, push, email, webhook, delivery }) => ({
+          type,
+          push,
+          email: email ?? false,
+          webhook: webhook ?? false,
+          delivery: delivery ?? NotificationDelivery.IMMEDIATE,
+        }),
+      );
+    }
+    if (dto.timeZone) {
+      update['timeZone'] = dto.timeZone;
+    }
+    if (dto.quietHours) {
+      update['quietHours'] = dto.quietHours.map(({ start, end }) => ({
+        start,
+        end,
+      }));
+    }
+    if (dto.mutedTaskIds) {
+      update['mutedTaskIds'] = Array.from(new Set(dto.mutedTaskIds));
+    }
+    if (dto.dailyDigestTime) {
+      update['dailyDigestTime'] = dto.dailyDigestTime;
+    }
+    if (dto.webhookUrl !== undefined) {
+      if (dto.webhookUrl && !(await isPublicWebhookUrl(dto.webhookUrl))) {
+        throw new BadRequestException({
+          message: ALERT_ERROR_MESSAGES.WEBHOOK_URL_NOT_PUBLIC,
+          code: ALERT_ERROR_CODES.WEBHOOK_URL_NOT_PUBLIC,
+        });
+      }
+      update['webhookUrl'] = dto.webhookUrl;
+    }
+
+    await this.getPreferencesRef(uid).set(update, { merge: true });
+    this.logger.log(`Notification preferences updated for ${uid}`);
+
+    return this.getPreferences(uid);
+  }
+
+  /**
+   * Decide which channels a notification goes out over now, and whether its
+   * push waits for a digest
+   * Digests and quiet hours only hold back the push; high priority pushes
+   * skip the digest but still respect quiet hours
+   */
+  async planDelivery(
+    uid: string,
+    type: NotificationType,
+    taskId: string,
+    priority: NotificationPriority,
+    now: Date = new Date(),
+  ): Promise<INotificationDeliveryPlan> {
+    const snap = await this.getPreferencesRef(uid).get();
+    if (!snap.exists) {
+      return {
+        channels: [NotificationChannel.PUSH],
+        suppressedReason: null,
+        digestAt: null,
+        webhookUrl: null,
+      };
+    }
+
+    const preferences = this.withDefaults(
+      snap.data() as INotificationPreferencesDocument,
+    );
+    const typePreference = preferences.types.find(
+      (preference) => preference.type === type,
+    );
+    const plan: INotificationDeliveryPlan = {
+      channels: [],
+      suppressedReason: null,
+      digestAt: null,
+      webhookUrl: preferences.webhookUrl,
+    };
+
+    if (preferences.mutedTaskIds.includes(taskId)) {
+      return {
+        ...plan,
+        suppressedReason: ALERT_SUPPRESSION_REASONS.TASK_MUTED,
+      };
+    }
+
+    if (typePreference?.email) {
+      plan.channels.push(NotificationChannel.EMAIL);
+    }
+    if (typePreference?.webhook && preferences.webhookUrl) {
+      plan.channels.push(NotificationChannel.WEBHOOK);
+    }
+
+    // Digests are checked against quiet hours when they go out
+    let quiet = false;
+    if (typePreference?.push ?? true) {
+      const delivery =
+        priority === NotificationPriority.HIGH
+          ? NotificationDelivery.IMMEDIATE
+          : typePreference?.delivery;
+
+      if (delivery === NotificationDelivery.HOURLY) {
+        plan.digestAt = nextHourStart(now);
+      } else if (delivery === NotificationDelivery.DAILY) {
+        plan.digestAt = nextTimeOfDay(
+          now,
+          preferences.dailyDigestTime,
+          preferences.timeZone,
+        );
+      } else if (
+        isWithinQuietHours(preferences.quietHours, preferences.timeZone, now)
+      ) {
+        quiet = true;
+      } else {
+        plan.channels.push(NotificationChannel.PUSH);
+      }
+    }
+
+    if (plan.channels.length === 0 && !plan.digestAt) {
+      plan.suppressedReason = quiet
+        ? ALERT_SUPPRESSION_REASONS.QUIET_HOURS
+        : ALERT_SUPPRESSION_REASONS.TYPE_DISABLED;
+    }
+
+    return plan;
+  }
+
+  /**
+   * Whether the user is in quiet hours right now
+   */
+  async isQuietTime(uid: string, now: Date = new Date()): Promise<boolean> {
+    const snap = await this.getPreferencesRef(uid).get();
+    if (!snap.exists) {
+      return false;
+    }
+
+    const preferences = this.withDefaults(
+      snap.data() as INotificationPreferencesDocument,
+    );
+    return isWithinQuietHours(
+      preferences.quietHours,
+      preferences.timeZone,
+      now,
+    );
+  }
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  private getPreferencesRef(uid: string): admin.firestore.DocumentReference {
+    return this.firestore.collection(ALERT_COLLECTIONS.PREFERENCES).doc(uid);
+  }
+
+  /**
+   * Fill in fields missing from a stored document
+   */
+  private withDefaults(
+    data: Partial<INotificationPreferences> | undefined,
+  ): INotificationPreferences {
+    return {
+      types: (data?.types ?? []).map((preference) => ({
+        ...preference,
+        email: preference.email ?? false,
+        webhook: preference.webhook ?? false,
+        delivery: preference.delivery ?? NotificationDelivery.IMMEDIATE,
+      })),
+      timeZone: data?.timeZone ?? ALERT_PREFERENCES.DEFAULT_TIME_ZONE,
+      quietHours: data?.quietHours ?? [],
+      mutedTaskIds: data?.mutedTaskIds ?? [],
+      dailyDigestTime:
+        data?.dailyDigestTime ?? ALERT_PREFERENCES.DEFAULT_DAILY_DIGEST_TIME,
+      webhookUrl: data?.webhookUrl ?? null,
+    };
+  }
+}
@@ -0,0 +1,77 @@
+import { IQuietHoursWindow } from '@bringup/shared';
+
+/**
+ * Minutes since local midnight of an instant in a time zone
+ */
+export function toLocalMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return get('hour') * 60 + get('minute');
+}
+
+/**
+ * Parse an HH:mm time into minutes since midnight
+ */
+function parseTimeOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether an instant falls inside any quiet hours window
+ * A window with equal start and end is empty
+ */
+export function isWithinQuietHours(
+  windows: IQuietHoursWindow[],
+  timeZone: string,
+  instant: Date,
+): boolean {
+  if (windows.length === 0) {
+    return false;
+  }
+
+  const now = toLocalMinutes(instant, timeZone);
+
+  return windows.some((window) => {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+
+    return start <= end ? now >= start && now < end : now >= start || now < end;
+  });
+}
+
+/**
+ * Start of the hour after an instant
+ */
+export function nextHourStart(instant: Date): Date {
+  const hourMs = 60 * 60 * 1000;
+  return new Date((Math.floor(instant.getTime() / hourMs) + 1) * hourMs);
+}
+
+/**
+ * Next time a local time of day comes around in a time zone
+ * A daylight saving change before then shifts it by the change
+ */
+export function nextTimeOfDay(
+  instant: Date,
+  timeOfDay: string,
+  timeZone: string,
+): Date {
+  const minuteMs = 60 * 1000;
+  const dayMinutes = 24 * 60;
+  const wait =
+    (parseTimeOfDay(timeOfDay) -
+      toLocalMinutes(instant, timeZone) +
+      dayMinutes) %
+      dayMinutes || dayMinutes;
+
+  return new Date((Math.floor(instant.getTime() / minuteMs) + wait) * minuteMs);
+}
@@ -0,0 +1,132 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import * as admin from 'firebase-admin';
+import {
+  ALERT_COLLECTIONS,
+  ALERT_RETENTION,
+  ALERT_RETENTION_DAYS,
+  FIRESTORE_TOKEN,
+  IRetentionRunDocument,
+  IRetentionRunResponse,
+  RetentionRunStatus,
+} from '@bringup/shared';
+import { DistributedLockService } from '@bringup/database';
+import { AlertService } from './alert.service';
+
+/**
+ * Notification Retention Service
+ * Periodically deletes notifications older than their type's retention and
+ * records each run so operators can check what was removed
+ */
+@Injectable()
+export class NotificationRetentionService {
+  private readonly logger = new Logger(NotificationRetentionService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    private readonly alertService: AlertService,
+    private readonly lockService: DistributedLockService,
+  ) {}
+
+  /**
+   * Scheduled entry point, only one instance cleans up at a time
+   */
+  @Interval(ALERT_RETENTION.INTERVAL_MS)
+  async handleRetention(): Promise<void> {
+    try {
+      await this.lockService.runExclusive(
+        ALERT_RETENTION.LOCK_NAME,
+        ALERT_RETENTION.LOCK_TTL_MS,
+        () => this.runRetention(),
+      );
+    } catch (error) {
+      this.logger.error('Notification retention run failed:', error);
+    }
+  }
+
+  /**
+   * Delete expired notifications, recording the run and its counts
+   * The run is stored as running first so an interrupted run stays visible
+   */
+  async runRetention(): Promise<IRetentionRunResponse> {
+    const startedAt = admin.firestore.Timestamp.now();
+    const runRef = this.firestore
+      .collection(ALERT_COLLECTIONS.RETENTION_RUNS)
+      .doc();
+
+    const run: IRetentionRunDocument = {
+      status: RetentionRunStatus.RUNNING,
+      retentionDays: ALERT_RETENTION_DAYS,
+      deletedCount: 0,
+      deletedByType: {},
+      startedAt,
+      finishedAt: null,
+      durationMs: null,
+      error: null,
+    };
+    await runRef.set(run);
+
+    try {
+      const { deletedCount, deletedByType } =
+        await this.alertService.deleteOldNotifications(ALERT_RETENTION_DAYS);
+      Object.assign(run, {
+        status: RetentionRunStatus.COMPLETED,
+        deletedCount,
+        deletedByType,
+      });
+    } catch (error) {
+      Object.assign(run, {
+        status: RetentionRunStatus.FAILED,
+        error: (error as Error).message,
+      });
+      this.logger.error(`Retention run ${runRef.id} failed:`, error);
+    }
+
+    const finishedAt = admin.firestore.Timestamp.now();
+    Object.assign(run, {
+      finishedAt,
+      durationMs: finishedAt.toMillis() - startedAt.toMillis(),
+    });
+    await runRef.set(run);
+
+    return this.toResponse(runRef.id, run);
+  }
+
+  /**
+   * Most recent retention runs, newest first
+   */
+  async getRecentRuns(
+    limit: number = ALERT_RETENTION.RUN_HISTORY_LIMIT,
+  ): Promise<IRetentionRunResponse[]> {
+    const snapshot = await this.firestore
+      .collection(ALERT_COLLECTIONS.RETENTION_RUNS)
+      .orderBy('startedAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return snapshot.docs.map((doc) =>
+      this.toResponse(doc.id, doc.data() as IRetentionRunDocument),
+    );
+  }
+
+  /**
+   * Convert a stored run to its API shape
+   */
+  private toResponse(
+    id: string,
+    run: IRetentionRunDocument,
+  ): IRetentionRunResponse {
+    return {
+      id,
+      status: run.status,
+      retentionDays: run.retentionDays,
+      deletedCount: run.deletedCount,
+      deletedByType: run.deletedByType,
+      startedAt: run.startedAt.toDate().toISOString(),
+      finishedAt: run.finishedAt?.toDate().toISOString() ?? null,
+      durationMs: run.durationMs,
+      error: run.error,
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ALERT_DIGEST,
+  ALERT_TEMPLATES,
+  INotificationDocument,
+  IRenderedNotification,
+  NotificationLocale,
+  NotificationMessage,
+  NotificationTemplateVariables,
+  NotificationType,
+  TaskReaction,
+} from '@bringup/shared';
+import { NOTIFICATION_TEMPLATES } from './templates';
+
+/**
+ * Service rendering notification copy in the recipient's locale
+ * Missing copy falls back to English
+ */
+@Injectable()
+export class NotificationTemplateService {
+  private readonly logger = new Logger(NotificationTemplateService.name);
+
+  /**
+   * Supported locale closest to a user's locale
+   * Regional locales such as es-MX use their language's copy
+   */
+  resolveLocale(locale?: string | null): NotificationLocale {
+    const supported: string[] = Object.values(NotificationLocale);
+    const normalized = locale?.toLowerCase() ?? '';
+    const [language] = normalized.split(/[-_]/);
+
+    if (supported.includes(normalized)) {
+      return normalized as NotificationLocale;
+    }
+    if (supported.includes(language)) {
+      return language as NotificationLocale;
+    }
+    return ALERT_TEMPLATES.DEFAULT_LOCALE;
+  }
+
+  /**
+   * Render the title and body of a notification type
+   * A `reaction` variable holding a TaskReaction is shown as its label
+   */
+  render(
+    locale: NotificationLocale,
+    type: NotificationType,
+    variables: NotificationTemplateVariables,
+    variant: string = ALERT_TEMPLATES.DEFAULT_VARIANT,
+  ): IRenderedNotification {
+    const template =
+      NOTIFICATION_TEMPLATES[locale].templates[type][variant] ??
+      NOTIFICATION_TEMPLATES[ALERT_TEMPLATES.DEFAULT_LOCALE].templates[type][
+        variant
+      ];
+    if (!template) {
+      throw new Error(`No template for ${type} variant "${variant}"`);
+    }
+
+    const reaction = variables['reaction'] as TaskReaction | undefined;
+    const localized = reaction
+      ? {
+          ...variables,
+          reaction:
+            NOTIFICATION_TEMPLATES[locale].reactions[reaction] ??
+            reaction.replace(/_/g, ' '),
+        }
+      : variables;
+
+    return {
+      title: this.format(locale, template.title, localized),
+      body: this.format(locale, template.body, localized),
+    };
+  }
+
+  /**
+   * Digest title and a short body counting the most frequent types
+   */
+  renderDigest(
+    locale: NotificationLocale,
+    notifications: Pick<INotificationDocument, 'type'>[],
+  ): IRenderedNotification {
+    const bundle = NOTIFICATION_TEMPLATES[locale];
+
+    const counts = new Map<NotificationType, number>();
+    for (const notification of notifications) {
+      counts.set(notification.type, (counts.get(notification.type) ?? 0) + 1);
+    }
+
+    const sorted = Array.from(counts).sort((a, b) => b[1] - a[1]);
+    const parts = sorted
+      .slice(0, ALERT_DIGEST.SUMMARY_TYPE_COUNT)
+      .map(([type, count]) =>
+        this.format(locale, bundle.digestLabels[type], { count }),
+      );
+
+    const otherCount = sorted
+      .slice(ALERT_DIGEST.SUMMARY_TYPE_COUNT)
+      .reduce((total, [, count]) => total + count, 0);
+    if (otherCount > 0) {
+      parts.push(this.format(locale, bundle.digestMore, { count: otherCount }));
+    }
+
+    return {
+      title: this.format(locale, bundle.digestTitle, {
+        count: notifications.length,
+      }),
+      body: new Intl.ListFormat(locale, { type: 'conjunction' }).format(parts),
+    };
+  }
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * Pick the plural form for `count` and fill in the placeholders
+   */
+  private format(
+    locale: NotificationLocale,
+    message: NotificationMessage,
+    variables: NotificationTemplateVariables,
+  ): string {
+    let text: string;
+    if (typeof message === 'string') {
+      text = message;
+    } else {
+      const category = new Intl.PluralRules(locale).select(
+        Number(variables['count'] ?? 0),
+      );
+      text = message[category] ?? message.other;
+    }
+
+    return text.replace(/\{(\w+)\}/g, (_, name: string) => {
+      const value = variables[name];
+      if (value === undefined) {
+        this.logger.warn(`Missing template variable "${name}" (${locale})`);
+        return '';
+      }
+      return String(value);
+    });
+  }
+}
@@ -0,0 +1,158 @@
+import { Test } from '@nestjs/testing';
+import type { ExpoPushReceipt } from 'expo-server-sdk';
+import {
+  ALERT_PUSH_RECEIPTS,
+  EXPO_CLIENT_TOKEN,
+  FIRESTORE_TOKEN,
+  NotificationStatus,
+} from '@bringup/shared';
+import { DistributedLockService } from '@bringup/database';
+import { AlertService } from './alert.service';
+import { PushReceiptService } from './push-receipt.service';
+
+/**
+ * Expo client that answers receipt requests from a fixed set of receipts
+ */
+class FakeExpoClient {
+  constructor(private readonly receipts: Record<string, ExpoPushReceipt>) {}
+
+  chunkPushNotificationReceiptIds(ids: string[]): string[][] {
+    return ids.length > 0 ? [ids] : [];
+  }
+
+  async getPushNotificationReceiptsAsync(
+    ids: string[],
+  ): Promise<Record<string, ExpoPushReceipt>> {
+    return Object.fromEntries(
+      ids
+        .filter((id) => this.receipts[id])
+        .map((id) => [id, this.receipts[id]]),
+    );
+  }
+}
+
+/**
+ * Firestore holding a single page of sent notifications, recording the
+ * updates written to them
+ */
+function createFakeFirestore(notifications: Record<string, unknown>[]) {
+  const updates = new Map<string, Record<string, unknown>>();
+  const docs = notifications.map((data, index) => {
+    const id = `notification-${index}`;
+    return { id, ref: { id }, updateTime: null, data: () => data };
+  });
+
+  const query = {
+    where: () => query,
+    orderBy: () => query,
+    limit: () => query,
+    startAfter: () => query,
+    get: async () => ({ empty: docs.length === 0, size: docs.length, docs }),
+  };
+
+  const firestore = {
+    collection: () => query,
+    bulkWriter: () => ({
+      update: async (ref: { id: string }, update: Record<string, unknown>) => {
+        updates.set(ref.id, update);
+      },
+      close: async () => undefined,
+    }),
+  };
+
+  return { firestore, updates };
+}
+
+function sentNotification(ticketId: string, pushToken: string) {
+  return {
+    recipientUid: 'user-1',
+    status: NotificationStatus.SENT,
+    pushTickets: [{ ticketId, pushToken }],
+    channels: { push: { status: NotificationStatus.SENT } },
+  };
+}
+
+describe('PushReceiptService', () => {
+  let clearPushTokens: jest.Mock;
+
+  async function createService(
+    notifications: Record<string, unknown>[],
+    receipts: Record<string, ExpoPushReceipt>,
+  ) {
+    const { firestore, updates } = createFakeFirestore(notifications);
+    clearPushTokens = jest.fn().mockResolvedValue(undefined);
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        PushReceiptService,
+        { provide: FIRESTORE_TOKEN, useValue: firestore },
+        { provide: EXPO_CLIENT_TOKEN, useValue: new FakeExpoClient(receipts) },
+        { provide: AlertService, useValue: { clearPushTokens } },
+        { provide: DistributedLockService, useValue: {} },
+      ],
+    }).compile();
+
+    return { service: moduleRef.get(PushReceiptService), updates };
+  }
+
+  it('marks a notification delivered when its receipt is ok', async () => {
+    const { service, updates } = await createService(
+      [sentNotification('ticket-1', 'ExponentPushToken[a]')],
+      { 'ticket-1': { status: 'ok' } },
+    );
+
+    await expect(service.checkReceipts()).resolves.toBe(1);
+
+    expect(updates.get('notification-0')).toMatchObject({
+      status: NotificationStatus.DELIVERED,
+      'channels.push.status': NotificationStatus.DELIVERED,
+    });
+    expect(clearPushTokens).not.toHaveBeenCalled();
+  });
+
+  it('marks a notification failed and stores the error of an error receipt', async () => {
+    const { service, updates } = await createService(
+      [sentNotification('ticket-1', 'ExponentPushToken[a]')],
+      {
+        'ticket-1': {
+          status: 'error',
+          message: 'Message rate exceeded',
+          details: { error: 'MessageRateExceeded' },
+        },
+      },
+    );
+
+    await expect(service.checkReceipts()).resolves.toBe(1);
+
+    const error = 'MessageRateExceeded: Message rate exceeded';
+    expect(updates.get('notification-0')).toEqual({
+      status: NotificationStatus.FAILED,
+      error,
+      'channels.push.status': NotificationStatus.FAILED,
+      'channels.push.error': error,
+    });
+    expect(clearPushTokens).not.toHaveBeenCalled();
+  });
+
+  it('clears the push token of a DeviceNotRegistered receipt', async () => {
+    const { service, updates } = await createService(
+      [sentNotification('ticket-1', 'ExponentPushToken[gone]')],
+      {
+        'ticket-1': {
+          status: 'error',
+          message: 'The device is no longer registered',
+          details: { error: ALERT_PUSH_RECEIPTS.DEVICE_NOT_REGISTERED },
+        },
+      },
+    );
+
+    await service.checkReceipts();
+
+    expect(updates.get('notification-0')).toMatchObject({
+      status: NotificationStatus.FAILED,
+    });
+    expect(clearPushTokens).toHaveBeenCalledWith('user-1', [
+      'ExponentPushToken[gone]',
+    ]);
+  });
+});
@@ -0,0 +1,247 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import * as admin from 'firebase-admin';
+import { Expo, ExpoPushErrorReceipt, ExpoPushReceipt } from 'expo-server-sdk';
+import {
+  ALERT_COLLECTIONS,
+  ALERT_PUSH_RECEIPTS,
+  EXPO_CLIENT_TOKEN,
+  FIRESTORE_TOKEN,
+  INotificationDocument,
+  INotificationPushTicket,
+  NotificationChannel,
+  NotificationStatus,
+} from '@bringup/shared';
+import { DistributedLockService } from '@bringup/database';
+import { AlertService } from './alert.service';
+
+/**
+ * Push Receipt Service
+ * Periodically polls Expo for receipts of sent notifications, marking them
+ * delivered or failed and clearing push tokens of uninstalled apps
+ */
+@Injectable()
+export class PushReceiptService {
+  private readonly logger = new Logger(PushReceiptService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    @Inject(EXPO_CLIENT_TOKEN)
+    private readonly expo: Expo,
+    private readonly alertService: AlertService,
+    private readonly lockService: DistributedLockService,
+  ) {}
+
+  /**
+   * Scheduled entry point, only one instance polls at a time
+   */
+  @Interval(ALERT_PUSH_RECEIPTS.INTERVAL_MS)
+  async handleReceiptPoll(): Promise<void> {
+    try {
+      await this.lockService.runExclusive(
+        ALERT_PUSH_RECEIPTS.LOCK_NAME,
+        ALERT_PUSH_RECEIPTS.LOCK_TTL_MS,
+        () => this.checkReceipts(),
+      );
+    } catch (error) {
+      this.logger.error('Push receipt poll failed:', error);
+    }
+  }
+
+  /**
+   * Check receipts for every sent notification old enough to have one
+   * Returns the number of notifications resolved
+   */
+  async checkReceipts(): Promise<number> {
+    const now = Date.now();
+    const newest = admin.firestore.Timestamp.fromMillis(
+      now - ALERT_PUSH_RECEIPTS.MIN_AGE_MS,
+    );
+    const oldest = admin.firestore.Timestamp.fromMillis(
+      now - ALERT_PUSH_RECEIPTS.MAX_AGE_MS,
+    );
+
+    let resolvedCount = 0;
+    let cursor: admin.firestore.QueryDocumentSnapshot | null = null;
+
+    for (;;) {
+      let query = this.firestore
+        .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
+        .where('status', '==', NotificationStatus.SENT)
+        .where('sentAt', '>=', oldest)
+        .where('sentAt', '<=', newest)
+        .orderBy('sentAt', 'asc')
+        .limit(ALERT_PUSH_RECEIPTS.BATCH_SIZE);
+
+      // Notifications without a receipt yet stay sent, so page past them
+      if (cursor) {
+        query = query.startAfter(cursor);
+      }
+
+      const snapshot = await query.get();
+      if (snapshot.empty) {
+        break;
+      }
+
+      resolvedCount += await this.resolveBatch(snapshot.docs);
+
+      if (snapshot.size < ALERT_PUSH_RECEIPTS.BATCH_SIZE) {
+        break;
+      }
+      cursor = snapshot.docs[snapshot.docs.length - 1];
+    }
+
+    if (resolvedCount > 0) {
+      this.logger.log(`📬 Resolved ${resolvedCount} push receipts`);
+    }
+
+    return resolvedCount;
+  }
+
+  /**
+   * Fetch receipts for a page of notifications and apply them
+   * A notification is delivered once any device's receipt is ok, and failed
+   * once every device's receipt is an error
+   */
+  private async resolveBatch(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+  ): Promise<number> {
+    const ticketsByDoc = new Map<
+      admin.firestore.QueryDocumentSnapshot,
+      INotificationPushTicket[]
+    >();
+    for (const doc of docs) {
+      const tickets = this.getTickets(doc.data() as INotificationDocument);
+      if (tickets.length > 0) {
+        ticketsByDoc.set(doc, tickets);
+      }
+    }
+
+    const ticketIds = Array.from(ticketsByDoc.values()).flatMap((tickets) =>
+      tickets.map((ticket) => ticket.ticketId),
+    );
+
+    const receipts: Record<string, ExpoPushReceipt> = {};
+    for (const chunk of this.expo.chunkPushNotificationReceiptIds(ticketIds)) {
+      try {
+        Object.assign(
+          receipts,
+          await this.expo.getPushNotificationReceiptsAsync(chunk),
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to fetch ${chunk.length} push receipts:`,
+          error,
+        );
+      }
+    }
+
+    const deadTokens = new Map<string, Set<string>>();
+    const writer = this.firestore.bulkWriter();
+    const results: Promise<boolean>[] = [];
+
+    for (const [doc, tickets] of ticketsByDoc) {
+      const data = doc.data() as INotificationDocument;
+      const errorReceipts: ExpoPushErrorReceipt[] = [];
+      let delivered = false;
+      let pendingCount = 0;
+
+      for (const ticket of tickets) {
+        const receipt = receipts[ticket.ticketId];
+        if (!receipt) {
+          pendingCount++;
+        } else if (receipt.status === 'ok') {
+          delivered = true;
+        } else {
+          errorReceipts.push(receipt);
+          if (
+            receipt.details?.error ===
+              ALERT_PUSH_RECEIPTS.DEVICE_NOT_REGISTERED &&
+            ticket.pushToken
+          ) {
+            const tokens = deadTokens.get(data.recipientUid) ?? new Set();
+            tokens.add(ticket.pushToken);
+            deadTokens.set(data.recipientUid, tokens);
+          }
+        }
+      }
+
+      let update: Record<string, unknown>;
+      if (delivered) {
+        update = {
+          status: NotificationStatus.DELIVERED,
+          deliveredAt: admin.firestore.Timestamp.now(),
+          'channels.push.status': NotificationStatus.DELIVERED,
+        };
+      } else if (pendingCount === 0) {
+        const [receipt] = errorReceipts;
+        const error = receipt.details?.error
+          ? `${receipt.details.error}: ${receipt.message}`
+          : receipt.message;
+        update = {
+          'channels.push.status': NotificationStatus.FAILED,
+          'channels.push.error': error,
+        };
+        // Still sent when another channel reached the user
+        if (!this.sentOverOtherChannel(data)) {
+          Object.assign(update, { status: NotificationStatus.FAILED, error });
+        }
+      } else {
+        // Wait for the remaining devices' receipts
+        continue;
+      }
+
+      // Skip notifications read in the meantime
+      results.push(
+        writer
+          .update(doc.ref, update, { lastUpdateTime: doc.updateTime })
+          .then(() => true)
+          .catch((error: Error) => {
+            this.logger.warn(
+              `Skipped receipt for notification ${doc.id}: ${error.message}`,
+            );
+            return false;
+          }),
+      );
+    }
+
+    await writer.close();
+    const settled = await Promise.all(results);
+
+    for (const [uid, tokens] of deadTokens) {
+      try {
+        await this.alertService.clearPushTokens(uid, Array.from(tokens));
+      } catch (error) {
+        this.logger.warn(`Failed to clear push tokens for ${uid}:`, error);
+      }
+    }
+
+    return settled.filter(Boolean).length;
+  }
+
+  /**
+   * Whether a channel other than push sent the notification
+   */
+  private sentOverOtherChannel(data: INotificationDocument): boolean {
+    return Object.entries(data.channels ?? {}).some(
+      ([channel, delivery]) =>
+        channel !== NotificationChannel.PUSH &&
+        delivery.status === NotificationStatus.SENT,
+    );
+  }
+
+  /**
+   * Tickets of a notification; those sent before device registrations
+   * only kept the ticket ID
+   */
+  private getTickets(data: INotificationDocument): INotificationPushTicket[] {
+    if (data.pushTickets) {
+      return data.pushTickets;
+    }
+    if (data.fcmMessageId && data.fcmMessageId !== 'unknown') {
+      return [{ ticketId: data.fcmMessageId, pushToken: '' }];
+    }
+    return [];
+  }
+}
@@ -0,0 +1,73 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import * as admin from 'firebase-admin';
+import {
+  ALERT_COLLECTIONS,
+  ALERT_PUSH_RETRY,
+  FIRESTORE_TOKEN,
+} from '@bringup/shared';
+import { DistributedLockService } from '@bringup/database';
+import { AlertService } from './alert.service';
+
+/**
+ * Push Retry Service
+ * Periodically resends notifications whose delivery failed with a
+ * retryable error or never finished, following each record's backoff
+ */
+@Injectable()
+export class PushRetryService {
+  private readonly logger = new Logger(PushRetryService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    private readonly alertService: AlertService,
+    private readonly lockService: DistributedLockService,
+  ) {}
+
+  /**
+   * Scheduled entry point, only one instance retries at a time
+   */
+  @Interval(ALERT_PUSH_RETRY.INTERVAL_MS)
+  async handleRetries(): Promise<void> {
+    try {
+      await this.lockService.runExclusive(
+        ALERT_PUSH_RETRY.LOCK_NAME,
+        ALERT_PUSH_RETRY.LOCK_TTL_MS,
+        () => this.retryDueNotifications(),
+      );
+    } catch (error) {
+      this.logger.error('Push retry run failed:', error);
+    }
+  }
+
+  /**
+   * Retry one page of notifications that are due
+   * Returns the number of notifications sent
+   */
+  async retryDueNotifications(): Promise<number> {
+    const snapshot = await this.firestore
+      .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
+      .where('nextRetryAt', '<=', admin.firestore.Timestamp.now())
+      .orderBy('nextRetryAt', 'asc')
+      .limit(ALERT_PUSH_RETRY.BATCH_SIZE)
+      .get();
+
+    if (snapshot.empty) {
+      return 0;
+    }
+
+    let sentCount = 0;
+    for (const doc of snapshot.docs) {
+      if (await this.alertService.retryNotification(doc)) {
+        sentCount++;
+      }
+    }
+
+    this.logger.log(
+      `🔁 Retried ${snapshot.size} notifications, ${sentCount} sent`,
+    );
+
+    return sentCount;
+  }
+}
@@ -0,0 +1,197 @@
+import { Injectable, Logger, MessageEvent } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import {
+  concat,
+  defer,
+  filter,
+  finalize,
+  from,
+  interval,
+  map,
+  merge,
+  Observable,
+  Subject,
+} from 'rxjs';
+import {
+  ALERT_REALTIME,
+  IRealtimeEvent,
+  RealtimeEventType,
+} from '@bringup/shared';
+
+/**
+ * Service for pushing live updates to connected clients over SSE
+ * Events are kept in memory per user so a reconnecting client can resume
+ * from its Last-Event-ID; clients only receive events published by the
+ * instance they are connected to
+ */
+@Injectable()
+export class RealtimeService {
+  private readonly logger = new Logger(RealtimeService.name);
+  /** Distinguishes event IDs issued by this process from earlier ones */
+  private readonly epoch = Date.now().toString(36);
+  private sequence = 0;
+  private readonly events$ = new Subject<{
+    uid: string;
+    event: IRealtimeEvent;
+  }>();
+  /** Recent events per user, oldest first */
+  private readonly history = new Map<string, IRealtimeEvent[]>();
+  /** Highest sequence dropped from each user's history */
+  private readonly trimmedUpTo = new Map<string, number>();
+
+  // ==========================================
+  // PUBLISHING
+  // ==========================================
+
+  /**
+   * Push an event to every connection of the given users
+   */
+  publish(
+    recipientUids: string[],
+    type: RealtimeEventType,
+    data: object,
+  ): void {
+    const publishedAt = Date.now();
+
+    for (const uid of new Set(recipientUids)) {
+      const sequence = ++this.sequence;
+      const event: IRealtimeEvent = {
+        id: `${this.epoch}-${sequence}`,
+        sequence,
+        type,
+        data,
+        publishedAt,
+      };
+
+      const events = this.history.get(uid) ?? [];
+      events.push(event);
+      this.history.set(uid, events);
+      this.trimHistory(uid, publishedAt);
+
+      this.events$.next({ uid, event });
+    }
+  }
+
+  // ==========================================
+  // SUBSCRIBING
+  // ==========================================
+
+  /**
+   * Event stream for a user
+   * Replays events after lastEventId, then emits live events and heartbeats
+   */
+  stream(uid: string, lastEventId?: string): Observable<MessageEvent> {
+    // Replay and live subscription happen in the same tick, so nothing is lost
+    return defer(() => {
+      this.logger.debug(`Stream opened for ${uid}`);
+
+      const live = this.events$.pipe(
+        filter((item) => item.uid === uid),
+        map((item) => this.toMessage(item.event)),
+      );
+      const heartbeat = interval(ALERT_REALTIME.HEARTBEAT_INTERVAL_MS).pipe(
+        map(
+          (): MessageEvent => ({
+            type: RealtimeEventType.HEARTBEAT,
+            data: { at: new Date().toISOString() },
+          }),
+        ),
+      );
+
+      return concat(
+        from(this.getReplay(uid, lastEventId)),
+        merge(live, heartbeat),
+      );
+    }).pipe(finalize(() => this.logger.debug(`Stream closed for ${uid}`)));
+  }
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * Events a reconnecting client missed, or a resync event when they are gone
+   */
+  private getReplay(uid: string, lastEventId?: string): MessageEvent[] {
+    if (!lastEventId) {
+      return [];
+    }
+
+    const [epoch, sequenceText] = lastEventId.split('-');
+    const lastSequence = Number(sequenceText);
+
+    if (
+      epoch !== this.epoch ||
+      !Number.isInteger(lastSequence) ||
+      lastSequence < (this.trimmedUpTo.get(uid) ?? 0)
+    ) {
+      return [
+        {
+          type: RealtimeEventType.RESYNC,
+          data: { reason: 'Missed events are no longer available' },
+        },
+      ];
+    }
+
+    this.trimHistory(uid, Date.now());
+
+    return (this.history.get(uid) ?? [])
+      .filter((event) => event.sequence > lastSequence)
+      .map((event) => this.toMessage(event));
+  }
+
+  /**
+   * Drop a user's events beyond the buffer size or replay window
+   */
+  private trimHistory(uid: string, now: number): void {
+    const events = this.history.get(uid);
+    if (!events) {
+      return;
+    }
+
+    const cutoff = now - ALERT_REALTIME.REPLAY_WINDOW_MS;
+    let dropCount = Math.max(
+      0,
+      events.length - ALERT_REALTIME.REPLAY_BUFFER_SIZE,
+    );
+    while (
+      dropCount < events.length &&
+      events[dropCount].publishedAt < cutoff
+    ) {
+      dropCount++;
+    }
+
+    if (dropCount === 0) {
+      return;
+    }
+
+    this.trimmedUpTo.set(uid, events[dropCount - 1].sequence);
+    if (dropCount === events.length) {
+      this.history.delete(uid);
+    } else {
+      this.history.set(uid, events.slice(dropCount));
+    }
+  }
+
+  /**
+   * Periodically forget expired events of users who went quiet
+   */
+  @Interval(ALERT_REALTIME.REPLAY_WINDOW_MS)
+  pruneHistory(): void {
+    const now = Date.now();
+    for (const uid of Array.from(this.history.keys())) {
+      this.trimHistory(uid, now);
+    }
+  }
+
+  /**
+   * Map a buffered event to an SSE message
+   */
+  private toMessage(event: IRealtimeEvent): MessageEvent {
+    return {
+      id: event.id,
+      type: event.type,
+      data: event.data,
+    };
+  }
+}
@@ -0,0 +1,36 @@
+import {
+  Controller,
+  Header,
+  Headers,
+  MessageEvent,
+  Sse,
+  UseGuards,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { RealtimeService } from './realtime.service';
+import { CurrentUser, FirebaseAuthGuard } from '@bringup/auth';
+import { type FirebaseUser } from '@bringup/shared';
+
+/**
+ * Controller for the realtime event stream
+ * Requires Firebase authentication like every other route
+ */
+@Controller('stream')
+@UseGuards(FirebaseAuthGuard)
+export class StreamController {
+  constructor(private readonly realtimeService: RealtimeService) {}
+
+  /**
+   * Server-Sent Events stream of task and notification updates
+   * @param user - Current authenticated user
+   * @param lastEventId - Last event the client received, to resume after a reconnect
+   */
+  @Sse()
+  @Header('X-Accel-Buffering', 'no')
+  stream(
+    @CurrentUser() user: FirebaseUser,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Observable<MessageEvent> {
+    return this.realtimeService.stream(user.uid, lastEventId);
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  INotificationTemplateBundle,
+  NotificationType,
+  TaskReaction,
+  TaskReviewKind,
+  TaskUpdateKind,
+} from '@bringup/shared';
+
+/**
+ * English notification copy, also the fallback for other locales
+ */
+export const EN_TEMPLATES: INotificationTemplateBundle = {
+  templates: {
+    [NotificationType.TASK_ASSIGNED]: {
+      default: { title: 'New task from {creatorName}', body: '{taskTitle}' },
+    },
+    [NotificationType.TASK_REACTION]: {
+      default: {
+        title: '{assigneeName} responded',
+        body: '"{reaction}" on: {taskTitle}',
+      },
+    },
+    [NotificationType.TASK_COMPLETED]: {
+      default: { title: '{actorName} completed a task', body: '{taskTitle}' },
+    },
+    [NotificationType.TASK_REMINDER]: {
+      default: {
+        title: 'Reminder: {taskTitle}',
+        body: { one: '{count} minute left', other: '{count} minutes left' },
+      },
+    },
+    [NotificationType.TASK_UPDATED]: {
+      [TaskUpdateKind.DETAILS_CHANGED]: {
+        title: '{creatorName} updated a task',
+        body: '{taskTitle}',
+      },
+      [TaskUpdateKind.ASSIGNED_TO_YOU]: {
+        title: '{creatorName} assigned you a task',
+        body: '{taskTitle}',
+      },
+      [TaskUpdateKind.REASSIGNED_AWAY]: {
+        title: '{creatorName} reassigned a task',
+        body: 'No longer assigned to you: {taskTitle}',
+      },
+    },
+    [NotificationType.TASK_DELETED]: {
+      default: { title: '{actorName} deleted a task', body: '{taskTitle}' },
+    },
+    [NotificationType.TASK_CANCELLED]: {
+      default: { title: '{actorName} cancelled a task', body: '{taskTitle}' },
+    },
+    [NotificationType.TASK_EXPIRED]: {
+      creator: {
+        title: 'Task expired',
+        body: {
+          one: '{assigneeName} did not finish: {taskTitle}',
+          other: '{count} assignees did not finish: {taskTitle}',
+        },
+      },
+      assignee: { title: 'Task expired', body: 'Time is up for: {taskTitle}' },
+    },
+    [NotificationType.TASK_COMMENT]: {
+      default: {
+        title: '{authorName} commented on {taskTitle}',
+        body: '{preview}',
+      },
+    },
+    [NotificationType.TASK_REVIEW]: {
+      [TaskReviewKind.SUBMITTED]: {
+        title: '{actorName} finished a task',
+        body: 'Awaiting approval: {taskTitle}',
+      },
+      [TaskReviewKind.APPROVED]: {
+        title: '{actorName} approved a task',
+        body: 'Completed: {taskTitle}',
+      },
+      [TaskReviewKind.REJECTED]: {
+        title: '{actorName} sent a task back',
+        body: '{taskTitle}: {reason}',
+      },
+    },
+    [NotificationType.SYSTEM_ALERT]: {
+      default: { title: '{title}', body: '{body}' },
+    },
+  },
+  reactions: {
+    [TaskReaction.ON_IT]: 'on it',
+    [TaskReaction.RUNNING_LATE]: 'running late',
+    [TaskReaction.NEED_HELP]: 'need help',
+  },
+  digestLabels: {
+    [NotificationType.TASK_ASSIGNED]: {
+      one: '{count} new task',
+      other: '{count} new tasks',
+    },
+    [NotificationType.TASK_REACTION]: {
+      one: '{count} reaction',
+      other: '{count} reactions',
+    },
+    [NotificationType.TASK_COMPLETED]: {
+      one: '{count} completed task',
+      other: '{count} completed tasks',
+    },
+    [NotificationType.TASK_REMINDER]: {
+      one: '{count} reminder',
+      other: '{count} reminders',
+    },
+    [NotificationType.TASK_UPDATED]: {
+      one: '{count} task update',
+      other: '{count} task updates',
+    },
+    [NotificationType.TASK_DELETED]: {
+      one: '{count} deleted task',
+      other: '{count} deleted tasks',
+    },
+    [NotificationType.TASK_CANCELLED]: {
+      one: '{count} cancelled task',
+      other: '{count} cancelled tasks',
+    },
+    [NotificationType.TASK_EXPIRED]: {
+      one: '{count} expired task',
+      other: '{count} expired tasks',
+    },
+    [NotificationType.TASK_COMMENT]: {
+      one: '{count} comment',
+      other: '{count} comments',
+    },
+    [NotificationType.TASK_REVIEW]: {
+      one: '{count} review',
+      other: '{count} reviews',
+    },
+    [NotificationType.SYSTEM_ALERT]: {
+      one: '{count} alert',
+      other: '{count} alerts',
+    },
+  },
+  digestTitle: {
+    one: '{count} new notification',
+    other: '{count} new notifications',
+  },
+  digestMore: { other: '{count} more' },
+};
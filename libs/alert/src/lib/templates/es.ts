@@ -0,0 +1,145 @@
+import {
+  INotificationTemplateBundle,
+  NotificationType,
+  TaskReaction,
+  TaskReviewKind,
+  TaskUpdateKind,
+} from '@bringup/shared';
+
+/**
+ * Spanish notification copy
+ */
+export const ES_TEMPLATES: INotificationTemplateBundle = {
+  templates: {
+    [NotificationType.TASK_ASSIGNED]: {
+      default: { title: 'Nueva tarea de {creatorName}', body: '{taskTitle}' },
+    },
+    [NotificationType.TASK_REACTION]: {
+      default: {
+        title: '{assigneeName} respondió',
+        body: '"{reaction}" en: {taskTitle}',
+      },
+    },
+    [NotificationType.TASK_COMPLETED]: {
+      default: { title: '{actorName} completó una tarea', body: '{taskTitle}' },
+    },
+    [NotificationType.TASK_REMINDER]: {
+      default: {
+        title: 'Recordatorio: {taskTitle}',
+        body: { one: 'Queda {count} minuto', other: 'Quedan {count} minutos' },
+      },
+    },
+    [NotificationType.TASK_UPDATED]: {
+      [TaskUpdateKind.DETAILS_CHANGED]: {
+        title: '{creatorName} actualizó una tarea',
+        body: '{taskTitle}',
+      },
+      [TaskUpdateKind.ASSIGNED_TO_YOU]: {
+        title: '{creatorName} te asignó una tarea',
+        body: '{taskTitle}',
+      },
+      [TaskUpdateKind.REASSIGNED_AWAY]: {
+        title: '{creatorName} reasignó una tarea',
+        body: 'Ya no está asignada a ti: {taskTitle}',
+      },
+    },
+    [NotificationType.TASK_DELETED]: {
+      default: { title: '{actorName} eliminó una tarea', body: '{taskTitle}' },
+    },
+    [NotificationType.TASK_CANCELLED]: {
+      default: { title: '{actorName} canceló una tarea', body: '{taskTitle}' },
+    },
+    [NotificationType.TASK_EXPIRED]: {
+      creator: {
+        title: 'Tarea vencida',
+        body: {
+          one: '{assigneeName} no terminó: {taskTitle}',
+          other: '{count} asignados no terminaron: {taskTitle}',
+        },
+      },
+      assignee: {
+        title: 'Tarea vencida',
+        body: 'Se acabó el tiempo para: {taskTitle}',
+      },
+    },
+    [NotificationType.TASK_COMMENT]: {
+      default: {
+        title: '{authorName} comentó en {taskTitle}',
+        body: '{preview}',
+      },
+    },
+    [NotificationType.TASK_REVIEW]: {
+      [TaskReviewKind.SUBMITTED]: {
+        title: '{actorName} terminó una tarea',
+        body: 'Pendiente de aprobación: {taskTitle}',
+      },
+      [TaskReviewKind.APPROVED]: {
+        title: '{actorName} aprobó una tarea',
+        body: 'Completada: {taskTitle}',
+      },
+      [TaskReviewKind.REJECTED]: {
+        title: '{actorName} devolvió una tarea',
+        body: '{taskTitle}: {reason}',
+      },
+    },
+    [NotificationType.SYSTEM_ALERT]: {
+      default: { title: '{title}', body: '{body}' },
+    },
+  },
+  reactions: {
+    [TaskReaction.ON_IT]: 'me encargo',
+    [TaskReaction.RUNNING_LATE]: 'voy con retraso',
+    [TaskReaction.NEED_HELP]: 'necesito ayuda',
+  },
+  digestLabels: {
+    [NotificationType.TASK_ASSIGNED]: {
+      one: '{count} tarea nueva',
+      other: '{count} tareas nuevas',
+    },
+    [NotificationType.TASK_REACTION]: {
+      one: '{count} reacción',
+      other: '{count} reacciones',
+    },
+    [NotificationType.TASK_COMPLETED]: {
+      one: '{count} tarea completada',
+      other: '{count} tareas completadas',
+    },
+    [NotificationType.TASK_REMINDER]: {
+      one: '{count} recordatorio',
+      other: '{count} recordatorios',
+    },
+    [NotificationType.TASK_UPDATED]: {
+      one: '{count} actualización de tarea',
+      other: '{count} actualizaciones de tareas',
+    },
+    [NotificationType.TASK_DELETED]: {
+      one: '{count} tarea eliminada',
+      other: '{count} tareas eliminadas',
+    },
+    [NotificationType.TASK_CANCELLED]: {
+      one: '{count} tarea cancelada',
+      other: '{count} tareas canceladas',
+    },
+    [NotificationType.TASK_EXPIRED]: {
+      one: '{count} tarea vencida',
+      other: '{count} tareas vencidas',
+    },
+    [NotificationType.TASK_COMMENT]: {
+      one: '{count} comentario',
+      other: '{count} comentarios',
+    },
+    [NotificationType.TASK_REVIEW]: {
+      one: '{count} revisión',
+      other: '{count} revisiones',
+    },
+    [NotificationType.SYSTEM_ALERT]: {
+      one: '{count} alerta',
+      other: '{count} alertas',
+    },
+  },
+  digestTitle: {
+    one: '{count} notificación nueva',
+    other: '{count} notificaciones nuevas',
+  },
+  digestMore: { other: '{count} más' },
+};
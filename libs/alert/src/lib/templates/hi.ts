@@ -0,0 +1,142 @@
+import {
+  INotificationTemplateBundle,
+  NotificationType,
+  TaskReaction,
+  TaskReviewKind,
+  TaskUpdateKind,
+} from '@bringup/shared';
+
+/**
+ * Hindi notification copy
+ */
+export const HI_TEMPLATES: INotificationTemplateBundle = {
+  templates: {
+    [NotificationType.TASK_ASSIGNED]: {
+      default: { title: '{creatorName} से नया कार्य', body: '{taskTitle}' },
+    },
+    [NotificationType.TASK_REACTION]: {
+      default: {
+        title: '{assigneeName} ने जवाब दिया',
+        body: '{taskTitle} पर: "{reaction}"',
+      },
+    },
+    [NotificationType.TASK_COMPLETED]: {
+      default: {
+        title: '{actorName} ने एक कार्य पूरा किया',
+        body: '{taskTitle}',
+      },
+    },
+    [NotificationType.TASK_REMINDER]: {
+      default: {
+        title: 'रिमाइंडर: {taskTitle}',
+        body: { other: '{count} मिनट बाकी' },
+      },
+    },
+    [NotificationType.TASK_UPDATED]: {
+      [TaskUpdateKind.DETAILS_CHANGED]: {
+        title: '{creatorName} ने एक कार्य अपडेट किया',
+        body: '{taskTitle}',
+      },
+      [TaskUpdateKind.ASSIGNED_TO_YOU]: {
+        title: '{creatorName} ने आपको एक कार्य सौंपा',
+        body: '{taskTitle}',
+      },
+      [TaskUpdateKind.REASSIGNED_AWAY]: {
+        title: '{creatorName} ने एक कार्य किसी और को सौंपा',
+        body: 'अब आपको सौंपा नहीं गया: {taskTitle}',
+      },
+    },
+    [NotificationType.TASK_DELETED]: {
+      default: {
+        title: '{actorName} ने एक कार्य हटाया',
+        body: '{taskTitle}',
+      },
+    },
+    [NotificationType.TASK_CANCELLED]: {
+      default: {
+        title: '{actorName} ने एक कार्य रद्द किया',
+        body: '{taskTitle}',
+      },
+    },
+    [NotificationType.TASK_EXPIRED]: {
+      creator: {
+        title: 'कार्य की समय-सीमा समाप्त',
+        body: {
+          one: '{assigneeName} ने पूरा नहीं किया: {taskTitle}',
+          other: '{count} लोगों ने पूरा नहीं किया: {taskTitle}',
+        },
+      },
+      assignee: {
+        title: 'कार्य की समय-सीमा समाप्त',
+        body: 'समय समाप्त: {taskTitle}',
+      },
+    },
+    [NotificationType.TASK_COMMENT]: {
+      default: {
+        title: '{authorName} ने {taskTitle} पर टिप्पणी की',
+        body: '{preview}',
+      },
+    },
+    [NotificationType.TASK_REVIEW]: {
+      [TaskReviewKind.SUBMITTED]: {
+        title: '{actorName} ने एक कार्य पूरा किया',
+        body: 'स्वीकृति बाकी: {taskTitle}',
+      },
+      [TaskReviewKind.APPROVED]: {
+        title: '{actorName} ने एक कार्य स्वीकृत किया',
+        body: 'पूरा हुआ: {taskTitle}',
+      },
+      [TaskReviewKind.REJECTED]: {
+        title: '{actorName} ने एक कार्य वापस भेजा',
+        body: '{taskTitle}: {reason}',
+      },
+    },
+    [NotificationType.SYSTEM_ALERT]: {
+      default: { title: '{title}', body: '{body}' },
+    },
+  },
+  reactions: {
+    [TaskReaction.ON_IT]: 'इस पर काम जारी है',
+    [TaskReaction.RUNNING_LATE]: 'देर हो रही है',
+    [TaskReaction.NEED_HELP]: 'मदद चाहिए',
+  },
+  digestLabels: {
+    [NotificationType.TASK_ASSIGNED]: {
+      one: '{count} नया कार्य',
+      other: '{count} नए कार्य',
+    },
+    [NotificationType.TASK_REACTION]: {
+      one: '{count} प्रतिक्रिया',
+      other: '{count} प्रतिक्रियाएँ',
+    },
+    [NotificationType.TASK_COMPLETED]: {
+      one: '{count} पूरा कार्य',
+      other: '{count} पूरे कार्य',
+    },
+    [NotificationType.TASK_REMINDER]: { other: '{count} रिमाइंडर' },
+    [NotificationType.TASK_UPDATED]: { other: '{count} कार्य अपडेट' },
+    [NotificationType.TASK_DELETED]: {
+      one: '{count} हटाया गया कार्य',
+      other: '{count} हटाए गए कार्य',
+    },
+    [NotificationType.TASK_CANCELLED]: {
+      one: '{count} रद्द किया गया कार्य',
+      other: '{count} रद्द किए गए कार्य',
+    },
+    [NotificationType.TASK_EXPIRED]: { other: '{count} समाप्त कार्य' },
+    [NotificationType.TASK_COMMENT]: {
+      one: '{count} टिप्पणी',
+      other: '{count} टिप्पणियाँ',
+    },
+    [NotificationType.TASK_REVIEW]: {
+      one: '{count} समीक्षा',
+      other: '{count} समीक्षाएँ',
+    },
+    [NotificationType.SYSTEM_ALERT]: { other: '{count} अलर्ट' },
+  },
+  digestTitle: {
+    one: '{count} नई सूचना',
+    other: '{count} नई सूचनाएँ',
+  },
+  digestMore: { other: '{count} और' },
+};
@@ -0,0 +1,20 @@
+import {
+  INotificationTemplateBundle,
+  NotificationLocale,
+} from '@bringup/shared';
+import { EN_TEMPLATES } from './en';
+import { ES_TEMPLATES } from './es';
+import { HI_TEMPLATES } from './hi';
+
+/**
+ * Notification copy of every supported locale
+ * Add a locale to NotificationLocale and a bundle here to ship new copy
+ */
+export const NOTIFICATION_TEMPLATES: Record<
+  NotificationLocale,
+  INotificationTemplateBundle
+> = {
+  [NotificationLocale.EN]: EN_TEMPLATES,
+  [NotificationLocale.ES]: ES_TEMPLATES,
+  [NotificationLocale.HI]: HI_TEMPLATES,
+};
@@ -0,0 +1,3 @@
+// Environment the config module validates when it is first imported
+process.env['PORT'] ??= '3000';
+process.env['ALLOWED_ORIGINS'] ??= 'http://localhost:3000';
@@ -3,12 +3,16 @@ export * from './lib/auth.module';
 
 // Auth Service
 export * from './lib/auth.service';
+export * from './lib/account.service';
 
 // Auth Controller
 export * from './lib/auth.controller';
+export * from './lib/admin-users.controller';
 
 // Guards
 export * from './lib/guards/firebase-auth.guard';
+export * from './lib/guards/resource-owner.guard';
+export * from './lib/guards/roles.guard';
 
 // Decorators
 export * from './lib/decorators/auth.decorators';
@@ -0,0 +1,492 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import * as admin from 'firebase-admin';
+
+import {
+  ALERT_COLLECTIONS,
+  AUTH_ACCOUNT_DELETION,
+  AUTH_COLLECTIONS,
+  AUTH_ERROR_CODES,
+  AccountDeletionStatus,
+  AccountDeletionStep,
+  FIRESTORE_TOKEN,
+  RecurringTaskStatus,
+  TASK_COLLECTIONS,
+  type AccountDeletionDocument,
+  type AccountDeletionProgress,
+  type AccountDeletionResponse,
+  type AccountExportResponse,
+  type ResumableJob,
+  type ResumableJobPage,
+  type TaskUser,
+} from '@bringup/shared';
+import { ResumableJobService } from '@bringup/database';
+
+/**
+ * Order the steps of an account deletion run in
+ */
+const DELETION_STEPS = Object.values(AccountDeletionStep);
+
+/**
+ * Search helper fields left out of a profile export
+ */
+const SEARCH_FIELDS = ['nameLower', 'emailLower', 'nameTokens', 'emailTokens'];
+
+/**
+ * Account Service
+ * Exports a user's personal data and deletes accounts as a job that saves
+ * its step and cursor after each page, so an interrupted deletion resumes
+ * where it stopped
+ */
+@Injectable()
+export class AccountService {
+  private readonly logger = new Logger(AccountService.name);
+
+  /**
+   * Queued deletions as resumable jobs, a page of one step at a time
+   * A failed page is retried by later runs until it fails too often
+   */
+  private readonly deletionJob: ResumableJob<AccountDeletionDocument> = {
+    name: 'Account deletion',
+    collection: AUTH_COLLECTIONS.ACCOUNT_DELETIONS,
+    orderBy: 'requestedAt',
+    statuses: AccountDeletionStatus,
+    lockName: AUTH_ACCOUNT_DELETION.LOCK_NAME,
+    lockTtlMs: AUTH_ACCOUNT_DELETION.LOCK_TTL_MS,
+    maxRunMs: AUTH_ACCOUNT_DELETION.MAX_RUN_MS,
+    runPage: (_id, job) => this.runDeletionPage(job),
+    onError: (job) => ({
+      update: { attempts: job.attempts + 1 },
+      failed: job.attempts + 1 >= AUTH_ACCOUNT_DELETION.MAX_ATTEMPTS,
+    }),
+  };
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    private readonly jobService: ResumableJobService,
+  ) {}
+
+  /**
+   * Scheduled entry point, only one instance deletes accounts at a time
+   */
+  @Interval(AUTH_ACCOUNT_DELETION.INTERVAL_MS)
+  async handleDeletions(): Promise<void> {
+    await this.jobService.run(this.deletionJob);
+  }
+
+  /**
+   * Build an archive of the user's profile, tasks and notifications
+   */
+  async exportAccount(uid: string): Promise<AccountExportResponse> {
+    const userDoc = await this.getUserRef(uid).get();
+    if (!userDoc.exists) {
+      throw new UnauthorizedException({
+        message: 'User not found',
+        code: AUTH_ERROR_CODES.USER_NOT_FOUND,
+      });
+    }
+
+    const tasksRef = this.firestore.collection(TASK_COLLECTIONS.TASKS);
+    const [created, assigned, notifications] = await Promise.all([
+      tasksRef.where('createdBy.uid', '==', uid).get(),
+      this.getAssignedTasksQuery(uid).get(),
+      this.firestore
+        .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
+        .where('recipientUid', '==', uid)
+        .orderBy('createdAt', 'desc')
+        .get(),
+    ]);
+
+    const profile = Object.fromEntries(
+      Object.entries(userDoc.data() ?? {}).filter(
+        ([key]) => !SEARCH_FIELDS.includes(key),
+      ),
+    );
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: { ...this.toExportData(profile), uid },
+      tasks: {
+        created: created.docs.map((doc) => this.toExportDoc(doc)),
+        assigned: assigned.docs.map((doc) => this.toExportDoc(doc)),
+      },
+      notifications: notifications.docs.map((doc) => this.toExportDoc(doc)),
+    };
+  }
+
+  /**
+   * Deactivate the account right away and queue the deletion of its data
+   * Asking again while a deletion is queued returns it; a failed one resumes
+   */
+  async requestDeletion(uid: string): Promise<AccountDeletionResponse> {
+    const jobRef = this.firestore
+      .collection(AUTH_COLLECTIONS.ACCOUNT_DELETIONS)
+      .doc(uid);
+    const jobDoc = await jobRef.get();
+    const existing = jobDoc.data() as AccountDeletionDocument | undefined;
+
+    if (existing && existing.status !== AccountDeletionStatus.FAILED) {
+      return this.toResponse(existing);
+    }
+
+    await this.deactivate(uid);
+
+    const now = admin.firestore.Timestamp.now();
+    const job: AccountDeletionDocument = existing
+      ? {
+          ...existing,
+          status: AccountDeletionStatus.PENDING,
+          attempts: 0,
+          error: null,
+          updatedAt: now,
+          finishedAt: null,
+        }
+      : {
+          uid,
+          status: AccountDeletionStatus.PENDING,
+          step: DELETION_STEPS[0],
+          cursor: null,
+          progress: {
+            tasksAnonymized: 0,
+            seriesAnonymized: 0,
+            notificationsDeleted: 0,
+          },
+          attempts: 0,
+          error: null,
+          requestedAt: now,
+          startedAt: null,
+          updatedAt: now,
+          finishedAt: null,
+        };
+    await jobRef.set(job);
+    this.logger.log(`🗑️ Account deletion requested for ${uid}`);
+
+    this.jobService.start(this.deletionJob);
+
+    return this.toResponse(job);
+  }
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * Lock the user out: no new sign-ins, no live sessions, no pushes
+   */
+  private async deactivate(uid: string): Promise<void> {
+    const userRef = this.getUserRef(uid);
+    if (!(await userRef.get()).exists) {
+      throw new UnauthorizedException({
+        message: 'User not found',
+        code: AUTH_ERROR_CODES.USER_NOT_FOUND,
+      });
+    }
+
+    await userRef.update({
+      isActive: false,
+      devices: [],
+      fcmToken: admin.firestore.FieldValue.delete(),
+      fcmTokenUpdatedAt: admin.firestore.FieldValue.delete(),
+    });
+    await admin.auth().updateUser(uid, { disabled: true });
+    await admin.auth().revokeRefreshTokens(uid);
+  }
+
+  /**
+   * Run the next page of a deletion, moving on to the next step once the
+   * current one is done
+   */
+  private async runDeletionPage(
+    job: AccountDeletionDocument,
+  ): Promise<ResumableJobPage<AccountDeletionDocument>> {
+    const page = await this.runStep(job.uid, job.step, job.cursor);
+    const nextStep = page.done
+      ? DELETION_STEPS[DELETION_STEPS.indexOf(job.step) + 1]
+      : job.step;
+
+    return {
+      state: {
+        step: nextStep ?? job.step,
+        cursor: page.done ? null : page.cursor,
+      },
+      progress: page.progress,
+      done: !nextStep,
+    };
+  }
+
+  /**
+   * Handle one page of a deletion step
+   */
+  private async runStep(
+    uid: string,
+    step: AccountDeletionStep,
+    cursor: string | null,
+  ): Promise<{
+    progress: Partial<AccountDeletionProgress>;
+    cursor: string | null;
+    done: boolean;
+  }> {
+    const tasksRef = this.firestore.collection(TASK_COLLECTIONS.TASKS);
+    const seriesRef = this.firestore.collection(
+      TASK_COLLECTIONS.RECURRING_TASKS,
+    );
+
+    switch (step) {
+      case AccountDeletionStep.CREATED_TASKS: {
+        const page = await this.updatePage(
+          tasksRef.where('createdBy.uid', '==', uid),
+          cursor,
+          (data) => this.anonymizeCopies(data, uid),
+        );
+        return { ...page, progress: { tasksAnonymized: page.count } };
+      }
+      case AccountDeletionStep.ASSIGNED_TASKS: {
+        const page = await this.updatePage(
+          this.getAssignedTasksQuery(uid),
+          cursor,
+          (data) => this.anonymizeCopies(data, uid),
+        );
+        return { ...page, progress: { tasksAnonymized: page.count } };
+      }
+      case AccountDeletionStep.CREATED_SERIES: {
+        // Paused so the series stops creating tasks for a deleted creator
+        const page = await this.updatePage(
+          seriesRef.where('createdBy.uid', '==', uid),
+          cursor,
+          (data) => ({
+            ...this.anonymizeCopies(data, uid),
+            status: RecurringTaskStatus.PAUSED,
+            nextRunAt: null,
+          }),
+        );
+        return { ...page, progress: { seriesAnonymized: page.count } };
+      }
+      case AccountDeletionStep.ASSIGNED_SERIES: {
+        // Older series have no assigneeUids
+        const page = await this.updatePage(
+          seriesRef.where(
+            admin.firestore.Filter.or(
+              admin.firestore.Filter.where('assignedTo.uid', '==', uid),
+              admin.firestore.Filter.where(
+                'assigneeUids',
+                'array-contains',
+                uid,
+              ),
+            ),
+          ),
+          cursor,
+          (data) => this.removeSeriesAssignee(data, uid),
+        );
+        return { ...page, progress: { seriesAnonymized: page.count } };
+      }
+      case AccountDeletionStep.NOTIFICATIONS:
+        return this.deleteNotificationsPage(uid);
+      case AccountDeletionStep.PROFILE:
+        await this.getUserRef(uid).update({
+          name: AUTH_ACCOUNT_DELETION.DELETED_USER_NAME,
+          nameLower: AUTH_ACCOUNT_DELETION.DELETED_USER_NAME.toLowerCase(),
+          nameTokens: [],
+          email: '',
+          emailLower: '',
+          emailTokens: [],
+          photo: '',
+          userSetFields: [],
+          deletedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return { progress: {}, cursor: null, done: true };
+    }
+  }
+
+  /**
+   * Apply buildUpdate to the next page of documents after the cursor
+   */
+  private async updatePage(
+    query: admin.firestore.Query,
+    cursor: string | null,
+    buildUpdate: (
+      data: admin.firestore.DocumentData,
+    ) => Record<string, unknown>,
+  ): Promise<{ count: number; cursor: string | null; done: boolean }> {
+    let pageQuery = query
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(AUTH_ACCOUNT_DELETION.BATCH_SIZE);
+    if (cursor) {
+      pageQuery = pageQuery.startAfter(cursor);
+    }
+
+    const snapshot = await pageQuery.get();
+    const batch = this.firestore.batch();
+    snapshot.docs.forEach((doc) => {
+      const update = buildUpdate(doc.data());
+      if (Object.keys(update).length > 0) {
+        batch.update(doc.ref, update);
+      }
+    });
+    await batch.commit();
+
+    return {
+      count: snapshot.size,
+      cursor: snapshot.docs[snapshot.docs.length - 1]?.id ?? cursor,
+      done: snapshot.size < AUTH_ACCOUNT_DELETION.BATCH_SIZE,
+    };
+  }
+
+  /**
+   * Updates replacing the user in a task or series' user copies
+   * The user ID is kept so other users' data still lines up
+   */
+  private anonymizeCopies(
+    data: admin.firestore.DocumentData,
+    uid: string,
+  ): Record<string, unknown> {
+    const anonymize = <T extends TaskUser>(user: T): T =>
+      user.uid === uid
+        ? { ...user, email: '', name: AUTH_ACCOUNT_DELETION.DELETED_USER_NAME }
+        : user;
+    const update: Record<string, unknown> = {};
+
+    if (data['createdBy']?.uid === uid) {
+      update['createdBy'] = anonymize(data['createdBy'] as TaskUser);
+    }
+    if (data['assignedTo']?.uid === uid) {
+      update['assignedTo'] = anonymize(data['assignedTo'] as TaskUser);
+    }
+    if (Array.isArray(data['assignees'])) {
+      update['assignees'] = (data['assignees'] as TaskUser[]).map(anonymize);
+    }
+
+    return update;
+  }
+
+  /**
+   * Updates removing the user from a series' assignees, so later runs do not
+   * try to assign tasks to a deleted account
+   * A series left without assignees is paused and keeps the anonymized copy
+   */
+  private removeSeriesAssignee(
+    data: admin.firestore.DocumentData,
+    uid: string,
+  ): Record<string, unknown> {
+    const assignees = (
+      (data['assignees'] as TaskUser[] | undefined) ?? [
+        data['assignedTo'] as TaskUser,
+      ]
+    ).filter((assignee) => assignee.uid !== uid);
+
+    if (assignees.length === 0) {
+      return {
+        ...this.anonymizeCopies(data, uid),
+        status: RecurringTaskStatus.PAUSED,
+        nextRunAt: null,
+      };
+    }
+
+    return {
+      assignedTo: assignees[0],
+      assignees,
+      assigneeUids: assignees.map((assignee) => assignee.uid),
+    };
+  }
+
+  /**
+   * Delete the next page of the user's notifications, then their
+   * notification preferences once none are left
+   */
+  private async deleteNotificationsPage(uid: string): Promise<{
+    progress: Partial<AccountDeletionProgress>;
+    cursor: null;
+    done: boolean;
+  }> {
+    const snapshot = await this.firestore
+      .collection(ALERT_COLLECTIONS.NOTIFICATIONS)
+      .where('recipientUid', '==', uid)
+      .limit(AUTH_ACCOUNT_DELETION.BATCH_SIZE)
+      .get();
+
+    const batch = this.firestore.batch();
+    snapshot.docs.forEach((doc) => batch.delete(doc.ref));
+
+    const done = snapshot.size < AUTH_ACCOUNT_DELETION.BATCH_SIZE;
+    if (done) {
+      batch.delete(
+        this.firestore.collection(ALERT_COLLECTIONS.PREFERENCES).doc(uid),
+      );
+    }
+    await batch.commit();
+
+    return {
+      progress: { notificationsDeleted: snapshot.size },
+      cursor: null,
+      done,
+    };
+  }
+
+  /**
+   * Tasks assigned to the user (legacy single-assignee tasks have no
+   * assigneeUids)
+   */
+  private getAssignedTasksQuery(uid: string): admin.firestore.Query {
+    return this.firestore
+      .collection(TASK_COLLECTIONS.TASKS)
+      .where(
+        admin.firestore.Filter.or(
+          admin.firestore.Filter.where('assignedTo.uid', '==', uid),
+          admin.firestore.Filter.where('assigneeUids', 'array-contains', uid),
+        ),
+      );
+  }
+
+  private getUserRef(uid: string): admin.firestore.DocumentReference {
+    return this.firestore.collection(AUTH_COLLECTIONS.USERS).doc(uid);
+  }
+
+  private toExportDoc(
+    doc: admin.firestore.QueryDocumentSnapshot,
+  ): Record<string, unknown> {
+    return { id: doc.id, ...this.toExportData(doc.data()) };
+  }
+
+  /**
+   * Copy of stored data with timestamps as ISO strings
+   */
+  private toExportData(data: Record<string, unknown>): Record<string, unknown> {
+    const toValue = (value: unknown): unknown => {
+      if (value instanceof admin.firestore.Timestamp) {
+        return value.toDate().toISOString();
+      }
+      if (Array.isArray(value)) {
+        return value.map(toValue);
+      }
+      if (value && typeof value === 'object') {
+        return this.toExportData(value as Record<string, unknown>);
+      }
+      return value;
+    };
+
+    return Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [key, toValue(value)]),
+    );
+  }
+
+  /**
+   * Convert a stored deletion job to its API shape
+   */
+  private toResponse(job: AccountDeletionDocument): AccountDeletionResponse {
+    return {
+      uid: job.uid,
+      status: job.status,
+      step: job.step,
+      progress: job.progress,
+      error: job.error,
+      requestedAt: job.requestedAt.toDate().toISOString(),
+      startedAt: job.startedAt?.toDate().toISOString() ?? null,
+      finishedAt: job.finishedAt?.toDate().toISOString() ?? null,
+    };
+  }
+}
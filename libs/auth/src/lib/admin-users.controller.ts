@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Put,
+} from '@nestjs/common';
+
+import {
+  UserRole,
+  type RequestUser,
+  type UserRolesResponse,
+} from '@bringup/shared';
+
+import { AuthService } from './auth.service';
+import { CurrentUser, Roles } from './decorators/auth.decorators';
+
+/**
+ * Admin Users Controller
+ * Handles granting and revoking user roles
+ * Admin only; support staff may look up a user's roles
+ */
+@Controller('admin/users')
+@Roles(UserRole.ADMIN)
+export class AdminUsersController {
+  constructor(private readonly authService: AuthService) {}
+
+  /**
+   * Get the roles a user holds
+   * @param uid - User ID
+   */
+  @Get(':uid/roles')
+  @Roles(UserRole.ADMIN, UserRole.SUPPORT)
+  async getUserRoles(@Param('uid') uid: string): Promise<UserRolesResponse> {
+    return this.authService.getUserRoles(uid);
+  }
+
+  /**
+   * Grant a role to a user
+   * @param uid - User ID
+   * @param role - Role to grant
+   */
+  @Put(':uid/roles/:role')
+  async grantRole(
+    @Param('uid') uid: string,
+    @Param('role', new ParseEnumPipe(UserRole)) role: UserRole,
+  ): Promise<UserRolesResponse> {
+    return this.authService.grantRole(uid, role);
+  }
+
+  /**
+   * Revoke a role from a user
+   * @param user - Current authenticated user
+   * @param uid - User ID
+   * @param role - Role to revoke
+   */
+  @Delete(':uid/roles/:role')
+  async revokeRole(
+    @CurrentUser() user: RequestUser,
+    @Param('uid') uid: string,
+    @Param('role', new ParseEnumPipe(UserRole)) role: UserRole,
+  ): Promise<UserRolesResponse> {
+    return this.authService.revokeRole(uid, role, user.uid);
+  }
+}
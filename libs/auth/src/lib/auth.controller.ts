@@ -1,28 +1,37 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
+  Header,
   HttpCode,
   HttpStatus,
   Logger,
+  Patch,
   Post,
   Query,
 } from '@nestjs/common';
 
 import {
   LoginDto,
+  LogoutDto,
+  RefreshTokenBody,
+  UpdateProfileDto,
+  UserRole,
+  type AccountDeletionResponse,
+  type AccountExportResponse,
   type LoginResponse,
   type LogoutResponse,
   type MigrationResponse,
   type RefreshResponse,
-  type RefreshTokenBody,
   type RequestUser,
   type UserProfileResponse,
   type UserSearchResponse,
 } from '@bringup/shared';
 
+import { AccountService } from './account.service';
 import { AuthService } from './auth.service';
-import { CurrentUser, Public } from './decorators/auth.decorators';
+import { CurrentUser, Public, Roles } from './decorators/auth.decorators';
 
 /**
  * Authentication Controller
@@ -32,7 +41,10 @@ import { CurrentUser, Public } from './decorators/auth.decorators';
 export class AuthController {
   private readonly logger = new Logger(AuthController.name);
 
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly accountService: AccountService,
+  ) {}
 
   /**
    * Login with Google/Firebase authentication
@@ -43,11 +55,21 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   async googleLogin(@Body() dto: LoginDto): Promise<LoginResponse> {
     this.logger.log('Login attempt received');
-    return this.authService.loginWithGoogle(dto.firebaseToken, dto.fcmToken);
+    return this.authService.loginWithGoogle(
+      dto.firebaseToken,
+      dto.fcmToken
+        ? {
+            fcmToken: dto.fcmToken,
+            platform: dto.platform,
+            appVersion: dto.appVersion,
+          }
+        : undefined,
+      dto.locale,
+    );
   }
 
   /**
-   * Refresh session - update FCM token if provided
+   * Refresh session - update the current device if a token is provided
    */
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
@@ -56,18 +78,25 @@ export class AuthController {
     @Body() body: RefreshTokenBody,
   ): Promise<RefreshResponse> {
     if (body.fcmToken) {
-      await this.authService.updateFcmToken(user.uid, body.fcmToken);
+      await this.authService.registerDevice(user.uid, {
+        fcmToken: body.fcmToken,
+        platform: body.platform,
+        appVersion: body.appVersion,
+      });
     }
     return { message: 'Token refreshed' };
   }
 
   /**
-   * Logout user - revoke tokens and clear FCM token
+   * Logout user - revoke tokens and unregister the current device
    */
   @Post('logout')
   @HttpCode(HttpStatus.OK)
-  async logout(@CurrentUser() user: RequestUser): Promise<LogoutResponse> {
-    return this.authService.logout(user.uid);
+  async logout(
+    @CurrentUser() user: RequestUser,
+    @Body() body: LogoutDto,
+  ): Promise<LogoutResponse> {
+    return this.authService.logout(user.uid, body.fcmToken);
   }
 
   /**
@@ -80,6 +109,40 @@ export class AuthController {
     return this.authService.getUserProfile(user.uid);
   }
 
+  /**
+   * Update current user's display name, photo, time zone or locale
+   */
+  @Patch('me')
+  async updateCurrentUser(
+    @CurrentUser() user: RequestUser,
+    @Body() dto: UpdateProfileDto,
+  ): Promise<UserProfileResponse> {
+    return this.authService.updateProfile(user.uid, dto);
+  }
+
+  /**
+   * Download a copy of the current user's personal data
+   */
+  @Get('me/export')
+  @Header('Content-Disposition', 'attachment; filename="account-export.json"')
+  async exportCurrentUser(
+    @CurrentUser() user: RequestUser,
+  ): Promise<AccountExportResponse> {
+    return this.accountService.exportAccount(user.uid);
+  }
+
+  /**
+   * Delete current user's account
+   * Signs the user out everywhere now; their data is removed in the background
+   */
+  @Delete('me')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async deleteCurrentUser(
+    @CurrentUser() user: RequestUser,
+  ): Promise<AccountDeletionResponse> {
+    return this.accountService.requestDeletion(user.uid);
+  }
+
   /**
    * Search users by name or email
    */
@@ -148,9 +211,10 @@ export class AuthController {
 
   /**
    * Migrate existing users to add search tokens
-   * Admin endpoint - should be protected in production
+   * Admin only
    */
   @Post('migrate-users')
+  @Roles(UserRole.ADMIN)
   @HttpCode(HttpStatus.OK)
   async migrateUsers(): Promise<MigrationResponse> {
     this.logger.warn('User migration started');
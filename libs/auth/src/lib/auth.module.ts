@@ -1,6 +1,8 @@
 import { Module } from '@nestjs/common';
 import { APP_GUARD } from '@nestjs/core';
 
+import { AccountService } from './account.service';
+import { AdminUsersController } from './admin-users.controller';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { FirebaseAuthGuard } from './guards/firebase-auth.guard';
@@ -14,21 +16,24 @@ import { FirebaseAuthGuard } from './guards/firebase-auth.guard';
  * - Global authentication guard
  * - User management (login, logout, profile)
  * - User search functionality
+ * - Role-based access with Firebase custom claims
+ * - Personal data export and resumable account deletion
  *
  * @note Requires DatabaseModule to be imported in the parent module
- * for FIRESTORE_TOKEN injection
+ * for FIRESTORE_TOKEN and DistributedLockService injection
  */
 @Module({
-  controllers: [AuthController],
+  controllers: [AuthController, AdminUsersController],
   providers: [
     AuthService,
+    AccountService,
     FirebaseAuthGuard,
     {
       provide: APP_GUARD,
       useClass: FirebaseAuthGuard,
     },
   ],
-  exports: [AuthService, FirebaseAuthGuard],
+  exports: [AuthService, AccountService, FirebaseAuthGuard],
 })
 export class AuthModule {}
 
@@ -1,7 +1,9 @@
 import {
+  BadRequestException,
   Inject,
   Injectable,
   Logger,
+  NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common';
 import * as admin from 'firebase-admin';
@@ -10,14 +12,23 @@ import {
   AUTH_COLLECTIONS,
   AUTH_DEFAULTS,
   AUTH_ERROR_CODES,
+  AUTH_ROLES,
+  FIREBASE_AUTH_ERRORS,
   FIRESTORE_TOKEN,
+  UserRole,
   type DecodedTokenUserInfo,
+  type DeviceInfo,
+  type DeviceRegistration,
+  type FirebaseUser,
   type LoginResponse,
   type LogoutResponse,
   type MigrationResponse,
   type NewUserData,
+  type UpdateProfileDto,
+  type UserProfileField,
   type UserProfileResponse,
   type UserResponseData,
+  type UserRolesResponse,
   type UserUpdateData,
 } from '@bringup/shared';
 
@@ -99,10 +110,11 @@ export class AuthService {
    */
   async loginWithGoogle(
     firebaseToken: string,
-    fcmToken?: string,
+    device?: DeviceInfo,
+    locale?: string,
   ): Promise<LoginResponse> {
     this.logger.log(
-      `Login received - FCM Token: ${fcmToken ? '✓ Provided' : '✗ Missing'}`,
+      `Login received - FCM Token: ${device ? '✓ Provided' : '✗ Missing'}`,
     );
 
     const decodedToken = await this.verifyToken(firebaseToken);
@@ -110,47 +122,96 @@ export class AuthService {
       decodedToken as unknown as DecodedTokenUserInfo;
 
     const userRef = this.firestore.collection(AUTH_COLLECTIONS.USERS).doc(uid);
-    const userDoc = await userRef.get();
-
-    if (!userDoc.exists) {
-      return this.createNewUser(userRef, {
-        uid,
-        email: email || '',
-        name: name || AUTH_DEFAULTS.DEFAULT_NAME,
-        photo: picture || AUTH_DEFAULTS.DEFAULT_PHOTO,
-        emailVerified: email_verified || false,
-        fcmToken: fcmToken || null,
+    const [userDoc, deletionDoc] = await Promise.all([
+      userRef.get(),
+      this.firestore
+        .collection(AUTH_COLLECTIONS.ACCOUNT_DELETIONS)
+        .doc(uid)
+        .get(),
+    ]);
+
+    // A token issued before the account was deactivated or deleted must not
+    // write the profile back or register a device
+    if (userDoc.get('isActive') === false || deletionDoc.exists) {
+      throw new UnauthorizedException({
+        message: 'User account disabled',
+        code: AUTH_ERROR_CODES.USER_DISABLED,
       });
     }
 
-    return this.updateExistingUser(userRef, userDoc, {
-      name,
-      email,
-      picture,
-      fcmToken,
-    });
+    const response = userDoc.exists
+      ? await this.updateExistingUser(userRef, userDoc, {
+          name,
+          email,
+          picture,
+          locale,
+        })
+      : await this.createNewUser(userRef, {
+          uid,
+          email: email || '',
+          name: name || AUTH_DEFAULTS.DEFAULT_NAME,
+          photo: picture || AUTH_DEFAULTS.DEFAULT_PHOTO,
+          emailVerified: email_verified || false,
+          locale: locale || AUTH_DEFAULTS.DEFAULT_LOCALE,
+        });
+
+    if (device) {
+      await this.registerDevice(uid, device);
+    }
+
+    return response;
   }
 
   /**
-   * Update FCM token for push notifications
+   * Add the current device or refresh its registration
+   * Also moves a token stored before device registrations into the list
    */
-  async updateFcmToken(
+  async registerDevice(
     uid: string,
-    fcmToken: string,
+    device: DeviceInfo,
   ): Promise<{ success: boolean }> {
     try {
       const userRef = this.firestore
         .collection(AUTH_COLLECTIONS.USERS)
         .doc(uid);
-      await userRef.update({
-        fcmToken,
-        fcmTokenUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+
+      await this.firestore.runTransaction(async (transaction) => {
+        const userSnap = await transaction.get(userRef);
+        const user = userSnap.data() as FirebaseUser | undefined;
+        const now = admin.firestore.Timestamp.now();
+
+        const registered = this.getDevices(user);
+        const current = registered.find(
+          (existing) => existing.token === device.fcmToken,
+        );
+        const devices = registered.filter(
+          (existing) => existing.token !== device.fcmToken,
+        );
+
+        devices.push({
+          token: device.fcmToken,
+          platform: device.platform ?? current?.platform ?? null,
+          appVersion: device.appVersion ?? current?.appVersion ?? null,
+          registeredAt: current?.registeredAt ?? now,
+          lastSeenAt: now,
+        });
+
+        // Keep the most recently seen devices
+        devices.sort(
+          (a, b) => b.lastSeenAt.toMillis() - a.lastSeenAt.toMillis(),
+        );
+
+        transaction.update(userRef, {
+          devices: devices.slice(0, AUTH_DEFAULTS.MAX_DEVICES_PER_USER),
+          fcmToken: admin.firestore.FieldValue.delete(),
+          fcmTokenUpdatedAt: admin.firestore.FieldValue.delete(),
+        });
       });
 
-      this.logger.log(`FCM token updated for user: ${uid}`);
+      this.logger.log(`Device registered for user: ${uid}`);
       return { success: true };
     } catch (error) {
-      this.logger.warn(`Failed to update FCM token for user ${uid}:`, error);
+      this.logger.warn(`Failed to register device for user ${uid}:`, error);
       throw new UnauthorizedException({
         message: 'Failed to update FCM token',
         code: AUTH_ERROR_CODES.FCM_UPDATE_FAILED,
@@ -159,16 +220,52 @@ export class AuthService {
   }
 
   /**
-   * Verify Firebase ID token
+   * Registered devices of a user, including a token stored before
+   * device registrations existed
+   */
+  private getDevices(user: FirebaseUser | undefined): DeviceRegistration[] {
+    const devices = [...(user?.devices ?? [])];
+
+    if (
+      user?.fcmToken &&
+      !devices.some((device) => device.token === user.fcmToken)
+    ) {
+      const now = admin.firestore.Timestamp.now();
+      devices.push({
+        token: user.fcmToken,
+        platform: null,
+        appVersion: null,
+        registeredAt: now,
+        lastSeenAt: now,
+      });
+    }
+
+    return devices;
+  }
+
+  /**
+   * Verify Firebase ID token, rejecting revoked tokens and disabled users
    */
   private async verifyToken(
     firebaseToken: string,
   ): Promise<admin.auth.DecodedIdToken> {
     try {
-      return await admin.auth().verifyIdToken(firebaseToken);
+      return await admin.auth().verifyIdToken(firebaseToken, true);
     } catch (error: unknown) {
       if (error instanceof Error && 'code' in error) {
         const firebaseError = error as { code: string };
+        if (firebaseError.code === FIREBASE_AUTH_ERRORS.TOKEN_REVOKED) {
+          throw new UnauthorizedException({
+            message: 'Token has been revoked',
+            code: AUTH_ERROR_CODES.TOKEN_REVOKED,
+          });
+        }
+        if (firebaseError.code === FIREBASE_AUTH_ERRORS.USER_DISABLED) {
+          throw new UnauthorizedException({
+            message: 'User account disabled',
+            code: AUTH_ERROR_CODES.USER_DISABLED,
+          });
+        }
         if (firebaseError.code === 'auth/id-token-expired') {
           throw new UnauthorizedException({
             message: 'Token expired',
@@ -204,18 +301,13 @@ export class AuthService {
       emailTokens: this.generateEmailTokens(userData.email),
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       lastLoginAt: admin.firestore.FieldValue.serverTimestamp(),
-      fcmTokenUpdatedAt: userData.fcmToken
-        ? admin.firestore.FieldValue.serverTimestamp()
-        : null,
+      devices: [],
       isActive: true,
     };
 
     await userRef.set(newUser);
 
     this.logger.log(`New user created: ${userData.uid}`);
-    this.logger.log(
-      `FCM token stored: ${userData.fcmToken ? '✓ Yes' : '✗ No'}`,
-    );
 
     return {
       user: {
@@ -232,6 +324,7 @@ export class AuthService {
 
   /**
    * Update existing user on login
+   * Profile fields the user set themselves are kept
    */
   private async updateExistingUser(
     userRef: admin.firestore.DocumentReference,
@@ -239,14 +332,16 @@ export class AuthService {
     updates: UserUpdateData,
   ): Promise<LoginResponse> {
     const existingData = userDoc.data() ?? {};
+    const userSetFields =
+      (existingData['userSetFields'] as UserProfileField[] | undefined) ?? [];
     const updatedName =
-      updates.name ||
+      (!userSetFields.includes('name') && updates.name) ||
       (existingData['name'] as string) ||
       AUTH_DEFAULTS.DEFAULT_NAME;
     const updatedEmail =
       updates.email || (existingData['email'] as string) || '';
     const updatedPhoto =
-      updates.picture ||
+      (!userSetFields.includes('photo') && updates.picture) ||
       (existingData['photo'] as string) ||
       AUTH_DEFAULTS.DEFAULT_PHOTO;
 
@@ -259,19 +354,13 @@ export class AuthService {
       nameTokens: this.generateNameTokens(updatedName),
       emailTokens: this.generateEmailTokens(updatedEmail),
     };
-
-    if (updates.fcmToken !== undefined) {
-      updateData['fcmToken'] = updates.fcmToken || null;
-      updateData['fcmTokenUpdatedAt'] =
-        admin.firestore.FieldValue.serverTimestamp();
+    if (updates.locale && !userSetFields.includes('locale')) {
+      updateData['locale'] = updates.locale;
     }
 
     await userRef.update(updateData);
 
     this.logger.log(`User ${userDoc.id} updated`);
-    this.logger.log(
-      `FCM token updated: ${updates.fcmToken !== undefined ? (updates.fcmToken ? '✓ Yes' : '✗ Cleared') : '→ Unchanged'}`,
-    );
 
     const createdAt = this.formatTimestamp(
       existingData['createdAt'] as admin.firestore.Timestamp | undefined,
@@ -291,15 +380,33 @@ export class AuthService {
   }
 
   /**
-   * Logout user - revoke tokens and clear FCM token
+   * Logout user - revoke tokens and unregister the current device
+   * Other devices of the user keep receiving push notifications
    */
-  async logout(uid: string): Promise<LogoutResponse> {
+  async logout(uid: string, fcmToken?: string): Promise<LogoutResponse> {
     try {
       await admin.auth().revokeRefreshTokens(uid);
 
-      await this.firestore.collection(AUTH_COLLECTIONS.USERS).doc(uid).update({
-        fcmToken: null,
-        lastLogoutAt: admin.firestore.FieldValue.serverTimestamp(),
+      const userRef = this.firestore
+        .collection(AUTH_COLLECTIONS.USERS)
+        .doc(uid);
+
+      await this.firestore.runTransaction(async (transaction) => {
+        const userSnap = await transaction.get(userRef);
+        const user = userSnap.data() as FirebaseUser | undefined;
+        const updateData: Record<string, unknown> = {
+          lastLogoutAt: admin.firestore.FieldValue.serverTimestamp(),
+        };
+
+        if (fcmToken) {
+          updateData['devices'] = this.getDevices(user).filter(
+            (device) => device.token !== fcmToken,
+          );
+          updateData['fcmToken'] = admin.firestore.FieldValue.delete();
+          updateData['fcmTokenUpdatedAt'] = admin.firestore.FieldValue.delete();
+        }
+
+        transaction.update(userRef, updateData);
       });
 
       this.logger.log(`User logged out: ${uid}`);
@@ -347,6 +454,9 @@ export class AuthService {
           photo: (userData['photo'] as string) || AUTH_DEFAULTS.DEFAULT_PHOTO,
           emailVerified: (userData['emailVerified'] as boolean) || false,
           createdAt,
+          locale:
+            (userData['locale'] as string) || AUTH_DEFAULTS.DEFAULT_LOCALE,
+          timeZone: (userData['timeZone'] as string) || null,
         },
       };
     } catch (error) {
@@ -361,6 +471,61 @@ export class AuthService {
     }
   }
 
+  /**
+   * Update the profile fields that were sent
+   * Fields set here are marked so the next login doesn't overwrite them
+   */
+  async updateProfile(
+    uid: string,
+    dto: UpdateProfileDto,
+  ): Promise<UserProfileResponse> {
+    const userRef = this.firestore.collection(AUTH_COLLECTIONS.USERS).doc(uid);
+    const userDoc = await userRef.get();
+
+    if (!userDoc.exists) {
+      throw new UnauthorizedException({
+        message: 'User not found',
+        code: AUTH_ERROR_CODES.USER_NOT_FOUND,
+      });
+    }
+
+    const updateData: Record<string, unknown> = {};
+    const userSetFields: UserProfileField[] = [];
+
+    if (dto.displayName !== undefined) {
+      Object.assign(updateData, {
+        name: dto.displayName,
+        nameLower: dto.displayName.toLowerCase(),
+        nameTokens: this.generateNameTokens(dto.displayName),
+      });
+      userSetFields.push('name');
+    }
+    if (dto.photoUrl !== undefined) {
+      updateData['photo'] = dto.photoUrl;
+      userSetFields.push('photo');
+    }
+    if (dto.locale !== undefined) {
+      updateData['locale'] = dto.locale;
+      userSetFields.push('locale');
+    }
+    if (dto.timeZone !== undefined) {
+      updateData['timeZone'] = dto.timeZone;
+      userSetFields.push('timeZone');
+    }
+
+    if (userSetFields.length > 0) {
+      updateData['userSetFields'] = admin.firestore.FieldValue.arrayUnion(
+        ...userSetFields,
+      );
+      await userRef.update(updateData);
+      this.logger.log(
+        `Profile updated for ${uid}: ${userSetFields.join(', ')}`,
+      );
+    }
+
+    return this.getUserProfile(uid);
+  }
+
   /**
    * Search users by name using tokenized search
    */
@@ -497,4 +662,123 @@ export class AuthService {
       throw new Error('Failed to migrate existing users');
     }
   }
+
+  /**
+   * Get the roles a user holds
+   */
+  async getUserRoles(uid: string): Promise<UserRolesResponse> {
+    const user = await this.getAuthUser(uid);
+    return { uid, roles: this.toRoles(user.customClaims) };
+  }
+
+  /**
+   * Grant a role by adding it to the user's custom claims
+   * Takes effect once the user's ID token refreshes
+   */
+  async grantRole(uid: string, role: UserRole): Promise<UserRolesResponse> {
+    this.assertAssignable(role);
+
+    const user = await this.getAuthUser(uid);
+    const roles = this.toRoles(user.customClaims);
+    if (!roles.includes(role)) {
+      roles.push(role);
+      await this.saveRoles(user, roles);
+      this.logger.log(`Role ${role} granted to ${uid}`);
+    }
+
+    return { uid, roles };
+  }
+
+  /**
+   * Revoke a role by removing it from the user's custom claims
+   * The user's sessions are revoked so the role stops working right away
+   */
+  async revokeRole(
+    uid: string,
+    role: UserRole,
+    actorUid: string,
+  ): Promise<UserRolesResponse> {
+    this.assertAssignable(role);
+
+    // Keeps the last admin from locking everyone out by accident
+    if (role === UserRole.ADMIN && uid === actorUid) {
+      throw new BadRequestException({
+        message: 'You cannot revoke your own admin role',
+        code: AUTH_ERROR_CODES.CANNOT_REVOKE_OWN_ADMIN,
+      });
+    }
+
+    const user = await this.getAuthUser(uid);
+    const roles = this.toRoles(user.customClaims);
+    if (roles.includes(role)) {
+      const remaining = roles.filter((held) => held !== role);
+      await this.saveRoles(user, remaining);
+      await admin.auth().revokeRefreshTokens(uid);
+      this.logger.log(`Role ${role} revoked from ${uid}`);
+      return { uid, roles: remaining };
+    }
+
+    return { uid, roles };
+  }
+
+  /**
+   * Get a user from Firebase Auth
+   */
+  private async getAuthUser(uid: string): Promise<admin.auth.UserRecord> {
+    try {
+      return await admin.auth().getUser(uid);
+    } catch (error) {
+      if (
+        (error as { code?: string }).code ===
+        FIREBASE_AUTH_ERRORS.USER_NOT_FOUND
+      ) {
+        throw new NotFoundException({
+          message: 'User not found',
+          code: AUTH_ERROR_CODES.USER_NOT_FOUND,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Roles held under the given custom claims
+   */
+  private toRoles(claims: Record<string, unknown> | undefined): UserRole[] {
+    const claim = claims?.[AUTH_ROLES.CLAIM];
+    const roles = Array.isArray(claim)
+      ? claim.filter((role): role is UserRole =>
+          Object.values(UserRole).includes(role),
+        )
+      : [];
+
+    return Array.from(new Set([AUTH_ROLES.DEFAULT_ROLE, ...roles]));
+  }
+
+  /**
+   * Store the elevated roles, keeping the user's other custom claims
+   */
+  private async saveRoles(
+    user: admin.auth.UserRecord,
+    roles: UserRole[],
+  ): Promise<void> {
+    await admin.auth().setCustomUserClaims(user.uid, {
+      ...user.customClaims,
+      [AUTH_ROLES.CLAIM]: roles.filter(
+        (role) => role !== AUTH_ROLES.DEFAULT_ROLE,
+      ),
+    });
+  }
+
+  /**
+   * Every user holds the default role, so it can't be granted or revoked
+   */
+  private assertAssignable(role: UserRole): void {
+    if (role === AUTH_ROLES.DEFAULT_ROLE) {
+      throw new BadRequestException({
+        message: `The ${role} role cannot be granted or revoked`,
+        code: AUTH_ERROR_CODES.ROLE_NOT_ASSIGNABLE,
+      });
+    }
+  }
 }
@@ -7,8 +7,17 @@ import {
   UseGuards,
 } from '@nestjs/common';
 
-import { IS_PUBLIC_KEY, type RequestUser } from '@bringup/shared';
+import {
+  IS_PUBLIC_KEY,
+  OWNED_RESOURCE_KEY,
+  ROLES_KEY,
+  type OwnedResourceOptions,
+  type RequestUser,
+  type UserRole,
+} from '@bringup/shared';
 import { FirebaseAuthGuard } from '../guards/firebase-auth.guard';
+import { ResourceOwnerGuard } from '../guards/resource-owner.guard';
+import { RolesGuard } from '../guards/roles.guard';
 
 /**
  * Public route decorator
@@ -42,6 +51,51 @@ export const Public = (): ReturnType<typeof SetMetadata> =>
 export const Auth = (): ReturnType<typeof applyDecorators> =>
   applyDecorators(UseGuards(FirebaseAuthGuard));
 
+/**
+ * Owned resource decorator
+ * Limits a route to the owner of the Firestore document named by a route
+ * param, answering 404 when it doesn't exist and 403 when it isn't theirs
+ *
+ * @param options - Collection, owner field and optional route param and errors
+ *
+ * @example
+ * ```typescript
+ * @OwnedResource({ collection: 'notes', ownerField: 'authorUid' })
+ * @Get(':id')
+ * getNote(@Param('id') id: string) {
+ *   return this.noteService.getNote(id);
+ * }
+ * ```
+ */
+export const OwnedResource = (
+  options: OwnedResourceOptions,
+): ReturnType<typeof applyDecorators> =>
+  applyDecorators(
+    SetMetadata(OWNED_RESOURCE_KEY, options),
+    UseGuards(ResourceOwnerGuard),
+  );
+
+/**
+ * Roles decorator
+ * Limits a route or controller to users holding any of the given roles,
+ * answering 403 otherwise; a route's roles replace its controller's
+ *
+ * @param roles - Roles allowed to access the route
+ *
+ * @example
+ * ```typescript
+ * @Roles(UserRole.ADMIN)
+ * @Post('migrate')
+ * migrate() {
+ *   return this.migrationService.run();
+ * }
+ * ```
+ */
+export const Roles = (
+  ...roles: UserRole[]
+): ReturnType<typeof applyDecorators> =>
+  applyDecorators(SetMetadata(ROLES_KEY, roles), UseGuards(RolesGuard));
+
 /**
  * Current authenticated user parameter decorator
  * Extracts the authenticated user from the request
@@ -11,8 +11,10 @@ import * as admin from 'firebase-admin';
 import {
   AUTH_ERROR_CODES,
   AUTH_HEADER,
+  AUTH_ROLES,
   FIREBASE_AUTH_ERRORS,
   IS_PUBLIC_KEY,
+  UserRole,
   type RequestUser,
 } from '@bringup/shared';
 
@@ -97,9 +99,25 @@ export class FirebaseAuthGuard implements CanActivate {
         ? new Date(decodedToken.auth_time * 1000)
         : null,
       isActive: true,
+      roles: this.getRoles(decodedToken),
     };
   }
 
+  /**
+   * Roles from the token's custom claim, plus the role every user holds
+   * Unknown values in the claim are ignored
+   */
+  private getRoles(decodedToken: admin.auth.DecodedIdToken): UserRole[] {
+    const claim: unknown = decodedToken[AUTH_ROLES.CLAIM];
+    const roles = Array.isArray(claim)
+      ? claim.filter((role): role is UserRole =>
+          Object.values(UserRole).includes(role),
+        )
+      : [];
+
+    return Array.from(new Set([AUTH_ROLES.DEFAULT_ROLE, ...roles]));
+  }
+
   /**
    * Generate name tokens for search
    */
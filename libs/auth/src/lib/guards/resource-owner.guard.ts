@@ -0,0 +1,72 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import * as admin from 'firebase-admin';
+
+import {
+  AUTH_ERROR_CODES,
+  FIRESTORE_TOKEN,
+  OWNED_RESOURCE_KEY,
+  type OwnedResourceOptions,
+  type RequestUser,
+} from '@bringup/shared';
+
+/**
+ * Resource Owner Guard
+ * Allows a route only when the caller owns the Firestore document it targets
+ * Configured per route with @OwnedResource()
+ */
+@Injectable()
+export class ResourceOwnerGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const options = this.reflector.getAllAndOverride<
+      OwnedResourceOptions | undefined
+    >(OWNED_RESOURCE_KEY, [context.getHandler(), context.getClass()]);
+
+    if (!options) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<{
+      user?: RequestUser;
+      params: Record<string, string>;
+    }>();
+    const id = request.params[options.param ?? 'id'];
+
+    const doc = id
+      ? await this.firestore.collection(options.collection).doc(id).get()
+      : null;
+
+    if (!doc?.exists) {
+      throw new NotFoundException(
+        options.notFound ?? {
+          message: 'Resource not found',
+          code: AUTH_ERROR_CODES.RESOURCE_NOT_FOUND,
+        },
+      );
+    }
+
+    if (!request.user || doc.get(options.ownerField) !== request.user.uid) {
+      throw new ForbiddenException(
+        options.forbidden ?? {
+          message: 'You do not have access to this resource',
+          code: AUTH_ERROR_CODES.ACCESS_DENIED,
+        },
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+import {
+  AUTH_ERROR_CODES,
+  ROLES_KEY,
+  type RequestUser,
+  type UserRole,
+} from '@bringup/shared';
+
+/**
+ * Roles Guard
+ * Allows a route only when the caller holds one of the roles it requires
+ * Configured per route or controller with @Roles()
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<UserRole[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!roles?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<{ user?: RequestUser }>();
+
+    if (!request.user?.roles.some((role) => roles.includes(role))) {
+      throw new ForbiddenException({
+        message: 'You do not have permission to access this resource',
+        code: AUTH_ERROR_CODES.INSUFFICIENT_ROLE,
+      });
+    }
+
+    return true;
+  }
+}
@@ -1,6 +1,16 @@
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { AppConfig, FirestoreConfig } from '@bringup/shared'; //types
+import {
+  AppConfig,
+  EmailConfig,
+  FirestoreConfig,
+  PushRetryConfig,
+  StorageConfig,
+  WebhookConfig,
+  ALERT_CHANNELS,
+  ALERT_PUSH_RETRY,
+  TASK_ATTACHMENTS,
+} from '@bringup/shared'; //types
 @Injectable()
 export class AppConfigService {
   constructor(private readonly configService: ConfigService) {}
@@ -21,6 +31,51 @@ export class AppConfigService {
     };
   }
 
+  get storageConfig(): StorageConfig {
+    return {
+      attachmentsDir:
+        this.configService.get<string>('ATTACHMENTS_DIR') ??
+        TASK_ATTACHMENTS.DEFAULT_LOCAL_DIR,
+    };
+  }
+
+  get pushRetryConfig(): PushRetryConfig {
+    return {
+      maxAttempts: Number(
+        this.configService.get('PUSH_RETRY_MAX_ATTEMPTS') ??
+          ALERT_PUSH_RETRY.DEFAULT_MAX_ATTEMPTS,
+      ),
+      baseDelayMs: Number(
+        this.configService.get('PUSH_RETRY_BASE_DELAY_MS') ??
+          ALERT_PUSH_RETRY.DEFAULT_BASE_DELAY_MS,
+      ),
+      maxDelayMs: Number(
+        this.configService.get('PUSH_RETRY_MAX_DELAY_MS') ??
+          ALERT_PUSH_RETRY.DEFAULT_MAX_DELAY_MS,
+      ),
+    };
+  }
+
+  get emailConfig(): EmailConfig {
+    return {
+      host: this.configService.get<string>('SMTP_HOST') ?? null,
+      port: Number(
+        this.configService.get('SMTP_PORT') ?? ALERT_CHANNELS.DEFAULT_SMTP_PORT,
+      ),
+      secure: this.configService.get('SMTP_SECURE') === 'true',
+      user: this.configService.get<string>('SMTP_USER') ?? null,
+      password: this.configService.get<string>('SMTP_PASS') ?? null,
+      from: this.configService.get<string>('SMTP_FROM') ?? null,
+    };
+  }
+
+  get webhookConfig(): WebhookConfig {
+    return {
+      signingSecret:
+        this.configService.get<string>('WEBHOOK_SIGNING_SECRET') ?? null,
+    };
+  }
+
   get isDevelopment(): boolean {
     return (
       process.env.NODE_ENV === 'development'
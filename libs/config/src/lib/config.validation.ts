@@ -3,7 +3,11 @@ import { plainToInstance, Transform, Type } from 'class-transformer';
 import {
   ArrayNotEmpty,
   IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
   IsNumber,
+  IsOptional,
   IsString,
   Matches,
   Max,
@@ -36,6 +40,55 @@ class EnvironmentVaribale {
   @NotEquals('*')
   ALLOWED_ORIGINS!: string[];
 
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt({ message: 'PUSH_RETRY_MAX_ATTEMPTS must be a whole number' })
+  @Min(1, { message: 'PUSH_RETRY_MAX_ATTEMPTS must be at least 1' })
+  PUSH_RETRY_MAX_ATTEMPTS?: number;
+
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt({ message: 'PUSH_RETRY_BASE_DELAY_MS must be a whole number' })
+  @Min(1000, { message: 'PUSH_RETRY_BASE_DELAY_MS must be at least 1000' })
+  PUSH_RETRY_BASE_DELAY_MS?: number;
+
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt({ message: 'PUSH_RETRY_MAX_DELAY_MS must be a whole number' })
+  @Min(1000, { message: 'PUSH_RETRY_MAX_DELAY_MS must be at least 1000' })
+  PUSH_RETRY_MAX_DELAY_MS?: number;
+
+  @IsOptional()
+  @IsString({ message: 'SMTP_HOST must be a string' })
+  SMTP_HOST?: string;
+
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt({ message: 'SMTP_PORT must be a whole number' })
+  @Min(1, { message: 'SMTP_PORT must be at least 1' })
+  @Max(65535, { message: 'SMTP_PORT must be less than 65535' })
+  SMTP_PORT?: number;
+
+  @IsOptional()
+  @IsIn(['true', 'false'], { message: 'SMTP_SECURE must be true or false' })
+  SMTP_SECURE?: string;
+
+  @IsOptional()
+  @IsString({ message: 'SMTP_USER must be a string' })
+  SMTP_USER?: string;
+
+  @IsOptional()
+  @IsString({ message: 'SMTP_PASS must be a string' })
+  SMTP_PASS?: string;
+
+  @ValidateIf((env) => !!env.SMTP_HOST)
+  @IsString({ message: 'SMTP_FROM must be a string' })
+  @IsNotEmpty({ message: 'SMTP_FROM is required when SMTP_HOST is set' })
+  SMTP_FROM?: string;
+
+  @IsOptional()
+  @IsString({ message: 'WEBHOOK_SIGNING_SECRET must be a string' })
+  WEBHOOK_SIGNING_SECRET?: string;
   
 }
 
@@ -1,3 +1,5 @@
 export * from './lib/database.module';
 export * from './lib/database-health.service';
 export * from './lib/database-health.controller';
+export * from './lib/distributed-lock.service';
+export * from './lib/resumable-job.service';
@@ -5,6 +5,8 @@ import { FIRESTORE_TOKEN } from '@bringup/shared';
 import { AppConfigService } from '@bringup/config';
 import { AppLogger } from '@bringup/logger';
 import { DatabaseHealthService } from './database-health.service';
+import { DistributedLockService } from './distributed-lock.service';
+import { ResumableJobService } from './resumable-job.service';
 import { HealthController } from './database-health.controller';
 
 
@@ -55,8 +57,15 @@ import { HealthController } from './database-health.controller';
       },
     },
     DatabaseHealthService,
+    DistributedLockService,
+    ResumableJobService,
+  ],
+  exports: [
+    FIRESTORE_TOKEN,
+    DatabaseHealthService,
+    DistributedLockService,
+    ResumableJobService,
   ],
-  exports: [FIRESTORE_TOKEN, DatabaseHealthService],
 })
 export class DatabaseModule implements OnModuleInit, OnModuleDestroy {
   private readonly dbLogger: AppLogger;
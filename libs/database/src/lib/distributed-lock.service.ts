@@ -0,0 +1,112 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { Firestore } from 'firebase-admin/firestore';
+import { AppLogger } from '@bringup/logger';
+import {
+  DATABASE_COLLECTIONS,
+  DistributedLockDocument,
+  FIRESTORE_TOKEN,
+} from '@bringup/shared';
+
+/**
+ * Lease-based lock stored in Firestore
+ * Lets scheduled jobs run on a single instance when the API is scaled out
+ */
+@Injectable()
+export class DistributedLockService {
+  private readonly lockLogger: AppLogger;
+  private readonly instanceId = `${hostname()}:${process.pid}:${randomUUID()}`;
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN) private readonly firestore: Firestore,
+    private readonly logger: AppLogger,
+  ) {
+    this.lockLogger = this.logger.forContext('DistributedLock');
+  }
+
+  /**
+   * Try to acquire a lock, returns the lease token or null while any live
+   * lease exists, including one held by this instance
+   */
+  async acquire(name: string, ttlMs: number): Promise<string | null> {
+    const lockRef = this.firestore
+      .collection(DATABASE_COLLECTIONS.LOCKS)
+      .doc(name);
+
+    // Each lease gets its own token so a run that overlaps an earlier one on
+    // this instance neither takes the lock again nor releases it
+    const token = `${this.instanceId}:${randomUUID()}`;
+
+    return this.firestore.runTransaction(async (transaction) => {
+      const lockDoc = await transaction.get(lockRef);
+      const now = Date.now();
+
+      if (
+        lockDoc.exists &&
+        (lockDoc.data() as DistributedLockDocument).expiresAt > now
+      ) {
+        return null;
+      }
+
+      const lock: DistributedLockDocument = {
+        holder: token,
+        acquiredAt: now,
+        expiresAt: now + ttlMs,
+      };
+      transaction.set(lockRef, lock);
+      return token;
+    });
+  }
+
+  /**
+   * Release a lock if the lease with this token still holds it
+   */
+  async release(name: string, token: string): Promise<void> {
+    const lockRef = this.firestore
+      .collection(DATABASE_COLLECTIONS.LOCKS)
+      .doc(name);
+
+    await this.firestore.runTransaction(async (transaction) => {
+      const lockDoc = await transaction.get(lockRef);
+      if (
+        lockDoc.exists &&
+        (lockDoc.data() as DistributedLockDocument).holder === token
+      ) {
+        transaction.delete(lockRef);
+      }
+    });
+  }
+
+  /**
+   * Run a task while holding the lock
+   * Returns null without running the task when the lock is held elsewhere
+   */
+  async runExclusive<T>(
+    name: string,
+    ttlMs: number,
+    task: () => Promise<T>,
+  ): Promise<T | null> {
+    let token: string | null = null;
+
+    try {
+      token = await this.acquire(name, ttlMs);
+    } catch (error) {
+      this.lockLogger.error(`Failed to acquire lock "${name}"`, error as Error);
+      return null;
+    }
+
+    if (!token) {
+      this.lockLogger.debug(`Lock "${name}" is already held`);
+      return null;
+    }
+
+    try {
+      return await task();
+    } finally {
+      await this.release(name, token).catch((error: Error) =>
+        this.lockLogger.error(`Failed to release lock "${name}"`, error),
+      );
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { FieldValue, Firestore, Timestamp } from 'firebase-admin/firestore';
+import type { QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { AppLogger } from '@bringup/logger';
+import {
+  FIRESTORE_TOKEN,
+  ResumableJob,
+  ResumableJobDocument,
+} from '@bringup/shared';
+import { DistributedLockService } from './distributed-lock.service';
+
+/**
+ * Runs queued jobs stored in Firestore a page at a time
+ * Only one instance runs a kind of job at a time, and each page's state and
+ * progress are saved before the next so a stopped run loses nothing
+ */
+@Injectable()
+export class ResumableJobService {
+  private readonly jobLogger: AppLogger;
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN) private readonly firestore: Firestore,
+    private readonly lockService: DistributedLockService,
+    private readonly logger: AppLogger,
+  ) {
+    this.jobLogger = this.logger.forContext('ResumableJob');
+  }
+
+  /**
+   * Run queued jobs of a kind, oldest first, until the run's time is up
+   * Returns the number of jobs finished, or null when another run holds the
+   * lock
+   */
+  async run<T extends ResumableJobDocument>(
+    job: ResumableJob<T>,
+  ): Promise<number | null> {
+    try {
+      return await this.lockService.runExclusive(
+        job.lockName,
+        job.lockTtlMs,
+        () => this.processJobs(job),
+      );
+    } catch (error) {
+      this.jobLogger.error(`${job.name} run failed`, error as Error);
+      return null;
+    }
+  }
+
+  /**
+   * Start a run for a job just queued without waiting for it
+   * The scheduled run picks the job up if this one can't take the lock
+   */
+  start<T extends ResumableJobDocument>(job: ResumableJob<T>): void {
+    void this.run(job);
+  }
+
+  private async processJobs<T extends ResumableJobDocument>(
+    job: ResumableJob<T>,
+  ): Promise<number> {
+    const deadline = Date.now() + job.maxRunMs;
+    let finishedCount = 0;
+
+    while (Date.now() < deadline) {
+      const snapshot = await this.firestore
+        .collection(job.collection)
+        .where('status', 'in', [job.statuses.PENDING, job.statuses.RUNNING])
+        .orderBy(job.orderBy, 'asc')
+        .limit(1)
+        .get();
+
+      if (snapshot.empty) {
+        break;
+      }
+
+      if (!(await this.runJob(job, snapshot.docs[0], deadline))) {
+        break;
+      }
+      finishedCount++;
+    }
+
+    return finishedCount;
+  }
+
+  /**
+   * Run one job page by page, saving its state after each page
+   * Returns whether it finished, for good or failed, before the deadline
+   */
+  private async runJob<T extends ResumableJobDocument>(
+    job: ResumableJob<T>,
+    doc: QueryDocumentSnapshot,
+    deadline: number,
+  ): Promise<boolean> {
+    let data = doc.data() as T;
+
+    if (data.status === job.statuses.PENDING) {
+      await doc.ref.update({
+        status: job.statuses.RUNNING,
+        startedAt: data.startedAt ?? Timestamp.now(),
+        updatedAt: Timestamp.now(),
+      });
+    }
+
+    try {
+      while (Date.now() < deadline) {
+        const page = await job.runPage(doc.id, data);
+        data = { ...data, ...page.state };
+
+        const update: Record<string, unknown> = {
+          ...page.state,
+          updatedAt: Timestamp.now(),
+          ...this.toIncrements(page.progress),
+        };
+        if (page.done) {
+          Object.assign(update, {
+            status: job.statuses.COMPLETED,
+            error: null,
+            finishedAt: Timestamp.now(),
+          });
+        }
+        await doc.ref.update(update);
+
+        if (page.done) {
+          this.jobLogger.log(`${job.name} ${doc.id} completed`);
+          return true;
+        }
+      }
+    } catch (error) {
+      const { update, failed } = job.onError(data);
+      this.jobLogger.error(`${job.name} ${doc.id} failed`, error as Error);
+      await doc.ref.update({
+        ...update,
+        error: (error as Error).message,
+        updatedAt: Timestamp.now(),
+        ...(failed && {
+          status: job.statuses.FAILED,
+          finishedAt: Timestamp.now(),
+        }),
+      });
+      return failed;
+    }
+
+    return false;
+  }
+
+  /**
+   * Progress of a page as increments of the stored counts
+   */
+  private toIncrements(progress: object): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(progress)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => [
+          `progress.${key}`,
+          FieldValue.increment(value as number),
+        ]),
+    );
+  }
+}
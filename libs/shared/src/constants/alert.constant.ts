@@ -1,3 +1,9 @@
+import {
+  NotificationLocale,
+  NotificationPriority,
+  NotificationType,
+} from '../types/alert';
+
 /**
  * Alert/Notification Constants
  * Centralized notification-related constants for the application
@@ -13,6 +19,12 @@
 export const ALERT_COLLECTIONS = {
   /** Notifications collection */
   NOTIFICATIONS: 'notifications',
+  /** Per-user notification preferences */
+  PREFERENCES: 'notification_preferences',
+  /** History of notification retention runs */
+  RETENTION_RUNS: 'notification_retention_runs',
+  /** System alert broadcasts and their progress */
+  BROADCASTS: 'notification_broadcasts',
 } as const;
 
 /**
@@ -41,6 +53,20 @@ export const ALERT_PAGINATION_DEFAULTS = {
  */
 export const DEFAULT_NOTIFICATION_LIMIT = 50;
 
+// ==========================================
+// BULK OPERATIONS
+// ==========================================
+
+/**
+ * Limits of operations on several notifications
+ */
+export const ALERT_BULK = {
+  /** IDs accepted per request */
+  MAX_IDS: 500,
+  /** Writes per Firestore batch (Firestore limit) */
+  BATCH_SIZE: 500,
+} as const;
+
 // ==========================================
 // RETENTION SETTINGS
 // ==========================================
@@ -49,15 +75,71 @@ export const DEFAULT_NOTIFICATION_LIMIT = 50;
  * Notification retention settings
  */
 export const ALERT_RETENTION = {
-  /** Days to keep notifications before cleanup */
+  /** Days to keep notifications of a type without its own retention */
   RETENTION_DAYS: 30,
+  /** How often the retention job runs */
+  INTERVAL_MS: 6 * 60 * 60 * 1000,
+  /** Notifications deleted per page */
+  BATCH_SIZE: 500,
+  /** Runs returned by the run history endpoint */
+  RUN_HISTORY_LIMIT: 20,
+  /** Distributed lock name */
+  LOCK_NAME: 'notification-retention',
+  /** Lock lease duration (must exceed a full run) */
+  LOCK_TTL_MS: 30 * 60 * 1000,
 } as const;
 
+/**
+ * Days to keep notifications of each type
+ * Short-lived nudges go first, records of work done stay longest
+ */
+export const ALERT_RETENTION_DAYS: Record<NotificationType, number> = {
+  [NotificationType.TASK_ASSIGNED]: 90,
+  [NotificationType.TASK_REACTION]: 14,
+  [NotificationType.TASK_COMPLETED]: 90,
+  [NotificationType.TASK_REMINDER]: 7,
+  [NotificationType.TASK_UPDATED]: 30,
+  [NotificationType.TASK_DELETED]: 30,
+  [NotificationType.TASK_CANCELLED]: 30,
+  [NotificationType.TASK_EXPIRED]: 30,
+  [NotificationType.TASK_COMMENT]: 60,
+  [NotificationType.TASK_REVIEW]: 90,
+  [NotificationType.SYSTEM_ALERT]: 180,
+};
+
 /**
  * @deprecated Use ALERT_RETENTION.RETENTION_DAYS instead
  */
 export const NOTIFICATION_RETENTION_DAYS = 30;
 
+// ==========================================
+// BROADCAST SETTINGS
+// ==========================================
+
+/**
+ * System alert broadcast settings
+ */
+export const ALERT_BROADCAST = {
+  /** How often pending broadcasts are picked up */
+  INTERVAL_MS: 60 * 1000,
+  /** Users handled per page */
+  BATCH_SIZE: 100,
+  /** Time a run keeps paging before leaving the rest to the next run */
+  MAX_RUN_MS: 4 * 60 * 1000,
+  /** Users accepted in a UIDS broadcast */
+  MAX_UIDS: 1000,
+  /** Maximum title length */
+  TITLE_MAX_LENGTH: 100,
+  /** Maximum body length */
+  BODY_MAX_LENGTH: 1000,
+  /** Broadcasts returned by the history endpoint */
+  HISTORY_LIMIT: 20,
+  /** Distributed lock name */
+  LOCK_NAME: 'notification-broadcast',
+  /** Lock lease duration (must exceed a full run) */
+  LOCK_TTL_MS: 5 * 60 * 1000,
+} as const;
+
 // ==========================================
 // PUSH NOTIFICATION SETTINGS
 // ==========================================
@@ -70,6 +152,84 @@ export const ALERT_PUSH_CONFIG = {
   CHANNEL_ID: 'task_notifications',
   /** Default sound */
   SOUND: 'default',
+  /** Maximum comment characters shown in a comment notification */
+  COMMENT_PREVIEW_LENGTH: 120,
+} as const;
+
+/**
+ * Injection token for the Expo push client
+ */
+export const EXPO_CLIENT_TOKEN = 'EXPO_CLIENT';
+
+/**
+ * Injection token for the list of notification channel senders
+ */
+export const NOTIFICATION_CHANNELS_TOKEN = 'NOTIFICATION_CHANNELS';
+
+/**
+ * Notification channel settings
+ */
+export const ALERT_CHANNELS = {
+  /** Webhook request timeout */
+  WEBHOOK_TIMEOUT_MS: 5 * 1000,
+  /** Header carrying the HMAC-SHA256 signature of a webhook body */
+  WEBHOOK_SIGNATURE_HEADER: 'X-Bringup-Signature',
+  /** Default SMTP port */
+  DEFAULT_SMTP_PORT: 587,
+  /** Types emailed when the recipient has no device to push to */
+  EMAIL_FALLBACK_TYPES: [
+    NotificationType.TASK_ASSIGNED,
+  ] as readonly NotificationType[],
+} as const;
+
+/**
+ * Expo push receipt polling settings
+ */
+export const ALERT_PUSH_RECEIPTS = {
+  /** How often receipts are polled */
+  INTERVAL_MS: 5 * 60 * 1000,
+  /** Wait before asking for a receipt (Expo suggests ~15 minutes) */
+  MIN_AGE_MS: 15 * 60 * 1000,
+  /** Receipts older than this are no longer kept by Expo */
+  MAX_AGE_MS: 24 * 60 * 60 * 1000,
+  /** Notifications checked per page */
+  BATCH_SIZE: 300,
+  /** Distributed lock name */
+  LOCK_NAME: 'push-receipt-poll',
+  /** Lock lease duration (must exceed a full poll) */
+  LOCK_TTL_MS: 5 * 60 * 1000,
+  /** Expo error for tokens of uninstalled apps */
+  DEVICE_NOT_REGISTERED: 'DeviceNotRegistered',
+} as const;
+
+/**
+ * Retry settings for failed push notifications
+ * Attempt count and delays can be overridden with PUSH_RETRY_* env variables
+ */
+export const ALERT_PUSH_RETRY = {
+  /** How often due retries are processed */
+  INTERVAL_MS: 60 * 1000,
+  /** Notifications retried per run */
+  BATCH_SIZE: 100,
+  /** Default total delivery attempts, including the first send */
+  DEFAULT_MAX_ATTEMPTS: 5,
+  /** Default delay before the first retry (doubles each attempt) */
+  DEFAULT_BASE_DELAY_MS: 30 * 1000,
+  /** Default upper bound for a single retry delay */
+  DEFAULT_MAX_DELAY_MS: 60 * 60 * 1000,
+  /** Time a send in progress may take before it is picked up again */
+  SEND_LEASE_MS: 2 * 60 * 1000,
+  /** Distributed lock name */
+  LOCK_NAME: 'push-retry',
+  /** Lock lease duration (must exceed a full run) */
+  LOCK_TTL_MS: 5 * 60 * 1000,
+  /** Expo errors that no retry can fix */
+  PERMANENT_EXPO_ERRORS: [
+    'DeviceNotRegistered',
+    'InvalidCredentials',
+    'MessageTooBig',
+    'DeveloperError',
+  ] as readonly string[],
 } as const;
 
 /**
@@ -77,6 +237,107 @@ export const ALERT_PUSH_CONFIG = {
  */
 export const NOTIFICATION_CHANNEL_ID = 'task_notifications';
 
+/**
+ * Sender UID used for notifications raised by the system (e.g. scheduled jobs)
+ */
+export const ALERT_SYSTEM_SENDER_UID = 'system';
+
+/**
+ * Default priority of each notification type
+ * High priority notifications are pushed right away even in digest mode
+ */
+export const ALERT_TYPE_PRIORITIES: Record<
+  NotificationType,
+  NotificationPriority
+> = {
+  [NotificationType.TASK_ASSIGNED]: NotificationPriority.HIGH,
+  [NotificationType.TASK_REACTION]: NotificationPriority.LOW,
+  [NotificationType.TASK_COMPLETED]: NotificationPriority.DEFAULT,
+  [NotificationType.TASK_REMINDER]: NotificationPriority.HIGH,
+  [NotificationType.TASK_UPDATED]: NotificationPriority.DEFAULT,
+  [NotificationType.TASK_DELETED]: NotificationPriority.DEFAULT,
+  [NotificationType.TASK_CANCELLED]: NotificationPriority.DEFAULT,
+  [NotificationType.TASK_EXPIRED]: NotificationPriority.DEFAULT,
+  [NotificationType.TASK_COMMENT]: NotificationPriority.DEFAULT,
+  [NotificationType.TASK_REVIEW]: NotificationPriority.DEFAULT,
+  [NotificationType.SYSTEM_ALERT]: NotificationPriority.HIGH,
+};
+
+/**
+ * Notification types sent at most once per task and recipient
+ */
+export const ALERT_IDEMPOTENT_TYPES: readonly NotificationType[] = [
+  NotificationType.TASK_ASSIGNED,
+  NotificationType.TASK_COMPLETED,
+  NotificationType.TASK_DELETED,
+  NotificationType.TASK_CANCELLED,
+  NotificationType.TASK_EXPIRED,
+];
+
+// ==========================================
+// NOTIFICATION PREFERENCES
+// ==========================================
+
+/**
+ * Notification preference defaults and limits
+ */
+export const ALERT_PREFERENCES = {
+  /** Time zone used until the user sets one */
+  DEFAULT_TIME_ZONE: 'UTC',
+  /** Maximum quiet hours windows per user */
+  MAX_QUIET_HOURS_WINDOWS: 5,
+  /** Maximum muted tasks per user */
+  MAX_MUTED_TASKS: 200,
+  /** Local time daily digests go out until the user sets one */
+  DEFAULT_DAILY_DIGEST_TIME: '09:00',
+} as const;
+
+/**
+ * Digest push settings
+ */
+export const ALERT_DIGEST = {
+  /** How often due digests are sent */
+  INTERVAL_MS: 60 * 1000,
+  /** Queued notifications handled per run */
+  BATCH_SIZE: 500,
+  /** Delay before checking again when a digest falls in quiet hours */
+  QUIET_HOURS_DELAY_MS: 15 * 60 * 1000,
+  /** Notification types named in the digest body */
+  SUMMARY_TYPE_COUNT: 3,
+  /** Payload type of a digest push */
+  DATA_TYPE: 'notification_digest',
+  /** Distributed lock name */
+  LOCK_NAME: 'notification-digest',
+  /** Lock lease duration (must exceed a full run) */
+  LOCK_TTL_MS: 5 * 60 * 1000,
+} as const;
+
+/**
+ * Reasons recorded on notifications whose push was held back
+ */
+export const ALERT_SUPPRESSION_REASONS = {
+  /** Every channel turned off for the notification type */
+  TYPE_DISABLED: 'All channels disabled for this notification type',
+  /** Task muted by the recipient */
+  TASK_MUTED: 'Task muted',
+  /** Sent during the recipient's quiet hours */
+  QUIET_HOURS: 'Quiet hours',
+} as const;
+
+// ==========================================
+// NOTIFICATION TEMPLATES
+// ==========================================
+
+/**
+ * Notification template settings
+ */
+export const ALERT_TEMPLATES = {
+  /** Locale used when the user's locale has no copy */
+  DEFAULT_LOCALE: NotificationLocale.EN,
+  /** Variant of types with a single template */
+  DEFAULT_VARIANT: 'default',
+} as const;
+
 // ==========================================
 // ERROR CODES
 // ==========================================
@@ -97,6 +358,10 @@ export const ALERT_ERROR_CODES = {
   INVALID_TYPE: 'INVALID_TYPE',
   /** Access denied */
   ACCESS_DENIED: 'ACCESS_DENIED',
+  /** Broadcast not found */
+  BROADCAST_NOT_FOUND: 'BROADCAST_NOT_FOUND',
+  /** Webhook URL points at a private or local address */
+  WEBHOOK_URL_NOT_PUBLIC: 'WEBHOOK_URL_NOT_PUBLIC',
 } as const;
 
 export type AlertErrorCode =
@@ -122,6 +387,22 @@ export const ALERT_SUCCESS_MESSAGES = {
   CLEANUP_COMPLETED: 'Old notifications cleaned up',
 } as const;
 
+// ==========================================
+// REALTIME STREAM
+// ==========================================
+
+/**
+ * Server-Sent Events stream settings
+ */
+export const ALERT_REALTIME = {
+  /** Interval between heartbeat events (ms) */
+  HEARTBEAT_INTERVAL_MS: 25 * 1000,
+  /** Events kept per user for Last-Event-ID resume */
+  REPLAY_BUFFER_SIZE: 100,
+  /** How long events are kept for resume (ms) */
+  REPLAY_WINDOW_MS: 5 * 60 * 1000,
+} as const;
+
 // ==========================================
 // ERROR MESSAGES
 // ==========================================
@@ -140,4 +421,8 @@ export const ALERT_ERROR_MESSAGES = {
   PUSH_FAILED: 'Failed to send push notification',
   /** Access denied */
   ACCESS_DENIED: 'You do not have access to this notification',
+  /** Broadcast not found */
+  BROADCAST_NOT_FOUND: 'Broadcast not found',
+  /** Webhook URL points at a private or local address */
+  WEBHOOK_URL_NOT_PUBLIC: 'Webhook URL must resolve to a public address',
 } as const;
@@ -1,3 +1,5 @@
+import { UserRole } from '../types/auth';
+
 /**
  * Auth Constants
  * Centralized authentication-related constants for the application
@@ -8,6 +10,26 @@
  */
 export const IS_PUBLIC_KEY = 'isPublic';
 
+/**
+ * Metadata key for routes limited to the owner of a resource
+ */
+export const OWNED_RESOURCE_KEY = 'ownedResource';
+
+/**
+ * Metadata key for routes limited to users holding a role
+ */
+export const ROLES_KEY = 'roles';
+
+/**
+ * Role settings
+ */
+export const AUTH_ROLES = {
+  /** Custom claim holding the user's elevated roles */
+  CLAIM: 'roles',
+  /** Role every authenticated user holds */
+  DEFAULT_ROLE: UserRole.USER,
+} as const;
+
 /**
  * Application-level authentication error codes
  */
@@ -30,6 +52,16 @@ export const AUTH_ERROR_CODES = {
   FCM_UPDATE_FAILED: 'FCM_UPDATE_FAILED',
   /** Logout failed */
   LOGOUT_FAILED: 'LOGOUT_FAILED',
+  /** Resource of an ownership check not found */
+  RESOURCE_NOT_FOUND: 'RESOURCE_NOT_FOUND',
+  /** Caller doesn't own the resource */
+  ACCESS_DENIED: 'ACCESS_DENIED',
+  /** Caller doesn't hold a role the route requires */
+  INSUFFICIENT_ROLE: 'INSUFFICIENT_ROLE',
+  /** Role can't be granted or revoked */
+  ROLE_NOT_ASSIGNABLE: 'ROLE_NOT_ASSIGNABLE',
+  /** Admins can't revoke their own admin role */
+  CANNOT_REVOKE_OWN_ADMIN: 'CANNOT_REVOKE_OWN_ADMIN',
 } as const;
 
 export type AuthErrorCode = (typeof AUTH_ERROR_CODES)[keyof typeof AUTH_ERROR_CODES];
@@ -61,6 +93,8 @@ export type FirebaseAuthError = (typeof FIREBASE_AUTH_ERRORS)[keyof typeof FIREB
  */
 export const AUTH_COLLECTIONS = {
   USERS: 'users',
+  /** Account deletion jobs, keyed by user ID */
+  ACCOUNT_DELETIONS: 'account_deletions',
 } as const;
 
 /**
@@ -71,8 +105,34 @@ export const AUTH_DEFAULTS = {
   DEFAULT_NAME: 'Anonymous',
   /** Default photo URL */
   DEFAULT_PHOTO: '',
+  /** Default locale when the device doesn't report one */
+  DEFAULT_LOCALE: 'en',
+  /** Maximum display name length */
+  NAME_MAX_LENGTH: 100,
   /** Search results limit */
   SEARCH_LIMIT: 10,
+  /** Devices kept per user; the least recently seen is dropped beyond this */
+  MAX_DEVICES_PER_USER: 10,
+} as const;
+
+/**
+ * Account deletion job settings
+ */
+export const AUTH_ACCOUNT_DELETION = {
+  /** How often pending deletions are picked up */
+  INTERVAL_MS: 60 * 1000,
+  /** Documents handled per page */
+  BATCH_SIZE: 200,
+  /** Time a run keeps paging before leaving the rest to the next run */
+  MAX_RUN_MS: 4 * 60 * 1000,
+  /** Failed runs before a deletion is marked failed */
+  MAX_ATTEMPTS: 5,
+  /** Name that replaces a deleted user's name in other users' data */
+  DELETED_USER_NAME: 'Deleted user',
+  /** Distributed lock name */
+  LOCK_NAME: 'account-deletion',
+  /** Lock lease duration (must exceed a full run) */
+  LOCK_TTL_MS: 5 * 60 * 1000,
 } as const;
 
 /**
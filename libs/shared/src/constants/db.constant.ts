@@ -1,2 +1,18 @@
 // Injection tokens for database providers
 export const FIRESTORE_TOKEN = 'FIRESTORE_CONNECTION';
+
+/**
+ * Internal Firestore collections used by the database layer
+ */
+export const DATABASE_COLLECTIONS = {
+  /** Distributed locks for scheduled jobs */
+  LOCKS: '_locks',
+} as const;
+
+/**
+ * gRPC status codes returned on Firestore errors
+ */
+export const FIRESTORE_ERROR_CODES = {
+  /** create() found an existing document */
+  ALREADY_EXISTS: 6,
+} as const;
@@ -15,6 +15,12 @@ export const TASK_COLLECTIONS = {
   TASKS: 'tasks',
   /** Users collection (for task user lookup) */
   USERS: 'users',
+  /** Recurring task series */
+  RECURRING_TASKS: 'recurring_tasks',
+  /** Comments subcollection under each task */
+  COMMENTS: 'comments',
+  /** Append-only task history (top level so it outlives deleted tasks) */
+  TASK_EVENTS: 'task_events',
 } as const;
 
 // ==========================================
@@ -35,6 +41,18 @@ export const TASK_PAGINATION_DEFAULTS = {
   MAX_LIMIT: 100,
 } as const;
 
+/**
+ * Task comment pagination defaults (cursor based, oldest first)
+ */
+export const TASK_COMMENT_PAGINATION_DEFAULTS = {
+  /** Default comments per page */
+  DEFAULT_LIMIT: 20,
+  /** Minimum comments per page */
+  MIN_LIMIT: 1,
+  /** Maximum comments per page */
+  MAX_LIMIT: 100,
+} as const;
+
 // ==========================================
 // TIME CONSTANTS
 // ==========================================
@@ -71,6 +89,66 @@ export const TASK_TIME_MINUTES = {
   MAX_EXTENSIONS: 3,
 } as const;
 
+/**
+ * Background sweep that moves overdue pending tasks to expired
+ */
+export const TASK_EXPIRY_SWEEP = {
+  /** How often the sweep runs */
+  INTERVAL_MS: 60 * 1000,
+  /** Tasks expired per page */
+  BATCH_SIZE: 200,
+  /** Distributed lock name */
+  LOCK_NAME: 'task-expiry-sweep',
+  /** Lock lease duration (must exceed a full sweep) */
+  LOCK_TTL_MS: 5 * 60 * 1000,
+} as const;
+
+/**
+ * Pre-expiry reminders sent to the assignee
+ */
+export const TASK_REMINDERS = {
+  /** Remind once this fraction of the duration has elapsed */
+  ELAPSED_FRACTIONS: [0.5],
+  /** Remind this many minutes before expiry */
+  MINUTES_BEFORE_EXPIRY: [5],
+  /** How often due reminders are dispatched */
+  INTERVAL_MS: 60 * 1000,
+  /** Reminders dispatched per page */
+  BATCH_SIZE: 200,
+  /** Distributed lock name */
+  LOCK_NAME: 'task-reminder-dispatch',
+  /** Lock lease duration (must exceed a full dispatch run) */
+  LOCK_TTL_MS: 5 * 60 * 1000,
+} as const;
+
+/**
+ * Recurring task series settings
+ */
+export const RECURRING_TASKS = {
+  /** How often due series are checked */
+  INTERVAL_MS: 60 * 1000,
+  /** Series processed per page */
+  BATCH_SIZE: 100,
+  /** Distributed lock name */
+  LOCK_NAME: 'recurring-task-runner',
+  /** Lock lease duration (must exceed a full run) */
+  LOCK_TTL_MS: 5 * 60 * 1000,
+  /** Maximum series a user may own */
+  MAX_SERIES_PER_USER: 50,
+  /** Maximum RRULE interval */
+  MAX_INTERVAL: 52,
+  /** How far ahead to search for the next occurrence (days) */
+  MAX_LOOKAHEAD_DAYS: 7 * 53,
+} as const;
+
+/**
+ * Task history settings
+ */
+export const TASK_EVENTS = {
+  /** Actor UID recorded for changes made by background jobs */
+  SYSTEM_ACTOR: 'system',
+} as const;
+
 // ==========================================
 // VALIDATION CONSTANTS
 // ==========================================
@@ -87,6 +165,41 @@ export const TASK_VALIDATION = {
   NOTE_MIN_LENGTH: 0,
   /** Maximum note length */
   NOTE_MAX_LENGTH: 1000,
+  /** Maximum number of assignees per task */
+  MAX_ASSIGNEES: 20,
+  /** Maximum comment length */
+  COMMENT_MAX_LENGTH: 2000,
+  /** Maximum rejection reason length */
+  REJECTION_REASON_MAX_LENGTH: 500,
+} as const;
+
+// ==========================================
+// ATTACHMENT CONSTANTS
+// ==========================================
+
+/**
+ * Injection token for the attachment storage backend
+ */
+export const ATTACHMENT_STORAGE_TOKEN = 'ATTACHMENT_STORAGE';
+
+/**
+ * Task attachment limits
+ */
+export const TASK_ATTACHMENTS = {
+  /** Maximum file size (10 MB) */
+  MAX_FILE_SIZE_BYTES: 10 * 1024 * 1024,
+  /** Maximum number of attachments per task */
+  MAX_PER_TASK: 10,
+  /** Accepted MIME types */
+  ALLOWED_MIME_TYPES: [
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'image/heic',
+    'application/pdf',
+  ] as readonly string[],
+  /** Default local storage directory (relative to the working directory) */
+  DEFAULT_LOCAL_DIR: 'uploads/attachments',
 } as const;
 
 // ==========================================
@@ -159,6 +272,36 @@ export const TASK_SUCCESS_MESSAGES = {
   TASKS_RETRIEVED: 'Tasks retrieved successfully',
   /** Time extended */
   TIME_EXTENDED: 'Task time extended by 30 minutes',
+  /** Task submitted for the creator's approval */
+  TASK_SUBMITTED_FOR_REVIEW: 'Task submitted for approval',
+  /** Task approved */
+  TASK_APPROVED: 'Task approved and completed',
+  /** Task rejected */
+  TASK_REJECTED: 'Task sent back to the assignees',
+  /** Task history retrieved */
+  HISTORY_RETRIEVED: 'Task history retrieved successfully',
+  /** Comment posted */
+  COMMENT_CREATED: 'Comment posted successfully',
+  /** Comments retrieved */
+  COMMENTS_RETRIEVED: 'Comments retrieved successfully',
+  /** Comment edited */
+  COMMENT_UPDATED: 'Comment updated successfully',
+  /** Comment deleted */
+  COMMENT_DELETED: 'Comment deleted successfully',
+  /** Attachment uploaded */
+  ATTACHMENT_UPLOADED: 'Attachment uploaded successfully',
+  /** Attachment deleted */
+  ATTACHMENT_DELETED: 'Attachment deleted successfully',
+  /** Recurring series created */
+  SERIES_CREATED: 'Recurring task created successfully',
+  /** Recurring series list retrieved */
+  SERIES_RETRIEVED: 'Recurring tasks retrieved successfully',
+  /** Recurring series paused */
+  SERIES_PAUSED: 'Recurring task paused',
+  /** Recurring series resumed */
+  SERIES_RESUMED: 'Recurring task resumed',
+  /** Recurring series deleted */
+  SERIES_DELETED: 'Recurring task deleted successfully',
 } as const;
 
 // ==========================================
@@ -177,6 +320,8 @@ export const TASK_ERROR_MESSAGES = {
   ASSIGNEE_NOT_FOUND: (email: string) => `User with email ${email} not found`,
   /** Self assignment error */
   SELF_ASSIGNMENT: 'Cannot assign task to yourself',
+  /** No assignee given */
+  ASSIGNEE_REQUIRED: 'At least one assignee is required',
   /** Access denied */
   ACCESS_DENIED: 'You do not have access to this task',
   /** Creator only */
@@ -203,6 +348,54 @@ export const TASK_ERROR_MESSAGES = {
   ONLY_ASSIGNEE_CAN_COMPLETE: 'Only assignee can mark task as completed',
   /** Only creator can delete */
   ONLY_CREATOR_CAN_DELETE: 'Only task creator can delete the task',
+  /** Assignee already completed their part */
+  ASSIGNEE_ALREADY_COMPLETED: 'You have already completed this task',
+  /** Only creator can edit */
+  ONLY_CREATOR_CAN_EDIT: 'Only task creator can edit the task',
+  /** Only pending tasks can be edited */
+  CANNOT_EDIT: 'Only pending tasks can be edited',
+  /** Edit request without changes */
+  NO_CHANGES: 'Provide at least one field to update',
+  /** New duration has already elapsed */
+  DURATION_ELAPSED: 'New duration has already elapsed for this task',
+  /** Status cannot be set directly */
+  INVALID_STATUS_TRANSITION: 'Task cannot be moved to this status directly',
+  /** Task waiting for approval */
+  AWAITING_REVIEW: 'Task is awaiting the creator\'s approval',
+  /** Approve or reject a task that is not waiting */
+  NOT_AWAITING_REVIEW: 'Task is not awaiting approval',
+  /** Only creator can approve or reject */
+  ONLY_CREATOR_CAN_REVIEW: 'Only task creator can approve or reject the task',
+  /** Comment not found */
+  COMMENT_NOT_FOUND: 'Comment not found',
+  /** Only the author can change a comment */
+  ONLY_AUTHOR_CAN_MODIFY_COMMENT: 'Only the author can edit or delete a comment',
+  /** Upload without a file */
+  ATTACHMENT_REQUIRED: 'A file is required',
+  /** File too large */
+  ATTACHMENT_TOO_LARGE: `File cannot exceed ${TASK_ATTACHMENTS.MAX_FILE_SIZE_BYTES / (1024 * 1024)} MB`,
+  /** MIME type not accepted */
+  ATTACHMENT_TYPE_NOT_ALLOWED: `Only ${TASK_ATTACHMENTS.ALLOWED_MIME_TYPES.join(', ')} files are allowed`,
+  /** Attachment limit reached */
+  MAX_ATTACHMENTS: `A task can have at most ${TASK_ATTACHMENTS.MAX_PER_TASK} attachments`,
+  /** Attachment not found */
+  ATTACHMENT_NOT_FOUND: 'Attachment not found',
+  /** Only the uploader or creator can remove an attachment */
+  ONLY_UPLOADER_CAN_DELETE_ATTACHMENT: 'Only the uploader or task creator can delete an attachment',
+  /** Recurring series not found */
+  SERIES_NOT_FOUND: 'Recurring task not found',
+  /** Only the series owner can manage it */
+  ONLY_CREATOR_CAN_MANAGE_SERIES: 'Only the creator can manage a recurring task',
+  /** Series already paused */
+  SERIES_ALREADY_PAUSED: 'Recurring task is already paused',
+  /** Series already active */
+  SERIES_ALREADY_ACTIVE: 'Recurring task is already active',
+  /** Series limit reached */
+  MAX_SERIES: 'Maximum number of recurring tasks reached',
+  /** Rule never produces an occurrence */
+  NO_UPCOMING_OCCURRENCE: 'Recurrence rule has no upcoming occurrence',
+  /** Unsupported or malformed RRULE */
+  INVALID_RRULE: (reason: string) => `Invalid recurrence rule: ${reason}`,
 } as const;
 
 // ==========================================
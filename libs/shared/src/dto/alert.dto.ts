@@ -1,3 +1,33 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsMilitaryTime,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  BroadcastTarget,
+  NotificationDelivery,
+  NotificationLocale,
+  NotificationType,
+} from '../types/alert';
+import {
+  ALERT_BROADCAST,
+  ALERT_BULK,
+  ALERT_PREFERENCES,
+} from '../constants/alert.constant';
+
 /**
  * Alert/Notification DTOs
  * Data Transfer Objects for notification-related API requests
@@ -11,6 +41,176 @@ export interface IGetNotificationsQuery {
   limit?: string;
   /** Whether to fetch only unread notifications */
   unreadOnly?: string;
+  /** Filter by notification type */
+  type?: string;
+  /** Only notifications created at or after this time (ISO 8601) */
+  from?: string;
+  /** Only notifications created at or before this time (ISO 8601) */
+  to?: string;
   /** Pagination cursor (last notification ID) */
   cursor?: string;
 }
+
+// ==========================================
+// BULK OPERATION DTOS
+// ==========================================
+
+/**
+ * DTO for acting on a set of notifications
+ * IDs that aren't the caller's are skipped
+ */
+export class NotificationIdsDto {
+  @IsArray({ message: 'IDs must be an array' })
+  @ArrayNotEmpty({ message: 'At least one ID is required' })
+  @ArrayMaxSize(ALERT_BULK.MAX_IDS, {
+    message: `At most ${ALERT_BULK.MAX_IDS} notifications can be changed at once`,
+  })
+  @IsString({ each: true, message: 'IDs must be strings' })
+  @IsNotEmpty({ each: true, message: 'IDs must not be empty' })
+  ids!: string[];
+}
+
+// ==========================================
+// BROADCAST DTOS
+// ==========================================
+
+/**
+ * Users a filtered broadcast goes to; unset fields match every active user
+ */
+export class BroadcastFilterDto {
+  @IsOptional()
+  @IsArray({ message: 'Locales must be an array' })
+  @ArrayNotEmpty({ message: 'At least one locale is required' })
+  @IsEnum(NotificationLocale, { each: true, message: 'Invalid locale' })
+  locales?: NotificationLocale[];
+
+  /** ISO 8601 */
+  @IsOptional()
+  @IsDateString({}, { message: 'Last login must be an ISO 8601 date' })
+  lastLoginAfter?: string;
+}
+
+/**
+ * DTO for broadcasting a system alert
+ */
+export class SendSystemAlertDto {
+  @IsString({ message: 'Title must be a string' })
+  @IsNotEmpty({ message: 'Title is required' })
+  @MaxLength(ALERT_BROADCAST.TITLE_MAX_LENGTH, {
+    message: `Title must be at most ${ALERT_BROADCAST.TITLE_MAX_LENGTH} characters`,
+  })
+  title!: string;
+
+  @IsString({ message: 'Body must be a string' })
+  @IsNotEmpty({ message: 'Body is required' })
+  @MaxLength(ALERT_BROADCAST.BODY_MAX_LENGTH, {
+    message: `Body must be at most ${ALERT_BROADCAST.BODY_MAX_LENGTH} characters`,
+  })
+  body!: string;
+
+  @IsEnum(BroadcastTarget, { message: 'Invalid broadcast target' })
+  target!: BroadcastTarget;
+
+  /** Required when the target is UIDS */
+  @ValidateIf((dto) => dto.target === BroadcastTarget.UIDS)
+  @IsArray({ message: 'UIDs must be an array' })
+  @ArrayNotEmpty({ message: 'At least one UID is required' })
+  @ArrayMaxSize(ALERT_BROADCAST.MAX_UIDS, {
+    message: `At most ${ALERT_BROADCAST.MAX_UIDS} users can be targeted by UID`,
+  })
+  @IsString({ each: true, message: 'UIDs must be strings' })
+  @IsNotEmpty({ each: true, message: 'UIDs must not be empty' })
+  uids?: string[];
+
+  /** Required when the target is FILTER */
+  @ValidateIf((dto) => dto.target === BroadcastTarget.FILTER)
+  @ValidateNested()
+  @Type(() => BroadcastFilterDto)
+  filter?: BroadcastFilterDto;
+}
+
+// ==========================================
+// NOTIFICATION PREFERENCE DTOS
+// ==========================================
+
+/**
+ * Push setting for one notification type
+ */
+export class NotificationTypePreferenceDto {
+  @IsEnum(NotificationType, { message: 'Invalid notification type' })
+  type!: NotificationType;
+
+  @IsBoolean({ message: 'Push must be a boolean' })
+  push!: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Email must be a boolean' })
+  email?: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Webhook must be a boolean' })
+  webhook?: boolean;
+
+  @IsOptional()
+  @IsEnum(NotificationDelivery, { message: 'Invalid delivery mode' })
+  delivery?: NotificationDelivery;
+}
+
+/**
+ * Quiet hours window in the user's time zone
+ */
+export class QuietHoursWindowDto {
+  @IsMilitaryTime({ message: 'Start must be in HH:mm format' })
+  start!: string;
+
+  @IsMilitaryTime({ message: 'End must be in HH:mm format' })
+  end!: string;
+}
+
+/**
+ * DTO for updating notification preferences
+ * Only the fields sent are replaced
+ */
+export class UpdateNotificationPreferencesDto {
+  @IsOptional()
+  @IsArray({ message: 'Types must be an array' })
+  @ArrayMaxSize(Object.values(NotificationType).length)
+  @ValidateNested({ each: true })
+  @Type(() => NotificationTypePreferenceDto)
+  types?: NotificationTypePreferenceDto[];
+
+  @IsOptional()
+  @IsTimeZone({ message: 'Invalid time zone' })
+  timeZone?: string;
+
+  @IsOptional()
+  @IsArray({ message: 'Quiet hours must be an array' })
+  @ArrayMaxSize(ALERT_PREFERENCES.MAX_QUIET_HOURS_WINDOWS, {
+    message: `At most ${ALERT_PREFERENCES.MAX_QUIET_HOURS_WINDOWS} quiet hours windows are allowed`,
+  })
+  @ValidateNested({ each: true })
+  @Type(() => QuietHoursWindowDto)
+  quietHours?: QuietHoursWindowDto[];
+
+  @IsOptional()
+  @IsArray({ message: 'Muted task IDs must be an array' })
+  @ArrayMaxSize(ALERT_PREFERENCES.MAX_MUTED_TASKS, {
+    message: `At most ${ALERT_PREFERENCES.MAX_MUTED_TASKS} tasks can be muted`,
+  })
+  @IsString({ each: true, message: 'Muted task IDs must be strings' })
+  @IsNotEmpty({ each: true, message: 'Muted task IDs must not be empty' })
+  mutedTaskIds?: string[];
+
+  @IsOptional()
+  @IsMilitaryTime({ message: 'Daily digest time must be in HH:mm format' })
+  dailyDigestTime?: string;
+
+  /** Null removes the webhook */
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { message: 'Webhook URL must be an HTTPS URL' },
+  )
+  webhookUrl?: string | null;
+}
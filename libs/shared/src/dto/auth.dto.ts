@@ -1,4 +1,16 @@
-import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import {
+  IsEnum,
+  IsLocale,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { AUTH_DEFAULTS } from '../constants/auth.constant';
+import { DevicePlatform } from '../types/auth';
 
 /**
  * Auth DTOs
@@ -16,11 +28,73 @@ export class LoginDto {
   @IsString()
   @IsOptional()
   fcmToken?: string;
+
+  @IsEnum(DevicePlatform, { message: 'Invalid device platform' })
+  @IsOptional()
+  platform?: DevicePlatform;
+
+  @IsString()
+  @IsOptional()
+  appVersion?: string;
+
+  @IsLocale({ message: 'Invalid locale' })
+  @IsOptional()
+  locale?: string;
 }
 
 /**
  * Refresh token request body
  */
-export interface RefreshTokenBody {
+export class RefreshTokenBody {
+  @IsString()
+  @IsOptional()
+  fcmToken?: string;
+
+  @IsEnum(DevicePlatform, { message: 'Invalid device platform' })
+  @IsOptional()
+  platform?: DevicePlatform;
+
+  @IsString()
+  @IsOptional()
+  appVersion?: string;
+}
+
+/**
+ * Logout request body
+ * The push token identifies the device to unregister
+ */
+export class LogoutDto {
+  @IsString()
+  @IsOptional()
   fcmToken?: string;
 }
+
+/**
+ * DTO for updating the current user's profile
+ * Only the fields sent are replaced
+ */
+export class UpdateProfileDto {
+  @IsOptional()
+  @IsString({ message: 'Display name must be a string' })
+  @IsNotEmpty({ message: 'Display name cannot be empty' })
+  @MaxLength(AUTH_DEFAULTS.NAME_MAX_LENGTH, {
+    message: `Display name cannot exceed ${AUTH_DEFAULTS.NAME_MAX_LENGTH} characters`,
+  })
+  @Transform(({ value }) => value?.trim())
+  displayName?: string;
+
+  @IsOptional()
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { message: 'Photo URL must be an HTTPS URL' },
+  )
+  photoUrl?: string;
+
+  @IsOptional()
+  @IsTimeZone({ message: 'Invalid time zone' })
+  timeZone?: string;
+
+  @IsOptional()
+  @IsLocale({ message: 'Invalid locale' })
+  locale?: string;
+}
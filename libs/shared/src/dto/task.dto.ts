@@ -1,14 +1,22 @@
 import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
   IsEmail,
   IsEnum,
   IsInt,
+  IsMilitaryTime,
   IsNotEmpty,
   IsOptional,
   IsString,
+  IsTimeZone,
   Max,
   MaxLength,
   Min,
   MinLength,
+  ValidateIf,
+  ValidateNested,
 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import {
@@ -17,19 +25,33 @@ import {
   TaskQueryType,
   TaskSortField,
   SortOrder,
+  RecurrenceFrequency,
+  TaskCompletionRule,
 } from '../types/task';
 import {
+  TASK_COMMENT_PAGINATION_DEFAULTS,
   TASK_PAGINATION_DEFAULTS,
   TASK_TIME_MINUTES,
   TASK_VALIDATION,
 } from '../constants/task.constant';
 
+/**
+ * Lowercase and trim a list of emails, leaving other values for validation
+ */
+const normalizeEmails = (value: unknown) =>
+  Array.isArray(value)
+    ? value.map((email) =>
+        typeof email === 'string' ? email.toLowerCase().trim() : email,
+      )
+    : value;
+
 // ==========================================
 // CREATE TASK DTO
 // ==========================================
 
 /**
  * DTO for creating a new task
+ * Assign with assignToEmail, assignToEmails or both
  */
 export class CreateTaskDto {
   @IsString({ message: 'Title must be a string' })
@@ -61,10 +83,92 @@ export class CreateTaskDto {
   @Type(() => Number)
   durationMinutes!: number;
 
+  @ValidateIf((dto) => dto.assignToEmails === undefined)
   @IsEmail({}, { message: 'Invalid email address' })
   @IsNotEmpty({ message: 'Assignee email is required' })
   @Transform(({ value }) => value?.toLowerCase().trim())
-  assignToEmail!: string;
+  assignToEmail?: string;
+
+  @IsOptional()
+  @IsArray({ message: 'Assignee emails must be an array' })
+  @ArrayNotEmpty({ message: 'At least one assignee email is required' })
+  @ArrayMaxSize(TASK_VALIDATION.MAX_ASSIGNEES, {
+    message: `A task cannot have more than ${TASK_VALIDATION.MAX_ASSIGNEES} assignees`,
+  })
+  @IsEmail({}, { each: true, message: 'Invalid email address' })
+  @Transform(({ value }) => normalizeEmails(value))
+  assignToEmails?: string[];
+
+  @IsEnum(TaskCompletionRule, {
+    message: 'Completion rule must be "any" or "all"',
+  })
+  @IsOptional()
+  completionRule?: TaskCompletionRule;
+
+  @IsBoolean({ message: 'requiresApproval must be a boolean' })
+  @IsOptional()
+  requiresApproval?: boolean;
+}
+
+// ==========================================
+// UPDATE TASK DTO
+// ==========================================
+
+/**
+ * DTO for editing task details (creator only)
+ * Omitted fields are left unchanged
+ */
+export class UpdateTaskDto {
+  @IsString({ message: 'Title must be a string' })
+  @IsOptional()
+  @MinLength(TASK_VALIDATION.TITLE_MIN_LENGTH, {
+    message: `Title must be at least ${TASK_VALIDATION.TITLE_MIN_LENGTH} characters`,
+  })
+  @MaxLength(TASK_VALIDATION.TITLE_MAX_LENGTH, {
+    message: `Title cannot exceed ${TASK_VALIDATION.TITLE_MAX_LENGTH} characters`,
+  })
+  @Transform(({ value }) => value?.trim())
+  title?: string;
+
+  @IsString({ message: 'Note must be a string' })
+  @IsOptional()
+  @MaxLength(TASK_VALIDATION.NOTE_MAX_LENGTH, {
+    message: `Note cannot exceed ${TASK_VALIDATION.NOTE_MAX_LENGTH} characters`,
+  })
+  @Transform(({ value }) => value?.trim() || null)
+  note?: string | null;
+
+  @IsInt({ message: 'Duration must be a whole number' })
+  @IsOptional()
+  @Min(TASK_TIME_MINUTES.MIN_DURATION, {
+    message: `Duration must be at least ${TASK_TIME_MINUTES.MIN_DURATION} minutes`,
+  })
+  @Max(TASK_TIME_MINUTES.MAX_DURATION, {
+    message: `Duration cannot exceed ${TASK_TIME_MINUTES.MAX_DURATION} minutes`,
+  })
+  @Type(() => Number)
+  durationMinutes?: number;
+
+  @IsEmail({}, { message: 'Invalid email address' })
+  @IsOptional()
+  @Transform(({ value }) => value?.toLowerCase().trim())
+  assignToEmail?: string;
+
+  @IsOptional()
+  @IsArray({ message: 'Assignee emails must be an array' })
+  @ArrayNotEmpty({ message: 'At least one assignee email is required' })
+  @ArrayMaxSize(TASK_VALIDATION.MAX_ASSIGNEES, {
+    message: `A task cannot have more than ${TASK_VALIDATION.MAX_ASSIGNEES} assignees`,
+  })
+  @IsEmail({}, { each: true, message: 'Invalid email address' })
+  @Transform(({ value }) => normalizeEmails(value))
+  assignToEmails?: string[];
+
+  @IsEnum(TaskCompletionRule, {
+    message: 'Completion rule must be "any" or "all"',
+  })
+  @IsOptional()
+  completionRule?: TaskCompletionRule;
 }
 
 // ==========================================
@@ -93,6 +197,23 @@ export class UpdateTaskReactionDto {
   reaction!: TaskReaction;
 }
 
+// ==========================================
+// REJECT TASK DTO
+// ==========================================
+
+/**
+ * DTO for sending a task awaiting approval back to the assignees
+ */
+export class RejectTaskDto {
+  @IsString({ message: 'Reason must be a string' })
+  @IsNotEmpty({ message: 'Reason is required' })
+  @MaxLength(TASK_VALIDATION.REJECTION_REASON_MAX_LENGTH, {
+    message: `Reason cannot exceed ${TASK_VALIDATION.REJECTION_REASON_MAX_LENGTH} characters`,
+  })
+  @Transform(({ value }) => value?.trim())
+  reason!: string;
+}
+
 // ==========================================
 // PAGINATION QUERY DTO
 // ==========================================
@@ -160,3 +281,114 @@ export class TaskIdParamDto {
   @IsNotEmpty({ message: 'Task ID is required' })
   id!: string;
 }
+
+// ==========================================
+// RECURRING TASK DTOS
+// ==========================================
+
+/**
+ * Schedule rule for a recurring task series
+ */
+export class RecurrenceRuleDto {
+  @IsEnum(RecurrenceFrequency, { message: 'Invalid recurrence frequency' })
+  frequency!: RecurrenceFrequency;
+
+  @ValidateIf((rule) => rule.frequency === RecurrenceFrequency.WEEKLY)
+  @IsArray({ message: 'Days of week must be an array' })
+  @ArrayNotEmpty({ message: 'Weekly rules need at least one day' })
+  @ArrayMaxSize(7)
+  @IsInt({ each: true, message: 'Days of week must be whole numbers' })
+  @Min(0, { each: true, message: 'Days of week range from 0 (Sunday)' })
+  @Max(6, { each: true, message: 'Days of week range up to 6 (Saturday)' })
+  daysOfWeek?: number[];
+
+  @ValidateIf((rule) => rule.frequency === RecurrenceFrequency.RRULE)
+  @IsString({ message: 'RRULE must be a string' })
+  @IsNotEmpty({ message: 'RRULE is required for rrule frequency' })
+  @Transform(({ value }) => value?.trim().toUpperCase())
+  rrule?: string;
+
+  @IsMilitaryTime({ message: 'Time of day must be in HH:mm format' })
+  timeOfDay!: string;
+
+  @IsTimeZone({ message: 'Invalid time zone' })
+  timeZone!: string;
+}
+
+/**
+ * DTO for creating a recurring task series
+ */
+export class CreateRecurringTaskDto extends CreateTaskDto {
+  @ValidateNested()
+  @Type(() => RecurrenceRuleDto)
+  @IsNotEmpty({ message: 'Recurrence rule is required' })
+  rule!: RecurrenceRuleDto;
+}
+
+/**
+ * Recurring series ID parameter validation
+ */
+export class RecurringTaskIdParamDto {
+  @IsString({ message: 'Recurring task ID must be a string' })
+  @IsNotEmpty({ message: 'Recurring task ID is required' })
+  id!: string;
+}
+
+// ==========================================
+// TASK COMMENT DTOS
+// ==========================================
+
+/**
+ * DTO for posting or editing a task comment
+ */
+export class TaskCommentBodyDto {
+  @IsString({ message: 'Comment must be a string' })
+  @IsNotEmpty({ message: 'Comment cannot be empty' })
+  @MaxLength(TASK_VALIDATION.COMMENT_MAX_LENGTH, {
+    message: `Comment cannot exceed ${TASK_VALIDATION.COMMENT_MAX_LENGTH} characters`,
+  })
+  @Transform(({ value }) => value?.trim())
+  body!: string;
+}
+
+/**
+ * Query parameters for listing task comments
+ */
+export class GetTaskCommentsQueryDto {
+  @IsInt({ message: 'Limit must be a whole number' })
+  @Min(TASK_COMMENT_PAGINATION_DEFAULTS.MIN_LIMIT, {
+    message: `Limit must be at least ${TASK_COMMENT_PAGINATION_DEFAULTS.MIN_LIMIT}`,
+  })
+  @Max(TASK_COMMENT_PAGINATION_DEFAULTS.MAX_LIMIT, {
+    message: `Limit cannot exceed ${TASK_COMMENT_PAGINATION_DEFAULTS.MAX_LIMIT}`,
+  })
+  @Type(() => Number)
+  @IsOptional()
+  limit: number = TASK_COMMENT_PAGINATION_DEFAULTS.DEFAULT_LIMIT;
+
+  @IsString({ message: 'Cursor must be a string' })
+  @IsOptional()
+  cursor?: string;
+}
+
+/**
+ * Task and comment ID parameter validation
+ */
+export class TaskCommentParamDto extends TaskIdParamDto {
+  @IsString({ message: 'Comment ID must be a string' })
+  @IsNotEmpty({ message: 'Comment ID is required' })
+  commentId!: string;
+}
+
+// ==========================================
+// TASK ATTACHMENT DTOS
+// ==========================================
+
+/**
+ * Task and attachment ID parameter validation
+ */
+export class TaskAttachmentParamDto extends TaskIdParamDto {
+  @IsString({ message: 'Attachment ID must be a string' })
+  @IsNotEmpty({ message: 'Attachment ID is required' })
+  attachmentId!: string;
+}
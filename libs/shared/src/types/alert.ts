@@ -1,4 +1,6 @@
 import * as admin from 'firebase-admin';
+import { FirebaseUser } from './auth';
+import { TaskReaction, TaskResponse, TaskStatus } from './task';
 
 // ==========================================
 // ALERT ENUMS
@@ -14,6 +16,10 @@ export enum NotificationType {
   TASK_REMINDER = 'task_reminder',
   TASK_UPDATED = 'task_updated',
   TASK_DELETED = 'task_deleted',
+  TASK_CANCELLED = 'task_cancelled',
+  TASK_EXPIRED = 'task_expired',
+  TASK_COMMENT = 'task_comment',
+  TASK_REVIEW = 'task_review',
   SYSTEM_ALERT = 'system_alert',
 }
 
@@ -26,6 +32,10 @@ export enum NotificationStatus {
   DELIVERED = 'delivered',
   READ = 'read',
   FAILED = 'failed',
+  /** Stored in-app only, the recipient's preferences held back the push */
+  SUPPRESSED = 'suppressed',
+  /** Waiting to go out with the recipient's next digest push */
+  QUEUED = 'queued',
 }
 
 /**
@@ -37,6 +47,54 @@ export enum NotificationPriority {
   HIGH = 'high',
 }
 
+/**
+ * Channels a notification can be delivered over
+ */
+export enum NotificationChannel {
+  /** Expo push to the user's registered devices */
+  PUSH = 'push',
+  /** Email over SMTP */
+  EMAIL = 'email',
+  /** HTTP POST to the user's webhook URL */
+  WEBHOOK = 'webhook',
+}
+
+/**
+ * How pushes of a notification type reach the user
+ */
+export enum NotificationDelivery {
+  /** One push per notification */
+  IMMEDIATE = 'immediate',
+  /** Combined into one push at the top of each hour */
+  HOURLY = 'hourly',
+  /** Combined into one push at the user's daily digest time */
+  DAILY = 'daily',
+}
+
+/**
+ * What changed for the recipient of a task update notification
+ */
+export enum TaskUpdateKind {
+  /** Title, note or deadline changed */
+  DETAILS_CHANGED = 'details_changed',
+  /** Task was reassigned to the recipient */
+  ASSIGNED_TO_YOU = 'assigned_to_you',
+  /** Task was reassigned away from the recipient */
+  REASSIGNED_AWAY = 'reassigned_away',
+}
+
+/**
+ * Step of the completion approval workflow
+ */
+export enum TaskReviewKind {
+  /** Assignees finished, the creator needs to review */
+  SUBMITTED = 'submitted',
+  /** Creator approved the completion */
+  APPROVED = 'approved',
+  /** Creator sent the task back */
+  REJECTED = 'rejected',
+}
+
 // ==========================================
 // ALERT INTERFACES
 // ==========================================
@@ -75,6 +133,8 @@ export interface INotificationDocument {
   data: INotificationData;
   /** Current status of the notification */
   status: NotificationStatus;
+  /** Priority, high priority skips the digest */
+  priority?: NotificationPriority;
   /** Whether the notification has been read */
   isRead: boolean;
   /** When the notification was created */
@@ -83,10 +143,50 @@ export interface INotificationDocument {
   sentAt: admin.firestore.Timestamp | null;
   /** When the notification was read (null if unread) */
   readAt: admin.firestore.Timestamp | null;
-  /** FCM/Expo message ID for tracking */
+  /** FCM/Expo message ID for tracking (first ticket when sent to several devices) */
   fcmMessageId?: string;
+  /** Expo tickets of the devices the message was sent to */
+  pushTickets?: INotificationPushTicket[];
+  /** When Expo confirmed delivery to the push provider */
+  deliveredAt?: admin.firestore.Timestamp | null;
+  /** Delivery attempts made so far */
+  attempts?: number;
+  /** When delivery is attempted again (null when no retry is due) */
+  nextRetryAt?: admin.firestore.Timestamp | null;
   /** Error message if notification failed */
   error?: string;
+  /** Delivery status of each channel the notification went out over */
+  channels?: Partial<Record<NotificationChannel, INotificationChannelDelivery>>;
+  /** Why the push was held back, when suppressed */
+  suppressedReason?: string;
+  /** When the digest carrying this notification is due, when queued */
+  digestAt?: admin.firestore.Timestamp | null;
+  /** Broadcast the notification was sent by, for system alerts */
+  broadcastId?: string;
+}
+
+/**
+ * Delivery status of a notification on one channel
+ */
+export interface INotificationChannelDelivery {
+  /** Sent, delivered or failed */
+  status: NotificationStatus;
+  /** Attempts made on this channel */
+  attempts: number;
+  /** When the channel accepted the notification */
+  sentAt: admin.firestore.Timestamp | null;
+  /** Error of the last failed attempt */
+  error: string | null;
+}
+
+/**
+ * Expo ticket of a push sent to one device
+ */
+export interface INotificationPushTicket {
+  /** Expo ticket ID, used to fetch the receipt */
+  ticketId: string;
+  /** Push token the message was sent to */
+  pushToken: string;
 }
 
 /**
@@ -102,6 +202,7 @@ export interface INotificationResponse {
   body: string;
   data: INotificationData;
   status: NotificationStatus;
+  priority: NotificationPriority;
   isRead: boolean;
   createdAt: Date;
   sentAt: Date | null;
@@ -120,12 +221,14 @@ export interface ISendPushNotificationParams {
   senderUid: string;
   /** Type of notification */
   type: NotificationType;
-  /** Notification title */
-  title: string;
-  /** Notification body */
-  body: string;
+  /** Template variant of the type, when it has several */
+  variant?: string;
+  /** Values interpolated into the template */
+  variables: NotificationTemplateVariables;
   /** Data type for the notification payload */
   dataType: string;
+  /** Priority, defaults to the type's priority */
+  priority?: NotificationPriority;
 }
 
 /**
@@ -151,6 +254,90 @@ export interface ITaskReactionNotificationParams {
   reaction: string;
 }
 
+/**
+ * Parameters for task completion notification (sent to the creator)
+ */
+export interface ITaskCompletedNotificationParams {
+  taskId: string;
+  creatorUid: string;
+  /** Assignee whose completion finished the task */
+  actorUid: string;
+  actorName: string;
+  taskTitle: string;
+}
+
+/**
+ * Parameters for task cancellation and deletion notifications (sent to
+ * the assignees)
+ */
+export interface ITaskClosedNotificationParams {
+  taskId: string;
+  assigneeUids: string[];
+  /** Creator who cancelled or deleted the task */
+  actorUid: string;
+  actorName: string;
+  taskTitle: string;
+}
+
+/**
+ * Parameters for task expiry notification (sent to creator and assignees)
+ */
+export interface ITaskExpiredNotificationParams {
+  taskId: string;
+  creatorUid: string;
+  /** Assignees who had not completed their part */
+  assignees: { uid: string; name: string }[];
+  taskTitle: string;
+}
+
+/**
+ * Parameters for pre-expiry task reminder notification
+ */
+export interface ITaskReminderNotificationParams {
+  taskId: string;
+  assigneeUid: string;
+  taskTitle: string;
+  remainingMinutes: number;
+}
+
+/**
+ * Parameters for task comment notification
+ */
+export interface ITaskCommentNotificationParams {
+  taskId: string;
+  recipientUid: string;
+  authorUid: string;
+  authorName: string;
+  taskTitle: string;
+  commentBody: string;
+}
+
+/**
+ * Parameters for task approval workflow notification
+ */
+export interface ITaskReviewNotificationParams {
+  taskId: string;
+  recipientUid: string;
+  actorUid: string;
+  actorName: string;
+  taskTitle: string;
+  kind: TaskReviewKind;
+  /** Rejection reason */
+  reason?: string | null;
+}
+
+/**
+ * Parameters for task update notification
+ */
+export interface ITaskUpdatedNotificationParams {
+  taskId: string;
+  recipientUid: string;
+  creatorUid: string;
+  creatorName: string;
+  taskTitle: string;
+  kind: TaskUpdateKind;
+}
+
 /**
  * Query options for fetching notifications
  */
@@ -161,6 +348,10 @@ export interface IGetNotificationsOptions {
   unreadOnly?: boolean;
   /** Filter by notification type */
   type?: NotificationType;
+  /** Only notifications created at or after this time */
+  from?: Date;
+  /** Only notifications created at or before this time */
+  to?: Date;
   /** Pagination cursor (last notification ID) */
   cursor?: string;
 }
@@ -172,11 +363,22 @@ export interface IMarkReadResponse {
   message: string;
 }
 
+/**
+ * Response for an operation on several notifications
+ */
+export interface IBulkNotificationsResponse {
+  message: string;
+  /** Notifications the operation changed */
+  count: number;
+}
+
 /**
  * Response for notification cleanup operation
  */
 export interface ICleanupResponse {
   deletedCount: number;
+  /** Deleted notifications per type */
+  deletedByType: Partial<Record<NotificationType, number>>;
 }
 
 /**
@@ -199,3 +401,422 @@ export interface IPaginatedNotificationsResponse {
     nextCursor: string | null;
   };
 }
+
+// ==========================================
+// PREFERENCE INTERFACES
+// ==========================================
+
+/**
+ * Quiet hours window in the user's time zone
+ * Windows ending before they start run past midnight
+ */
+export interface IQuietHoursWindow {
+  /** Start time (HH:mm) */
+  start: string;
+  /** End time (HH:mm), exclusive */
+  end: string;
+}
+
+/**
+ * Push setting for one notification type
+ */
+export interface INotificationTypePreference {
+  type: NotificationType;
+  /** Whether the type sends a push */
+  push: boolean;
+  /** Whether the type sends an email */
+  email: boolean;
+  /** Whether the type is posted to the user's webhook */
+  webhook: boolean;
+  /** Whether pushes go out one by one or in a digest */
+  delivery: NotificationDelivery;
+}
+
+/**
+ * Notification preferences of a user
+ */
+export interface INotificationPreferences {
+  /** Per-type settings; types not listed send a push */
+  types: INotificationTypePreference[];
+  /** IANA time zone quiet hours are read in */
+  timeZone: string;
+  /** Windows during which no push is sent */
+  quietHours: IQuietHoursWindow[];
+  /** Tasks whose notifications never send a push */
+  mutedTaskIds: string[];
+  /** Local time daily digests go out (HH:mm) */
+  dailyDigestTime: string;
+  /** HTTPS URL notifications are posted to when the webhook channel is on */
+  webhookUrl: string | null;
+}
+
+/**
+ * Notification preferences document stored in Firestore (ID is the user's UID)
+ */
+export interface INotificationPreferencesDocument
+  extends INotificationPreferences {
+  updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * How a notification should go out under the recipient's preferences
+ */
+export interface INotificationDeliveryPlan {
+  /** Channels to send over right away */
+  channels: NotificationChannel[];
+  /** Why nothing goes out, null when something does */
+  suppressedReason: string | null;
+  /** When the push goes out with the recipient's digest, null when it doesn't */
+  digestAt: Date | null;
+  /** Where the webhook channel posts to */
+  webhookUrl: string | null;
+}
+
+// ==========================================
+// CHANNEL INTERFACES
+// ==========================================
+
+/**
+ * Recipient details a channel needs to reach the user
+ */
+export interface INotificationRecipient {
+  uid: string;
+  name: string;
+  email: string;
+  /** Valid Expo push tokens of the user's devices */
+  pushTokens: string[];
+  webhookUrl: string | null;
+}
+
+/**
+ * Message handed to a channel
+ */
+export interface INotificationChannelMessage {
+  /** Notifications the message covers (several for a digest) */
+  notificationIds: string[];
+  /** Notification type, when the message covers a single notification */
+  type: NotificationType | null;
+  recipient: INotificationRecipient;
+  title: string;
+  body: string;
+  /** Payload for the client app */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Outcome of sending a message over a channel
+ */
+export interface INotificationChannelResult {
+  /** Whether the channel accepted the message */
+  sent: boolean;
+  /** Why the channel failed */
+  error?: string;
+  /** Whether a later attempt may succeed */
+  retryable?: boolean;
+  /** Fields stored on the notification records when sent */
+  record?: Record<string, unknown>;
+  /** Push tokens the provider reported as no longer registered */
+  deadPushTokens?: string[];
+}
+
+/**
+ * Transport that delivers notifications over one channel
+ */
+export interface NotificationChannelSender {
+  readonly channel: NotificationChannel;
+  /** Whether the channel is set up and can reach the recipient */
+  canReach(recipient: INotificationRecipient): boolean;
+  /** Send a message; transport errors are returned, not thrown */
+  send(
+    message: INotificationChannelMessage,
+  ): Promise<INotificationChannelResult>;
+  /**
+   * Send several messages in as few requests as possible, returning the
+   * results in message order; channels without it send one at a time
+   */
+  sendMany?(
+    messages: INotificationChannelMessage[],
+  ): Promise<INotificationChannelResult[]>;
+}
+
+/**
+ * Notification preferences returned by the API
+ */
+export interface INotificationPreferencesResponse
+  extends INotificationPreferences {
+  updatedAt: string | null;
+}
+
+// ==========================================
+// TEMPLATE INTERFACES
+// ==========================================
+
+/**
+ * Locales notification copy is written in
+ */
+export enum NotificationLocale {
+  EN = 'en',
+  ES = 'es',
+  HI = 'hi',
+}
+
+/**
+ * Message with a form per plural category of the `count` variable
+ * Categories follow Intl.PluralRules of the locale
+ */
+export type IPluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+/**
+ * Message text with `{name}` placeholders, optionally pluralized
+ */
+export type NotificationMessage = string | IPluralMessage;
+
+/**
+ * Values interpolated into a template
+ */
+export type NotificationTemplateVariables = Record<string, string | number>;
+
+/**
+ * Title and body of a notification
+ */
+export interface INotificationTemplate {
+  title: NotificationMessage;
+  body: NotificationMessage;
+}
+
+/**
+ * All notification copy of one locale
+ */
+export interface INotificationTemplateBundle {
+  /** Templates of each type by variant; single-variant types use `default` */
+  templates: Record<NotificationType, Record<string, INotificationTemplate>>;
+  /** Reaction labels quoted in reaction notifications */
+  reactions: Record<TaskReaction, string>;
+  /** Count of each type in a digest body */
+  digestLabels: Record<NotificationType, IPluralMessage>;
+  /** Digest title */
+  digestTitle: IPluralMessage;
+  /** Count of types left out of a digest body */
+  digestMore: IPluralMessage;
+}
+
+/**
+ * Rendered notification copy
+ */
+export interface IRenderedNotification {
+  title: string;
+  body: string;
+}
+
+// ==========================================
+// RETENTION INTERFACES
+// ==========================================
+
+/**
+ * State of a notification retention run
+ */
+export enum RetentionRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Notification retention run as stored in Firestore
+ */
+export interface IRetentionRunDocument {
+  status: RetentionRunStatus;
+  /** Days kept per notification type during the run */
+  retentionDays: Partial<Record<NotificationType, number>>;
+  deletedCount: number;
+  deletedByType: Partial<Record<NotificationType, number>>;
+  startedAt: admin.firestore.Timestamp;
+  finishedAt: admin.firestore.Timestamp | null;
+  durationMs: number | null;
+  error: string | null;
+}
+
+/**
+ * Notification retention run for API responses
+ */
+export interface IRetentionRunResponse {
+  id: string;
+  status: RetentionRunStatus;
+  retentionDays: Partial<Record<NotificationType, number>>;
+  deletedCount: number;
+  deletedByType: Partial<Record<NotificationType, number>>;
+  /** ISO 8601 */
+  startedAt: string;
+  /** ISO 8601, null while running */
+  finishedAt: string | null;
+  durationMs: number | null;
+  error: string | null;
+}
+
+// ==========================================
+// BROADCAST INTERFACES
+// ==========================================
+
+/**
+ * Who a system alert broadcast goes to
+ */
+export enum BroadcastTarget {
+  /** Every active user */
+  ALL = 'all',
+  /** The listed users */
+  UIDS = 'uids',
+  /** Active users matching a filter */
+  FILTER = 'filter',
+}
+
+/**
+ * State of a system alert broadcast
+ */
+export enum BroadcastStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Users a filtered broadcast goes to; unset fields match everyone
+ */
+export interface IBroadcastFilter {
+  /** Locales the users' notifications are written in */
+  locales: NotificationLocale[] | null;
+  /** Only users who logged in at or after this time */
+  lastLoginAfter: admin.firestore.Timestamp | null;
+}
+
+/**
+ * Recipients handled so far by a broadcast
+ */
+export interface IBroadcastProgress {
+  /** Users looked at */
+  processed: number;
+  /** Notifications sent over at least one channel */
+  sent: number;
+  /** Notifications no channel could send */
+  failed: number;
+  /** Notifications kept in-app during the user's quiet hours */
+  suppressed: number;
+  /** Users skipped: opted out, inactive, missing or already notified */
+  skipped: number;
+}
+
+/**
+ * System alert broadcast as stored in Firestore
+ */
+export interface IBroadcastDocument {
+  /** Admin who sent the broadcast */
+  senderUid: string;
+  title: string;
+  body: string;
+  target: BroadcastTarget;
+  /** Recipients of a UIDS broadcast */
+  uids: string[] | null;
+  /** Recipient filter of a FILTER broadcast */
+  filter: IBroadcastFilter | null;
+  status: BroadcastStatus;
+  /** Users targeted, null when only known once the filter ran */
+  total: number | null;
+  progress: IBroadcastProgress;
+  /** Last user handled, the broadcast resumes after it */
+  cursor: string | null;
+  error: string | null;
+  createdAt: admin.firestore.Timestamp;
+  startedAt: admin.firestore.Timestamp | null;
+  updatedAt: admin.firestore.Timestamp;
+  finishedAt: admin.firestore.Timestamp | null;
+}
+
+/**
+ * System alert broadcast for API responses
+ */
+export interface IBroadcastResponse {
+  id: string;
+  senderUid: string;
+  title: string;
+  body: string;
+  target: BroadcastTarget;
+  uids: string[] | null;
+  filter: {
+    locales: NotificationLocale[] | null;
+    /** ISO 8601 */
+    lastLoginAfter: string | null;
+  } | null;
+  status: BroadcastStatus;
+  total: number | null;
+  progress: IBroadcastProgress;
+  error: string | null;
+  /** ISO 8601 */
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/**
+ * Parameters for sending a system alert to one page of broadcast recipients
+ */
+export interface ISystemAlertBatchParams {
+  broadcastId: string;
+  senderUid: string;
+  title: string;
+  body: string;
+  /** Active users to notify */
+  recipients: FirebaseUser[];
+}
+
+// ==========================================
+// REALTIME INTERFACES
+// ==========================================
+
+/**
+ * Events pushed to clients over the realtime stream
+ */
+export enum RealtimeEventType {
+  TASK_CREATED = 'task.created',
+  TASK_UPDATED = 'task.updated',
+  TASK_REACTION = 'task.reaction',
+  TASK_EXPIRED = 'task.expired',
+  TASK_DELETED = 'task.deleted',
+  UNREAD_COUNT = 'notifications.unread_count',
+  /** Keeps idle connections open */
+  HEARTBEAT = 'heartbeat',
+  /** Missed events can't be replayed; the client should refetch */
+  RESYNC = 'resync',
+}
+
+/**
+ * Payload of task events
+ */
+export interface IRealtimeTaskPayload {
+  taskId: string;
+  status: TaskStatus;
+  /** Task as returned by the API (null when deleted or changed by a background job) */
+  task: TaskResponse | null;
+}
+
+/**
+ * Payload of unread count events
+ */
+export interface IRealtimeUnreadCountPayload {
+  count: number;
+}
+
+/**
+ * Event buffered for a user so reconnecting clients can resume
+ */
+export interface IRealtimeEvent {
+  /** Event ID, sent to clients and echoed back as Last-Event-ID */
+  id: string;
+  /** Position in the per-process sequence */
+  sequence: number;
+  type: RealtimeEventType;
+  data: object;
+  /** When the event was published (epoch ms) */
+  publishedAt: number;
+}
@@ -1,8 +1,61 @@
+import * as admin from 'firebase-admin';
+
 /**
  * Auth Types
  * Type definitions for authentication-related data structures
  */
 
+/**
+ * Platform a device registered from
+ */
+export enum DevicePlatform {
+  IOS = 'ios',
+  ANDROID = 'android',
+  WEB = 'web',
+}
+
+/**
+ * Roles a user can hold
+ * Elevated roles are stored in the `roles` custom claim; every user holds
+ * the user role
+ */
+export enum UserRole {
+  USER = 'user',
+  ADMIN = 'admin',
+  SUPPORT = 'support',
+}
+
+/**
+ * Profile fields a user can set themselves
+ * Once set, Google login no longer overwrites them
+ */
+export type UserProfileField = 'name' | 'photo' | 'locale' | 'timeZone';
+
+/**
+ * Device registered to receive push notifications for a user
+ */
+export interface DeviceRegistration {
+  /** Expo push token of the app install */
+  token: string;
+  /** Platform the app runs on, when the client reported it */
+  platform: DevicePlatform | null;
+  /** App version, when the client reported it */
+  appVersion: string | null;
+  /** When the device was first registered */
+  registeredAt: admin.firestore.Timestamp;
+  /** Last login or session refresh from the device */
+  lastSeenAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Device details sent by the client on login, refresh and logout
+ */
+export interface DeviceInfo {
+  fcmToken: string;
+  platform?: DevicePlatform;
+  appVersion?: string;
+}
+
 /**
  * Firebase User stored in Firestore
  */
@@ -17,6 +70,12 @@ export interface FirebaseUser {
   name: string;
   /** User's profile photo URL */
   photo: string;
+  /** BCP 47 locale notifications are written in, English when unset */
+  locale?: string;
+  /** IANA time zone the user chose, when set */
+  timeZone?: string;
+  /** Profile fields the user set, which login leaves untouched */
+  userSetFields?: UserProfileField[];
   /** Lowercase email for case-insensitive queries */
   emailLower: string;
   /** Lowercase name for case-insensitive queries */
@@ -33,10 +92,18 @@ export interface FirebaseUser {
   lastLogoutAt?: Date | null;
   /** Whether user account is active */
   isActive: boolean;
-  /** Firebase Cloud Messaging token for push notifications */
-  fcmToken: string | null;
-  /** When FCM token was last updated */
-  fcmTokenUpdatedAt: Date | null;
+  /** Devices registered for push notifications */
+  devices?: DeviceRegistration[];
+  /**
+   * Single push token from before device registrations
+   * @deprecated Moved into devices the next time the user registers a device
+   */
+  fcmToken?: string | null;
+  /**
+   * When the single push token was last updated
+   * @deprecated Removed together with fcmToken
+   */
+  fcmTokenUpdatedAt?: Date | null;
 }
 
 /**
@@ -55,7 +122,34 @@ export type RequestUser = Pick<
   | 'nameTokens'
   | 'isActive'
   | 'lastLoginAt'
->;
+> & {
+  /** Roles from the token's custom claims */
+  roles: UserRole[];
+};
+
+/**
+ * Error returned when an ownership check fails
+ */
+export interface OwnershipError {
+  message: string;
+  code: string;
+}
+
+/**
+ * Resource a route is limited to the owner of
+ */
+export interface OwnedResourceOptions {
+  /** Firestore collection holding the resource */
+  collection: string;
+  /** Document field holding the owner's UID */
+  ownerField: string;
+  /** Route param holding the document ID (default: id) */
+  param?: string;
+  /** Error when the document doesn't exist */
+  notFound?: OwnershipError;
+  /** Error when the caller doesn't own the document */
+  forbidden?: OwnershipError;
+}
 
 /**
  * User data returned in API responses (serialized)
@@ -69,6 +163,14 @@ export interface UserResponseData {
   createdAt: string | null;
 }
 
+/**
+ * Profile of the current user, including their settings
+ */
+export interface UserProfileData extends UserResponseData {
+  locale: string;
+  timeZone: string | null;
+}
+
 /**
  * Login response structure (simplified - no nesting)
  */
@@ -88,7 +190,7 @@ export interface LogoutResponse {
  * Get user profile response (simplified - no nesting)
  */
 export interface UserProfileResponse {
-  user: UserResponseData;
+  user: UserProfileData;
 }
 
 /**
@@ -107,6 +209,100 @@ export interface RefreshResponse {
   message: string;
 }
 
+/**
+ * Roles of a user
+ */
+export interface UserRolesResponse {
+  uid: string;
+  roles: UserRole[];
+}
+
+/**
+ * State of an account deletion
+ */
+export enum AccountDeletionStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Steps of an account deletion, in the order they run
+ */
+export enum AccountDeletionStep {
+  /** Anonymize the user's copies in tasks they created */
+  CREATED_TASKS = 'created_tasks',
+  /** Anonymize the user's copies in tasks assigned to them */
+  ASSIGNED_TASKS = 'assigned_tasks',
+  /** Pause and anonymize recurring series the user created */
+  CREATED_SERIES = 'created_series',
+  /** Remove the user from recurring series, pausing those left unassigned */
+  ASSIGNED_SERIES = 'assigned_series',
+  /** Delete the user's notifications and notification preferences */
+  NOTIFICATIONS = 'notifications',
+  /** Remove the remaining personal data from the user document */
+  PROFILE = 'profile',
+}
+
+/**
+ * Work done by an account deletion so far
+ */
+export interface AccountDeletionProgress {
+  tasksAnonymized: number;
+  seriesAnonymized: number;
+  notificationsDeleted: number;
+}
+
+/**
+ * Account deletion job as stored in Firestore (document ID is the user's UID)
+ */
+export interface AccountDeletionDocument {
+  uid: string;
+  status: AccountDeletionStatus;
+  /** Step to resume from */
+  step: AccountDeletionStep;
+  /** Last document handled in the current step */
+  cursor: string | null;
+  progress: AccountDeletionProgress;
+  /** Failed runs so far; the job fails after too many */
+  attempts: number;
+  /** Error from the last failed run */
+  error: string | null;
+  requestedAt: admin.firestore.Timestamp;
+  startedAt: admin.firestore.Timestamp | null;
+  updatedAt: admin.firestore.Timestamp;
+  finishedAt: admin.firestore.Timestamp | null;
+}
+
+/**
+ * Account deletion job for API responses
+ */
+export interface AccountDeletionResponse {
+  uid: string;
+  status: AccountDeletionStatus;
+  step: AccountDeletionStep;
+  progress: AccountDeletionProgress;
+  error: string | null;
+  requestedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/**
+ * Archive of a user's personal data
+ * Timestamps are serialized as ISO strings
+ */
+export interface AccountExportResponse {
+  exportedAt: string;
+  profile: Record<string, unknown>;
+  tasks: {
+    created: Record<string, unknown>[];
+    assigned: Record<string, unknown>[];
+  };
+  notifications: Record<string, unknown>[];
+}
+
 /**
  * Migration response
  */
@@ -123,7 +319,7 @@ export interface NewUserData {
   name: string;
   photo: string;
   emailVerified: boolean;
-  fcmToken: string | null;
+  locale: string;
 }
 
 /**
@@ -133,7 +329,7 @@ export interface UserUpdateData {
   name?: string;
   email?: string;
   picture?: string;
-  fcmToken?: string;
+  locale?: string;
 }
 
 /**
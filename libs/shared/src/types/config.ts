@@ -6,4 +6,25 @@ export interface FirestoreConfig {
     projectId: string;
     clientEmail: string;
     privateKey: string;
-}
\ No newline at end of file
+}
+export interface StorageConfig {
+    attachmentsDir: string;
+}
+export interface PushRetryConfig {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+export interface EmailConfig {
+    /** SMTP host, email is disabled when unset */
+    host: string | null;
+    port: number;
+    secure: boolean;
+    user: string | null;
+    password: string | null;
+    from: string | null;
+}
+export interface WebhookConfig {
+    /** Secret webhook bodies are signed with, unsigned when unset */
+    signingSecret: string | null;
+}
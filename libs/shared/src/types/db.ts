@@ -1,3 +1,5 @@
+import * as admin from 'firebase-admin';
+
 
 export interface DatabaseHealthStatus {
   status: 'healthy' | 'unhealthy';
@@ -21,4 +23,76 @@ export interface QueryMetrics {
   slowQueries: number;
   avgLatencyMs: number;
   totalQueries: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Distributed lock document stored in Firestore
+ */
+export interface DistributedLockDocument {
+  /** Lease token of the current holder (instance ID and a per-acquire ID) */
+  holder: string;
+  /** When the lock was acquired (epoch ms) */
+  acquiredAt: number;
+  /** When the lock lease expires (epoch ms) */
+  expiresAt: number;
+}
+
+/**
+ * Status values of a resumable job kind, e.g. the BroadcastStatus enum
+ */
+export interface ResumableJobStatuses {
+  PENDING: string;
+  RUNNING: string;
+  COMPLETED: string;
+  FAILED: string;
+}
+
+/**
+ * Fields a resumable job document has for the runner to read and write
+ */
+export interface ResumableJobDocument {
+  status: string;
+  /** Counts added to after each page */
+  progress: object;
+  /** Error from the last failed run */
+  error: string | null;
+  startedAt: admin.firestore.Timestamp | null;
+}
+
+/**
+ * Outcome of running one page of a resumable job
+ */
+export interface ResumableJobPage<T extends ResumableJobDocument> {
+  /** Fields saved with the page, e.g. the next cursor */
+  state: Partial<T>;
+  /** Counts the page adds to the stored progress */
+  progress: Partial<T['progress']>;
+  /** Whether the job is finished */
+  done: boolean;
+}
+
+/**
+ * A kind of job stored in one collection and run a page at a time, saving
+ * its state after each page so an interrupted job resumes where it stopped
+ */
+export interface ResumableJob<T extends ResumableJobDocument> {
+  /** Name used in logs */
+  name: string;
+  collection: string;
+  /** Field queued jobs are run in order of, oldest first */
+  orderBy: string;
+  statuses: ResumableJobStatuses;
+  /** Distributed lock name */
+  lockName: string;
+  /** Lock lease duration (must exceed a full run) */
+  lockTtlMs: number;
+  /** Time a run keeps paging before leaving the rest to the next run */
+  maxRunMs: number;
+  /** Run the next page of a job */
+  runPage(id: string, job: T): Promise<ResumableJobPage<T>>;
+  /**
+   * Fields saved when a page fails, and whether the job has failed for good
+   * (otherwise the next run retries it from its saved state)
+   */
+  onError(job: T): { update: Partial<T>; failed: boolean };
+}
@@ -26,6 +26,8 @@ export interface ErrorResponse {
 
 export interface HttpExceptionResponse {
   message: string | string[];
+  /** Application error code, e.g. from AUTH_ERROR_CODES */
+  code?: string;
   error?: string;
   statusCode?: number;
 }
@@ -9,6 +9,8 @@ import * as admin from 'firebase-admin';
  */
 export enum TaskStatus {
   PENDING = 'pending',
+  /** Completed by the assignees, waiting for the creator's approval */
+  AWAITING_REVIEW = 'awaiting_review',
   COMPLETED = 'completed',
   CANCELLED = 'cancelled',
   EXPIRED = 'expired',
@@ -48,6 +50,51 @@ export enum SortOrder {
   DESC = 'desc',
 }
 
+/**
+ * When a task with several assignees counts as completed
+ */
+export enum TaskCompletionRule {
+  /** First assignee to complete finishes the task */
+  ANY = 'any',
+  /** Every assignee must complete */
+  ALL = 'all',
+}
+
+/**
+ * Kinds of entries in a task's history
+ */
+export enum TaskEventType {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  STATUS_CHANGED = 'status_changed',
+  ASSIGNEE_COMPLETED = 'assignee_completed',
+  REACTION_CHANGED = 'reaction_changed',
+  EXTENDED = 'extended',
+  DELETED = 'deleted',
+  ATTACHMENT_ADDED = 'attachment_added',
+  ATTACHMENT_REMOVED = 'attachment_removed',
+  NOTIFICATION_SENT = 'notification_sent',
+  NOTIFICATION_FAILED = 'notification_failed',
+}
+
+/**
+ * How often a recurring task series repeats
+ */
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKDAYS = 'weekdays',
+  WEEKLY = 'weekly',
+  RRULE = 'rrule',
+}
+
+/**
+ * Lifecycle state of a recurring task series
+ */
+export enum RecurringTaskStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused',
+}
+
 // ==========================================
 // TASK USER INTERFACES
 // ==========================================
@@ -64,6 +111,30 @@ export interface TaskUser {
   name: string;
 }
 
+/**
+ * Assignee with their own progress on a task
+ */
+export interface TaskAssignee extends TaskUser {
+  /** Assignee's reaction to the task */
+  reaction: TaskReaction | null;
+  /** When this assignee completed the task */
+  completedAt: admin.firestore.Timestamp | null;
+  /** Number of time extensions this assignee requested */
+  extensionCount: number;
+}
+
+/**
+ * Serialized task assignee for API responses
+ */
+export interface TaskAssigneeResponse extends TaskUser {
+  /** Assignee's reaction to the task */
+  reaction: TaskReaction | null;
+  /** When this assignee completed the task (ISO string) */
+  completedAt: string | null;
+  /** Number of time extensions this assignee requested */
+  extensionCount: number;
+}
+
 // ==========================================
 // TASK URGENCY INTERFACES
 // ==========================================
@@ -120,6 +191,112 @@ export interface TaskNotificationResponse {
   error?: string | null;
 }
 
+// ==========================================
+// TASK REMINDER INTERFACES
+// ==========================================
+
+/**
+ * Pre-expiry reminder schedule for the assignee
+ */
+export interface TaskReminders {
+  /** Next reminder time (null when none remain) */
+  nextAt: admin.firestore.Timestamp | null;
+  /** Upcoming reminder times in ascending order (includes nextAt) */
+  pendingAt: admin.firestore.Timestamp[];
+  /** Number of reminders sent so far */
+  sentCount: number;
+}
+
+// ==========================================
+// TASK REVIEW INTERFACES
+// ==========================================
+
+/**
+ * Approval state for tasks that require the creator's approval
+ */
+export interface TaskReview {
+  /** When the task was last submitted for review */
+  submittedAt: admin.firestore.Timestamp | null;
+  /** Reason given with the last rejection */
+  rejectionReason: string | null;
+  /** Number of times the creator sent the task back */
+  rejectionCount: number;
+}
+
+/**
+ * Serialized task review for API responses
+ */
+export interface TaskReviewResponse {
+  /** When the task was last submitted for review (ISO string) */
+  submittedAt: string | null;
+  /** Reason given with the last rejection */
+  rejectionReason: string | null;
+  /** Number of times the creator sent the task back */
+  rejectionCount: number;
+}
+
+// ==========================================
+// TASK ATTACHMENT INTERFACES
+// ==========================================
+
+/**
+ * File attached to a task (e.g. proof of completion)
+ */
+export interface TaskAttachment {
+  /** Unique attachment ID */
+  id: string;
+  /** Original file name */
+  fileName: string;
+  /** MIME type reported on upload */
+  mimeType: string;
+  /** File size in bytes */
+  size: number;
+  /** Key of the file in attachment storage */
+  storageKey: string;
+  /** User who uploaded the file */
+  uploadedBy: TaskUser;
+  /** When the file was uploaded */
+  uploadedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Serialized task attachment for API responses
+ */
+export interface TaskAttachmentResponse {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploadedBy: TaskUser;
+  /** When the file was uploaded (ISO string) */
+  uploadedAt: string;
+  /** Route to download the file (relative to the API prefix) */
+  downloadPath: string;
+}
+
+/**
+ * Uploaded file as received from the multipart parser
+ */
+export interface TaskAttachmentUpload {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+/**
+ * Backend that stores attachment file contents
+ * Metadata lives on the task document; implementations only handle bytes
+ */
+export interface AttachmentStorage {
+  /** Store a file under the given key */
+  save(key: string, data: Buffer, mimeType: string): Promise<void>;
+  /** Read a file's contents */
+  read(key: string): Promise<Buffer>;
+  /** Remove a file (missing files are ignored) */
+  delete(key: string): Promise<void>;
+}
+
 // ==========================================
 // TASK DOCUMENT INTERFACES
 // ==========================================
@@ -134,11 +311,17 @@ export interface TaskDocument {
   note: string | null;
   /** User who created the task */
   createdBy: TaskUser;
-  /** User assigned to the task */
+  /** Primary (first) assignee */
   assignedTo: TaskUser;
+  /** All assignees with their progress (absent on legacy single-assignee tasks) */
+  assignees?: TaskAssignee[];
+  /** Assignee UIDs for array-contains queries */
+  assigneeUids?: string[];
+  /** When the task counts as completed (defaults to any) */
+  completionRule?: TaskCompletionRule;
   /** Current task status */
   status: TaskStatus;
-  /** Assignee's reaction to the task */
+  /** Most recent reaction from any assignee */
   assigneeReaction: TaskReaction | null;
   /** Urgency configuration */
   urgency: TaskUrgency;
@@ -150,8 +333,20 @@ export interface TaskDocument {
   updatedAt: admin.firestore.Timestamp;
   /** Time-to-live for automatic cleanup */
   ttl: admin.firestore.Timestamp;
-  /** Number of time extensions applied (running late) */
+  /** Number of time extensions applied across all assignees (running late) */
   extensionCount: number;
+  /** Reminder schedule (absent on tasks created before reminders existed) */
+  reminders?: TaskReminders;
+  /** Recurring series this task was created from */
+  seriesId?: string | null;
+  /** Number of comments (absent on tasks without comments) */
+  commentCount?: number;
+  /** Whether completion needs the creator's approval */
+  requiresApproval?: boolean;
+  /** Approval state (only on tasks that require approval) */
+  review?: TaskReview;
+  /** Attached files (absent on tasks without attachments) */
+  attachments?: TaskAttachment[];
 }
 
 /**
@@ -178,11 +373,15 @@ export interface TaskResponse {
   note: string | null;
   /** User who created the task */
   createdBy: TaskUser;
-  /** User assigned to the task */
+  /** Primary (first) assignee */
   assignedTo: TaskUser;
+  /** All assignees with their progress */
+  assignees: TaskAssigneeResponse[];
+  /** When the task counts as completed */
+  completionRule: TaskCompletionRule;
   /** Current task status */
   status: TaskStatus;
-  /** Assignee's reaction to the task */
+  /** Most recent reaction from any assignee */
   assigneeReaction: TaskReaction | null;
   /** Urgency information */
   urgency: TaskUrgencyResponse;
@@ -194,6 +393,210 @@ export interface TaskResponse {
   updatedAt: string;
   /** Number of time extensions applied */
   extensionCount: number;
+  /** Recurring series this task was created from */
+  seriesId: string | null;
+  /** Number of comments */
+  commentCount: number;
+  /** Whether completion needs the creator's approval */
+  requiresApproval: boolean;
+  /** Approval state (null unless approval is required) */
+  review: TaskReviewResponse | null;
+  /** Attached files */
+  attachments: TaskAttachmentResponse[];
+}
+
+// ==========================================
+// TASK COMMENT INTERFACES
+// ==========================================
+
+/**
+ * Firestore document data for a task comment (tasks/{id}/comments)
+ */
+export interface TaskCommentDocument {
+  /** User who wrote the comment */
+  author: TaskUser;
+  /** Comment text */
+  body: string;
+  /** When the comment was posted */
+  createdAt: admin.firestore.Timestamp;
+  /** When the comment was last edited (null if never) */
+  editedAt: admin.firestore.Timestamp | null;
+}
+
+/**
+ * Task comment with ID (retrieved from Firestore)
+ */
+export interface TaskComment extends TaskCommentDocument {
+  /** Unique comment ID (Firestore document ID) */
+  id: string;
+}
+
+/**
+ * Serialized task comment for API responses
+ */
+export interface TaskCommentResponse {
+  id: string;
+  taskId: string;
+  author: TaskUser;
+  body: string;
+  /** When the comment was posted (ISO string) */
+  createdAt: string;
+  /** When the comment was last edited (ISO string) */
+  editedAt: string | null;
+}
+
+// ==========================================
+// TASK EVENT INTERFACES
+// ==========================================
+
+/**
+ * Value recorded in a task history change
+ * Timestamps are stored as ISO strings
+ */
+export type TaskEventValue = string | number | boolean | string[] | null;
+
+/**
+ * A single field change in a task history entry
+ */
+export interface TaskEventChange {
+  /** Changed field (e.g. status, urgency.expiresAt) */
+  field: string;
+  /** Value before the change */
+  from: TaskEventValue;
+  /** Value after the change */
+  to: TaskEventValue;
+}
+
+/**
+ * Firestore document data for a task history entry (append-only)
+ */
+export interface TaskEventDocument {
+  /** Task the entry belongs to */
+  taskId: string;
+  /** What happened */
+  type: TaskEventType;
+  /** User who made the change (system for background jobs) */
+  actorUid: string;
+  /** Field changes with old and new values */
+  changes: TaskEventChange[];
+  /** Extra context, e.g. notification recipient and error */
+  detail: string | null;
+  /** Creator and assignees at the time, who may read the entry */
+  participantUids: string[];
+  /** When the change happened */
+  createdAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Serialized task history entry for API responses
+ */
+export interface TaskEventResponse {
+  id: string;
+  taskId: string;
+  type: TaskEventType;
+  actorUid: string;
+  changes: TaskEventChange[];
+  detail: string | null;
+  /** When the change happened (ISO string) */
+  createdAt: string;
+}
+
+// ==========================================
+// RECURRING TASK INTERFACES
+// ==========================================
+
+/**
+ * Schedule rule for a recurring task series
+ */
+export interface RecurrenceRule {
+  /** Repeat frequency */
+  frequency: RecurrenceFrequency;
+  /** Days of the week for weekly rules (0 = Sunday) */
+  daysOfWeek?: number[];
+  /** RRULE for rrule frequency (FREQ=DAILY|WEEKLY, INTERVAL, BYDAY) */
+  rrule?: string;
+  /** Local time of day to create each task (HH:mm) */
+  timeOfDay: string;
+  /** IANA time zone for timeOfDay */
+  timeZone: string;
+}
+
+/**
+ * Firestore document data for a recurring task series
+ */
+export interface RecurringTaskDocument {
+  /** Title for each created task */
+  title: string;
+  /** Note for each created task */
+  note: string | null;
+  /** Duration of each created task in minutes */
+  durationMinutes: number;
+  /** User who owns the series */
+  createdBy: TaskUser;
+  /** Primary assignee of each task */
+  assignedTo: TaskUser;
+  /** All assignees of each task (absent on single-assignee series) */
+  assignees?: TaskUser[];
+  /** Assignee UIDs for array-contains queries (absent on older series) */
+  assigneeUids?: string[];
+  /** Completion rule for each task */
+  completionRule?: TaskCompletionRule;
+  /** Whether each task needs the creator's approval */
+  requiresApproval?: boolean;
+  /** Schedule rule */
+  rule: RecurrenceRule;
+  /** Local date (YYYY-MM-DD) intervals are counted from */
+  anchorDate: string;
+  /** Series state */
+  status: RecurringTaskStatus;
+  /** Next time a task is due to be created (null while paused) */
+  nextRunAt: admin.firestore.Timestamp | null;
+  /** When a task was last created */
+  lastRunAt: admin.firestore.Timestamp | null;
+  /** ID of the last created task */
+  lastTaskId: string | null;
+  /** Error from the last run, if it failed */
+  lastError: string | null;
+  /** Number of tasks created so far */
+  occurrenceCount: number;
+  /** When the series was created */
+  createdAt: admin.firestore.Timestamp;
+  /** When the series was last updated */
+  updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Recurring task series with ID (retrieved from Firestore)
+ */
+export interface RecurringTask extends RecurringTaskDocument {
+  /** Unique series ID (Firestore document ID) */
+  id: string;
+}
+
+/**
+ * Serialized recurring task series for API responses
+ */
+export interface RecurringTaskResponse {
+  id: string;
+  title: string;
+  note: string | null;
+  durationMinutes: number;
+  createdBy: TaskUser;
+  assignedTo: TaskUser;
+  assignees: TaskUser[];
+  completionRule: TaskCompletionRule;
+  requiresApproval: boolean;
+  rule: RecurrenceRule;
+  status: RecurringTaskStatus;
+  /** Next creation time (ISO string) */
+  nextRunAt: string | null;
+  /** Last creation time (ISO string) */
+  lastRunAt: string | null;
+  lastTaskId: string | null;
+  lastError: string | null;
+  occurrenceCount: number;
+  createdAt: string;
+  updatedAt: string;
 }
 
 // ==========================================
@@ -270,6 +673,62 @@ export interface TaskDeleteResponse {
   message: string;
 }
 
+/**
+ * Task history response
+ */
+export interface TaskHistoryApiResponse {
+  items: TaskEventResponse[];
+  message?: string;
+}
+
+/**
+ * Single comment response
+ */
+export interface TaskCommentApiResponse {
+  comment: TaskCommentResponse;
+  message?: string;
+}
+
+/**
+ * Cursor-paginated comments response
+ */
+export interface TaskCommentsApiResponse {
+  items: TaskCommentResponse[];
+  pagination: {
+    /** Maximum items per page */
+    limit: number;
+    /** Whether there are more comments after this page */
+    hasMore: boolean;
+    /** Cursor for the next page (last comment ID) */
+    nextCursor: string | null;
+  };
+  message?: string;
+}
+
+/**
+ * Single attachment response
+ */
+export interface TaskAttachmentApiResponse {
+  attachment: TaskAttachmentResponse;
+  message?: string;
+}
+
+/**
+ * Single recurring series response
+ */
+export interface RecurringTaskApiResponse {
+  series: RecurringTaskResponse;
+  message?: string;
+}
+
+/**
+ * Recurring series list response
+ */
+export interface RecurringTasksApiResponse {
+  items: RecurringTaskResponse[];
+  message?: string;
+}
+
 // ==========================================
 // TASK FILTER INTERFACES
 // ==========================================
@@ -8,6 +8,16 @@ export * from './lib/tasks.module';
 
 // Service export
 export * from './lib/task.service';
+export * from './lib/task-expiry.service';
+export * from './lib/task-reminder.service';
+export * from './lib/recurring-task.service';
+export * from './lib/task-comment.service';
+export * from './lib/task-event.service';
+export * from './lib/task-attachment.service';
+export * from './lib/local-attachment.storage';
 
 // Controller export
 export * from './lib/task.controller';
+export * from './lib/recurring-task.controller';
+export * from './lib/task-comment.controller';
+export * from './lib/task-attachment.controller';
@@ -0,0 +1,54 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AppConfigService } from '@bringup/config';
+import { AttachmentStorage } from '@bringup/shared';
+
+/**
+ * Local Attachment Storage
+ * Default attachment backend that writes files to a directory on disk
+ */
+@Injectable()
+export class LocalAttachmentStorage implements AttachmentStorage {
+  private readonly logger = new Logger(LocalAttachmentStorage.name);
+  private readonly rootDir: string;
+
+  constructor(config: AppConfigService) {
+    this.rootDir = path.resolve(
+      process.cwd(),
+      config.storageConfig.attachmentsDir,
+    );
+  }
+
+  /**
+   * Absolute path for a key, refusing keys that escape the root directory
+   */
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.logger.debug(`Attachment ${key} already removed`);
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { RecurrenceFrequency, RecurrenceRule } from '@bringup/shared';
+import { nextOccurrence, parseRRule } from './recurrence.util';
+
+function rruleRule(rrule: string): RecurrenceRule {
+  return {
+    frequency: RecurrenceFrequency.RRULE,
+    rrule,
+    timeOfDay: '09:00',
+    timeZone: 'UTC',
+  };
+}
+
+// 2026-10-14 is a Wednesday
+const ANCHOR_DATE = '2026-10-14';
+
+describe('recurrence', () => {
+  describe('parseRRule', () => {
+    it('parses frequency, interval and days', () => {
+      expect(parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR')).toEqual({
+        unit: 'week',
+        interval: 2,
+        daysOfWeek: [1, 5],
+      });
+    });
+
+    it('rejects unsupported frequencies', () => {
+      expect(() => parseRRule('FREQ=MONTHLY')).toThrow();
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    it('repeats a weekly rule without BYDAY on the anchor weekday', () => {
+      const next = nextOccurrence(
+        rruleRule('FREQ=WEEKLY'),
+        ANCHOR_DATE,
+        new Date('2026-10-14T10:00:00Z'),
+      );
+
+      expect(next?.toISOString()).toBe('2026-10-21T09:00:00.000Z');
+    });
+
+    it('skips weeks of a weekly rule with an interval', () => {
+      const next = nextOccurrence(
+        rruleRule('FREQ=WEEKLY;INTERVAL=2'),
+        ANCHOR_DATE,
+        new Date('2026-10-15T00:00:00Z'),
+      );
+
+      expect(next?.toISOString()).toBe('2026-10-28T09:00:00.000Z');
+    });
+
+    it('uses BYDAY when a weekly rule gives it', () => {
+      const next = nextOccurrence(
+        rruleRule('FREQ=WEEKLY;BYDAY=FR'),
+        ANCHOR_DATE,
+        new Date('2026-10-14T10:00:00Z'),
+      );
+
+      expect(next?.toISOString()).toBe('2026-10-16T09:00:00.000Z');
+    });
+
+    it('keeps the local time of day across a DST change', () => {
+      const next = nextOccurrence(
+        { ...rruleRule('FREQ=DAILY'), timeZone: 'Europe/Berlin' },
+        ANCHOR_DATE,
+        new Date('2026-10-25T00:00:00Z'),
+      );
+
+      expect(next?.toISOString()).toBe('2026-10-25T08:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  RecurrenceFrequency,
+  RecurrenceRule,
+  RECURRING_TASKS,
+  TASK_ERROR_MESSAGES,
+  TASK_TIME_MS,
+} from '@bringup/shared';
+
+/**
+ * Recurrence helpers for recurring task series
+ * All calendar math happens in the series time zone so "09:00 every weekday"
+ * stays at 09:00 local time across DST changes
+ */
+
+/**
+ * Normalized rule: every `interval` days or weeks, optionally on given weekdays
+ */
+interface ExpandedRule {
+  unit: 'day' | 'week';
+  interval: number;
+  daysOfWeek: number[] | null;
+}
+
+/**
+ * Calendar date without a time zone
+ */
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const RRULE_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Parse the supported RRULE subset: FREQ=DAILY|WEEKLY, INTERVAL, BYDAY
+ */
+export function parseRRule(rrule: string): ExpandedRule {
+  const parts = rrule
+    .trim()
+    .toUpperCase()
+    .replace(/^RRULE:/, '')
+    .split(';')
+    .filter(Boolean);
+
+  let unit: ExpandedRule['unit'] | null = null;
+  let interval = 1;
+  let daysOfWeek: number[] | null = null;
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+
+    switch (key) {
+      case 'FREQ':
+        if (value === 'DAILY') unit = 'day';
+        else if (value === 'WEEKLY') unit = 'week';
+        else {
+          throw new BadRequestException(
+            TASK_ERROR_MESSAGES.INVALID_RRULE(`unsupported FREQ "${value}"`),
+          );
+        }
+        break;
+
+      case 'INTERVAL':
+        interval = Number(value);
+        if (
+          !Number.isInteger(interval) ||
+          interval < 1 ||
+          interval > RECURRING_TASKS.MAX_INTERVAL
+        ) {
+          throw new BadRequestException(
+            TASK_ERROR_MESSAGES.INVALID_RRULE(
+              `INTERVAL must be 1-${RECURRING_TASKS.MAX_INTERVAL}`,
+            ),
+          );
+        }
+        break;
+
+      case 'BYDAY':
+        daysOfWeek = (value ?? '').split(',').map((day) => {
+          const index = RRULE_DAYS.indexOf(day);
+          if (index === -1) {
+            throw new BadRequestException(
+              TASK_ERROR_MESSAGES.INVALID_RRULE(`unsupported BYDAY "${day}"`),
+            );
+          }
+          return index;
+        });
+        break;
+
+      default:
+        throw new BadRequestException(
+          TASK_ERROR_MESSAGES.INVALID_RRULE(`unsupported part "${key}"`),
+        );
+    }
+  }
+
+  if (!unit) {
+    throw new BadRequestException(
+      TASK_ERROR_MESSAGES.INVALID_RRULE('FREQ is required'),
+    );
+  }
+
+  return { unit, interval, daysOfWeek };
+}
+
+/**
+ * Expand any rule into the normalized form
+ */
+function expandRule(rule: RecurrenceRule): ExpandedRule {
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return { unit: 'day', interval: 1, daysOfWeek: null };
+    case RecurrenceFrequency.WEEKDAYS:
+      return { unit: 'day', interval: 1, daysOfWeek: WEEKDAYS };
+    case RecurrenceFrequency.WEEKLY:
+      return { unit: 'week', interval: 1, daysOfWeek: rule.daysOfWeek ?? [] };
+    case RecurrenceFrequency.RRULE:
+      return parseRRule(rule.rrule ?? '');
+  }
+}
+
+/**
+ * Calendar date of an instant in a time zone
+ */
+export function toLocalDate(instant: Date, timeZone: string): LocalDate {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(instant);
+
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return { year: get('year'), month: get('month'), day: get('day') };
+}
+
+/**
+ * Format a local date as YYYY-MM-DD
+ */
+export function formatLocalDate(date: LocalDate): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+/**
+ * Parse a YYYY-MM-DD local date
+ */
+function parseLocalDate(value: string): LocalDate {
+  const [year, month, day] = value.split('-').map(Number);
+  return { year, month, day };
+}
+
+/**
+ * Days since the epoch for a local date (time zone independent)
+ */
+function toEpochDay(date: LocalDate): number {
+  return Math.floor(
+    Date.UTC(date.year, date.month - 1, date.day) / TASK_TIME_MS.DAY,
+  );
+}
+
+/**
+ * Local date for a day number since the epoch
+ */
+function fromEpochDay(epochDay: number): LocalDate {
+  const date = new Date(epochDay * TASK_TIME_MS.DAY);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at an instant (ms)
+ */
+function timeZoneOffset(instantMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instantMs));
+
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+
+  return asUtc - Math.floor(instantMs / 1000) * 1000;
+}
+
+/**
+ * Instant of a local date and HH:mm in a time zone
+ */
+function toInstant(date: LocalDate, timeOfDay: string, timeZone: string): Date {
+  const [hour, minute] = timeOfDay.split(':').map(Number);
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+
+  // Correct once more in case the first guess crossed a DST boundary
+  const firstGuess = wallClock - timeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - timeZoneOffset(firstGuess, timeZone));
+}
+
+/**
+ * Validate a rule, throwing BadRequestException when it is unusable
+ */
+export function validateRule(rule: RecurrenceRule): void {
+  const expanded = expandRule(rule);
+  if (expanded.daysOfWeek && expanded.daysOfWeek.length === 0) {
+    throw new BadRequestException(
+      TASK_ERROR_MESSAGES.INVALID_RRULE('at least one day is required'),
+    );
+  }
+}
+
+/**
+ * Next occurrence strictly after `after`, or null if none is found
+ * Intervals are counted from anchorDate (YYYY-MM-DD in the rule time zone)
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  anchorDate: string,
+  after: Date,
+): Date | null {
+  const expanded = expandRule(rule);
+  const anchorDay = toEpochDay(parseLocalDate(anchorDate));
+  // Weeks are counted Sunday to Saturday (epoch day 0 was a Thursday)
+  const anchorWeek = Math.floor((anchorDay + 4) / 7);
+  // A weekly rule without BYDAY repeats on the anchor's weekday (RFC 5545)
+  const daysOfWeek =
+    expanded.unit === 'week' && !expanded.daysOfWeek
+      ? [(anchorDay + 4) % 7]
+      : expanded.daysOfWeek;
+  const startDay = Math.max(
+    anchorDay,
+    toEpochDay(toLocalDate(after, rule.timeZone)),
+  );
+
+  for (
+    let epochDay = startDay;
+    epochDay <= startDay + RECURRING_TASKS.MAX_LOOKAHEAD_DAYS;
+    epochDay++
+  ) {
+    const weekday = (epochDay + 4) % 7;
+
+    if (daysOfWeek && !daysOfWeek.includes(weekday)) {
+      continue;
+    }
+
+    const elapsed =
+      expanded.unit === 'day'
+        ? epochDay - anchorDay
+        : Math.floor((epochDay + 4) / 7) - anchorWeek;
+    if (elapsed % expanded.interval !== 0) {
+      continue;
+    }
+
+    const occurrence = toInstant(
+      fromEpochDay(epochDay),
+      rule.timeOfDay,
+      rule.timeZone,
+    );
+    if (occurrence.getTime() > after.getTime()) {
+      return occurrence;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,141 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { RecurringTaskService } from './recurring-task.service';
+import { CurrentUser } from '@bringup/auth';
+import {
+  CreateRecurringTaskDto,
+  RecurringTaskIdParamDto,
+  RecurringTaskApiResponse,
+  RecurringTasksApiResponse,
+  TaskDeleteResponse,
+  TASK_SUCCESS_MESSAGES,
+} from '@bringup/shared';
+
+/**
+ * Current user interface from auth decorator
+ */
+interface ICurrentUser {
+  uid: string;
+}
+
+/**
+ * Recurring Task Controller
+ * Handles recurring task series endpoints
+ */
+@Controller('recurring-tasks')
+export class RecurringTaskController {
+  constructor(private readonly recurringTaskService: RecurringTaskService) {}
+
+  /**
+   * Create a recurring task series
+   * POST /recurring-tasks
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createSeries(
+    @Body() dto: CreateRecurringTaskDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<RecurringTaskApiResponse> {
+    const series = await this.recurringTaskService.createSeries(dto, user.uid);
+    return {
+      series,
+      message: TASK_SUCCESS_MESSAGES.SERIES_CREATED,
+    };
+  }
+
+  /**
+   * Get recurring task series owned by current user
+   * GET /recurring-tasks
+   */
+  @Get()
+  async getMySeries(
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<RecurringTasksApiResponse> {
+    const items = await this.recurringTaskService.getMySeries(user.uid);
+    return {
+      items,
+      message: TASK_SUCCESS_MESSAGES.SERIES_RETRIEVED,
+    };
+  }
+
+  /**
+   * Get a single recurring task series
+   * GET /recurring-tasks/:id
+   */
+  @Get(':id')
+  async getSeries(
+    @Param() params: RecurringTaskIdParamDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<RecurringTaskApiResponse> {
+    const series = await this.recurringTaskService.getSeriesById(
+      params.id,
+      user.uid,
+    );
+    return {
+      series,
+    };
+  }
+
+  /**
+   * Pause a recurring task series
+   * PATCH /recurring-tasks/:id/pause
+   */
+  @Patch(':id/pause')
+  async pauseSeries(
+    @Param() params: RecurringTaskIdParamDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<RecurringTaskApiResponse> {
+    const series = await this.recurringTaskService.pauseSeries(
+      params.id,
+      user.uid,
+    );
+    return {
+      series,
+      message: TASK_SUCCESS_MESSAGES.SERIES_PAUSED,
+    };
+  }
+
+  /**
+   * Resume a paused recurring task series
+   * PATCH /recurring-tasks/:id/resume
+   */
+  @Patch(':id/resume')
+  async resumeSeries(
+    @Param() params: RecurringTaskIdParamDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<RecurringTaskApiResponse> {
+    const series = await this.recurringTaskService.resumeSeries(
+      params.id,
+      user.uid,
+    );
+    return {
+      series,
+      message: TASK_SUCCESS_MESSAGES.SERIES_RESUMED,
+    };
+  }
+
+  /**
+   * Delete a recurring task series
+   * DELETE /recurring-tasks/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteSeries(
+    @Param() params: RecurringTaskIdParamDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskDeleteResponse> {
+    await this.recurringTaskService.deleteSeries(params.id, user.uid);
+    return {
+      message: TASK_SUCCESS_MESSAGES.SERIES_DELETED,
+    };
+  }
+}
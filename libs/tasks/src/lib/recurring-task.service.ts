@@ -0,0 +1,483 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import * as admin from 'firebase-admin';
+import {
+  CreateRecurringTaskDto,
+  FirebaseUser,
+  FIRESTORE_TOKEN,
+  RecurrenceRule,
+  RecurringTask,
+  RecurringTaskDocument,
+  RecurringTaskResponse,
+  RecurringTaskStatus,
+  TaskCompletionRule,
+  TaskUser,
+  RECURRING_TASKS,
+  TASK_COLLECTIONS,
+  TASK_ERROR_MESSAGES,
+} from '@bringup/shared';
+import { DistributedLockService } from '@bringup/database';
+import { TaskService } from './task.service';
+import { collectAssigneeEmails } from './task-assignees.util';
+import {
+  formatLocalDate,
+  nextOccurrence,
+  toLocalDate,
+  validateRule,
+} from './recurrence.util';
+
+/**
+ * Recurring Task Service
+ * Manages recurring task series and creates their tasks on schedule
+ */
+@Injectable()
+export class RecurringTaskService {
+  private readonly logger = new Logger(RecurringTaskService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    private readonly taskService: TaskService,
+    private readonly lockService: DistributedLockService,
+  ) {}
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * Convert Firestore Timestamp to ISO string
+   */
+  private toISOString(
+    timestamp: admin.firestore.Timestamp | null,
+  ): string | null {
+    return timestamp ? timestamp.toDate().toISOString() : null;
+  }
+
+  /**
+   * Transform series document to API response format
+   */
+  private transformToResponse(series: RecurringTask): RecurringTaskResponse {
+    return {
+      id: series.id,
+      title: series.title,
+      note: series.note,
+      durationMinutes: series.durationMinutes,
+      createdBy: series.createdBy,
+      assignedTo: series.assignedTo,
+      assignees: series.assignees ?? [series.assignedTo],
+      completionRule: series.completionRule ?? TaskCompletionRule.ANY,
+      requiresApproval: series.requiresApproval ?? false,
+      rule: series.rule,
+      status: series.status,
+      nextRunAt: this.toISOString(series.nextRunAt),
+      lastRunAt: this.toISOString(series.lastRunAt),
+      lastTaskId: series.lastTaskId,
+      lastError: series.lastError,
+      occurrenceCount: series.occurrenceCount,
+      createdAt: this.toISOString(series.createdAt) as string,
+      updatedAt: this.toISOString(series.updatedAt) as string,
+    };
+  }
+
+  /**
+   * Next run time for a series as a Timestamp
+   */
+  private computeNextRunAt(
+    rule: RecurrenceRule,
+    anchorDate: string,
+    after: Date,
+  ): admin.firestore.Timestamp {
+    const next = nextOccurrence(rule, anchorDate, after);
+
+    if (!next) {
+      throw new BadRequestException(TASK_ERROR_MESSAGES.NO_UPCOMING_OCCURRENCE);
+    }
+
+    return admin.firestore.Timestamp.fromDate(next);
+  }
+
+  /**
+   * Get task user reference for the series owner
+   */
+  private async getCreator(uid: string): Promise<TaskUser> {
+    const userDoc = await this.firestore
+      .collection(TASK_COLLECTIONS.USERS)
+      .doc(uid)
+      .get();
+
+    if (!userDoc.exists) {
+      throw new NotFoundException(TASK_ERROR_MESSAGES.CREATOR_NOT_FOUND);
+    }
+
+    const data = userDoc.data() as FirebaseUser;
+    return {
+      uid,
+      email: data.email ?? '',
+      name: data.name ?? 'Unknown',
+    };
+  }
+
+  /**
+   * Get series document with ownership check
+   */
+  private async getOwnedSeries(
+    seriesId: string,
+    userUid: string,
+  ): Promise<{
+    series: RecurringTask;
+    seriesRef: admin.firestore.DocumentReference;
+  }> {
+    const seriesRef = this.firestore
+      .collection(TASK_COLLECTIONS.RECURRING_TASKS)
+      .doc(seriesId);
+    const seriesDoc = await seriesRef.get();
+
+    if (!seriesDoc.exists) {
+      throw new NotFoundException(TASK_ERROR_MESSAGES.SERIES_NOT_FOUND);
+    }
+
+    const data = seriesDoc.data() as RecurringTaskDocument;
+
+    if (data.createdBy.uid !== userUid) {
+      throw new ForbiddenException(
+        TASK_ERROR_MESSAGES.ONLY_CREATOR_CAN_MANAGE_SERIES,
+      );
+    }
+
+    return {
+      series: { id: seriesDoc.id, ...data },
+      seriesRef,
+    };
+  }
+
+  // ==========================================
+  // PUBLIC METHODS
+  // ==========================================
+
+  /**
+   * Create a recurring task series
+   */
+  async createSeries(
+    dto: CreateRecurringTaskDto,
+    creatorUid: string,
+  ): Promise<RecurringTaskResponse> {
+    const {
+      title,
+      note,
+      durationMinutes,
+      completionRule = TaskCompletionRule.ANY,
+      requiresApproval = false,
+      rule,
+    } = dto;
+
+    validateRule(rule);
+
+    const countSnapshot = await this.firestore
+      .collection(TASK_COLLECTIONS.RECURRING_TASKS)
+      .where('createdBy.uid', '==', creatorUid)
+      .count()
+      .get();
+
+    if (countSnapshot.data().count >= RECURRING_TASKS.MAX_SERIES_PER_USER) {
+      throw new BadRequestException(TASK_ERROR_MESSAGES.MAX_SERIES);
+    }
+
+    const creator = await this.getCreator(creatorUid);
+    const assignees = await this.taskService.resolveAssignees(
+      collectAssigneeEmails(dto),
+      creatorUid,
+    );
+
+    const now = admin.firestore.Timestamp.now();
+    const anchorDate = formatLocalDate(
+      toLocalDate(now.toDate(), rule.timeZone),
+    );
+
+    const seriesData: RecurringTaskDocument = {
+      title: title.trim(),
+      note: note?.trim() ?? null,
+      durationMinutes,
+      createdBy: creator,
+      assignedTo: assignees[0],
+      assignees,
+      assigneeUids: assignees.map((assignee) => assignee.uid),
+      completionRule,
+      requiresApproval,
+      rule: {
+        frequency: rule.frequency,
+        timeOfDay: rule.timeOfDay,
+        timeZone: rule.timeZone,
+        ...(rule.daysOfWeek && { daysOfWeek: rule.daysOfWeek }),
+        ...(rule.rrule && { rrule: rule.rrule }),
+      },
+      anchorDate,
+      status: RecurringTaskStatus.ACTIVE,
+      nextRunAt: this.computeNextRunAt(rule, anchorDate, now.toDate()),
+      lastRunAt: null,
+      lastTaskId: null,
+      lastError: null,
+      occurrenceCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const seriesRef = await this.firestore
+      .collection(TASK_COLLECTIONS.RECURRING_TASKS)
+      .add(seriesData);
+
+    this.logger.log(`Recurring task ${seriesRef.id} created by ${creatorUid}`);
+
+    return this.transformToResponse({ id: seriesRef.id, ...seriesData });
+  }
+
+  /**
+   * List series owned by a user
+   */
+  async getMySeries(userUid: string): Promise<RecurringTaskResponse[]> {
+    const snapshot = await this.firestore
+      .collection(TASK_COLLECTIONS.RECURRING_TASKS)
+      .where('createdBy.uid', '==', userUid)
+      .orderBy('createdAt', 'desc')
+      .get();
+
+    return snapshot.docs.map((doc) =>
+      this.transformToResponse({
+        id: doc.id,
+        ...(doc.data() as RecurringTaskDocument),
+      }),
+    );
+  }
+
+  /**
+   * Get a single series
+   */
+  async getSeriesById(
+    seriesId: string,
+    userUid: string,
+  ): Promise<RecurringTaskResponse> {
+    const { series } = await this.getOwnedSeries(seriesId, userUid);
+    return this.transformToResponse(series);
+  }
+
+  /**
+   * Pause a series, no tasks are created until it is resumed
+   */
+  async pauseSeries(
+    seriesId: string,
+    userUid: string,
+  ): Promise<RecurringTaskResponse> {
+    const { series, seriesRef } = await this.getOwnedSeries(seriesId, userUid);
+
+    if (series.status === RecurringTaskStatus.PAUSED) {
+      throw new BadRequestException(TASK_ERROR_MESSAGES.SERIES_ALREADY_PAUSED);
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    await seriesRef.update({
+      status: RecurringTaskStatus.PAUSED,
+      nextRunAt: null,
+      updatedAt: now,
+    });
+
+    return this.transformToResponse({
+      ...series,
+      status: RecurringTaskStatus.PAUSED,
+      nextRunAt: null,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Resume a paused series from its next occurrence
+   * Occurrences missed while paused are not backfilled
+   */
+  async resumeSeries(
+    seriesId: string,
+    userUid: string,
+  ): Promise<RecurringTaskResponse> {
+    const { series, seriesRef } = await this.getOwnedSeries(seriesId, userUid);
+
+    if (series.status === RecurringTaskStatus.ACTIVE) {
+      throw new BadRequestException(TASK_ERROR_MESSAGES.SERIES_ALREADY_ACTIVE);
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const nextRunAt = this.computeNextRunAt(
+      series.rule,
+      series.anchorDate,
+      now.toDate(),
+    );
+
+    await seriesRef.update({
+      status: RecurringTaskStatus.ACTIVE,
+      nextRunAt,
+      updatedAt: now,
+    });
+
+    return this.transformToResponse({
+      ...series,
+      status: RecurringTaskStatus.ACTIVE,
+      nextRunAt,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Delete a series, tasks already created keep their series link
+   */
+  async deleteSeries(seriesId: string, userUid: string): Promise<void> {
+    const { seriesRef } = await this.getOwnedSeries(seriesId, userUid);
+    await seriesRef.delete();
+    this.logger.log(`Recurring task ${seriesId} deleted by user ${userUid}`);
+  }
+
+  // ==========================================
+  // SCHEDULED RUNS
+  // ==========================================
+
+  /**
+   * Scheduled entry point, only one instance runs series at a time
+   */
+  @Interval(RECURRING_TASKS.INTERVAL_MS)
+  async handleDueSeries(): Promise<void> {
+    try {
+      await this.lockService.runExclusive(
+        RECURRING_TASKS.LOCK_NAME,
+        RECURRING_TASKS.LOCK_TTL_MS,
+        () => this.runDueSeries(),
+      );
+    } catch (error) {
+      this.logger.error('Recurring task run failed:', error);
+    }
+  }
+
+  /**
+   * Create tasks for every series that is due
+   * Returns the number of tasks created
+   */
+  async runDueSeries(): Promise<number> {
+    let createdCount = 0;
+
+    for (;;) {
+      const now = admin.firestore.Timestamp.now();
+      const snapshot = await this.firestore
+        .collection(TASK_COLLECTIONS.RECURRING_TASKS)
+        .where('status', '==', RecurringTaskStatus.ACTIVE)
+        .where('nextRunAt', '<=', now)
+        .orderBy('nextRunAt', 'asc')
+        .limit(RECURRING_TASKS.BATCH_SIZE)
+        .get();
+
+      if (snapshot.empty) {
+        break;
+      }
+
+      let claimedCount = 0;
+      for (const doc of snapshot.docs) {
+        const series = await this.claimOccurrence(doc.ref, now);
+        if (!series) {
+          continue;
+        }
+
+        claimedCount += 1;
+        if (await this.createOccurrence(doc.ref, series)) {
+          createdCount += 1;
+        }
+      }
+
+      if (claimedCount === 0 || snapshot.size < RECURRING_TASKS.BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (createdCount > 0) {
+      this.logger.log(`Created ${createdCount} tasks from recurring series`);
+    }
+
+    return createdCount;
+  }
+
+  /**
+   * Advance a series to its next occurrence before creating the task, pausing
+   * it when the rule has no occurrence left
+   * Returns null if the series was paused, deleted or already advanced
+   */
+  private async claimOccurrence(
+    seriesRef: admin.firestore.DocumentReference,
+    now: admin.firestore.Timestamp,
+  ): Promise<RecurringTask | null> {
+    return this.firestore.runTransaction(async (transaction) => {
+      const seriesDoc = await transaction.get(seriesRef);
+      if (!seriesDoc.exists) {
+        return null;
+      }
+
+      const data = seriesDoc.data() as RecurringTaskDocument;
+      if (
+        data.status !== RecurringTaskStatus.ACTIVE ||
+        !data.nextRunAt ||
+        data.nextRunAt.toMillis() > now.toMillis()
+      ) {
+        return null;
+      }
+
+      // Missed occurrences (e.g. downtime) collapse into this single run
+      const next = nextOccurrence(data.rule, data.anchorDate, now.toDate());
+      const nextRunAt = next ? admin.firestore.Timestamp.fromDate(next) : null;
+
+      transaction.update(seriesRef, {
+        // A series with no run left stops instead of staying active unscheduled
+        ...(!nextRunAt && { status: RecurringTaskStatus.PAUSED }),
+        nextRunAt,
+        lastRunAt: now,
+        occurrenceCount: admin.firestore.FieldValue.increment(1),
+        updatedAt: now,
+      });
+
+      return { id: seriesDoc.id, ...data };
+    });
+  }
+
+  /**
+   * Create the task for a claimed occurrence
+   */
+  private async createOccurrence(
+    seriesRef: admin.firestore.DocumentReference,
+    series: RecurringTask,
+  ): Promise<boolean> {
+    try {
+      const task = await this.taskService.createTask(
+        {
+          title: series.title,
+          note: series.note,
+          durationMinutes: series.durationMinutes,
+          assignToEmails: (series.assignees ?? [series.assignedTo]).map(
+            (assignee) => assignee.email,
+          ),
+          completionRule: series.completionRule,
+          requiresApproval: series.requiresApproval,
+        },
+        series.createdBy.uid,
+        series.id,
+      );
+
+      await seriesRef.update({ lastTaskId: task.id, lastError: null });
+      return true;
+    } catch (error) {
+      const message = (error as Error).message;
+      this.logger.warn(
+        `Failed to create task for recurring series ${series.id}: ${message}`,
+      );
+      await seriesRef.update({ lastError: message }).catch(() => undefined);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  TaskAssignee,
+  TaskCompletionRule,
+  TaskDocument,
+  TaskStatus,
+  TaskUser,
+} from '@bringup/shared';
+
+/**
+ * Assignee helpers for multi-assignee tasks
+ * Tasks created before multi-assignee support only have assignedTo, so every
+ * reader goes through getTaskAssignees instead of reading assignees directly
+ */
+
+/**
+ * All assignees of a task with their progress
+ */
+export function getTaskAssignees(task: TaskDocument): TaskAssignee[] {
+  if (task.assignees?.length) {
+    return task.assignees;
+  }
+
+  return [
+    {
+      ...task.assignedTo,
+      reaction: task.assigneeReaction,
+      completedAt: task.status === TaskStatus.COMPLETED ? task.updatedAt : null,
+      extensionCount: task.extensionCount ?? 0,
+    },
+  ];
+}
+
+/**
+ * Assignees who have not completed their part yet
+ */
+export function getOpenAssignees(task: TaskDocument): TaskAssignee[] {
+  return getTaskAssignees(task).filter((assignee) => !assignee.completedAt);
+}
+
+/**
+ * Whether a user is one of the task's assignees
+ */
+export function isTaskAssignee(task: TaskDocument, uid: string): boolean {
+  return getTaskAssignees(task).some((assignee) => assignee.uid === uid);
+}
+
+/**
+ * Completion rule of a task (single-assignee tasks behave as any)
+ */
+export function getCompletionRule(task: TaskDocument): TaskCompletionRule {
+  return task.completionRule ?? TaskCompletionRule.ANY;
+}
+
+/**
+ * Whether the assignees' progress satisfies the completion rule
+ */
+export function isCompletionMet(
+  assignees: TaskAssignee[],
+  rule: TaskCompletionRule,
+): boolean {
+  return rule === TaskCompletionRule.ALL
+    ? assignees.every((assignee) => assignee.completedAt)
+    : assignees.some((assignee) => assignee.completedAt);
+}
+
+/**
+ * New assignee entry with no progress
+ */
+export function toTaskAssignee(user: TaskUser): TaskAssignee {
+  return {
+    uid: user.uid,
+    email: user.email,
+    name: user.name,
+    reaction: null,
+    completedAt: null,
+    extensionCount: 0,
+  };
+}
+
+/**
+ * Assignee emails from a create or update request, deduplicated in order
+ */
+export function collectAssigneeEmails(dto: {
+  assignToEmail?: string;
+  assignToEmails?: string[];
+}): string[] {
+  const emails = [
+    ...(dto.assignToEmail ? [dto.assignToEmail] : []),
+    ...(dto.assignToEmails ?? []),
+  ].map((email) => email.toLowerCase().trim());
+
+  return Array.from(new Set(emails));
+}
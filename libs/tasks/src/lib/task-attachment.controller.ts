@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { TaskAttachmentService } from './task-attachment.service';
+import { CurrentUser } from '@bringup/auth';
+import {
+  TaskAttachmentParamDto,
+  TaskIdParamDto,
+  TaskAttachmentApiResponse,
+  TaskAttachmentUpload,
+  TaskDeleteResponse,
+  TASK_ATTACHMENTS,
+  TASK_SUCCESS_MESSAGES,
+} from '@bringup/shared';
+
+/**
+ * Current user interface from auth decorator
+ */
+interface ICurrentUser {
+  uid: string;
+}
+
+/**
+ * Task Attachment Controller
+ * Handles file attachment endpoints for a task
+ */
+@Controller('tasks/:id/attachments')
+export class TaskAttachmentController {
+  constructor(private readonly attachmentService: TaskAttachmentService) {}
+
+  /**
+   * Upload an attachment (multipart form field "file")
+   * POST /tasks/:id/attachments
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: TASK_ATTACHMENTS.MAX_FILE_SIZE_BYTES, files: 1 },
+    }),
+  )
+  async uploadAttachment(
+    @Param() params: TaskIdParamDto,
+    @UploadedFile() file: TaskAttachmentUpload | undefined,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskAttachmentApiResponse> {
+    const attachment = await this.attachmentService.uploadAttachment(
+      params.id,
+      file,
+      user.uid,
+    );
+    return {
+      attachment,
+      message: TASK_SUCCESS_MESSAGES.ATTACHMENT_UPLOADED,
+    };
+  }
+
+  /**
+   * Download an attachment
+   * GET /tasks/:id/attachments/:attachmentId
+   */
+  @Get(':attachmentId')
+  async downloadAttachment(
+    @Param() params: TaskAttachmentParamDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<StreamableFile> {
+    const { attachment, data } = await this.attachmentService.getAttachmentFile(
+      params.id,
+      params.attachmentId,
+      user.uid,
+    );
+    return new StreamableFile(data, {
+      type: attachment.mimeType,
+      length: data.length,
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+    });
+  }
+
+  /**
+   * Delete an attachment
+   * DELETE /tasks/:id/attachments/:attachmentId
+   */
+  @Delete(':attachmentId')
+  @HttpCode(HttpStatus.OK)
+  async deleteAttachment(
+    @Param() params: TaskAttachmentParamDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskDeleteResponse> {
+    await this.attachmentService.deleteAttachment(
+      params.id,
+      params.attachmentId,
+      user.uid,
+    );
+    return {
+      message: TASK_SUCCESS_MESSAGES.ATTACHMENT_DELETED,
+    };
+  }
+}
@@ -0,0 +1,290 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import * as admin from 'firebase-admin';
+import {
+  ATTACHMENT_STORAGE_TOKEN,
+  FIRESTORE_TOKEN,
+  Task,
+  TaskAttachment,
+  TaskAttachmentResponse,
+  TaskAttachmentUpload,
+  TaskDocument,
+  TaskEventType,
+  TaskUser,
+  TASK_ATTACHMENTS,
+  TASK_ERROR_MESSAGES,
+} from '@bringup/shared';
+import type { AttachmentStorage } from '@bringup/shared';
+import { TaskService } from './task.service';
+import { TaskEventService } from './task-event.service';
+import { getTaskAssignees } from './task-assignees.util';
+import { toAttachmentResponse } from './task-attachments.util';
+
+/**
+ * Task Attachment Service
+ * Stores files on tasks; metadata lives on the task document and contents
+ * in the configured attachment storage
+ */
+@Injectable()
+export class TaskAttachmentService {
+  private readonly logger = new Logger(TaskAttachmentService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    @Inject(ATTACHMENT_STORAGE_TOKEN)
+    private readonly storage: AttachmentStorage,
+    private readonly taskService: TaskService,
+    private readonly eventService: TaskEventService,
+  ) {}
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * Reject uploads that are missing, too large or of an unsupported type
+   */
+  private validateUpload(
+    file: TaskAttachmentUpload | undefined,
+  ): asserts file is TaskAttachmentUpload {
+    if (!file) {
+      throw new BadRequestException(TASK_ERROR_MESSAGES.ATTACHMENT_REQUIRED);
+    }
+    if (file.size > TASK_ATTACHMENTS.MAX_FILE_SIZE_BYTES) {
+      throw new PayloadTooLargeException(
+        TASK_ERROR_MESSAGES.ATTACHMENT_TOO_LARGE,
+      );
+    }
+    if (!TASK_ATTACHMENTS.ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException(
+        TASK_ERROR_MESSAGES.ATTACHMENT_TYPE_NOT_ALLOWED,
+      );
+    }
+  }
+
+  /**
+   * Task user reference for a participant
+   */
+  private getParticipant(task: Task, uid: string): TaskUser {
+    const participant =
+      task.createdBy.uid === uid
+        ? task.createdBy
+        : (getTaskAssignees(task).find(
+            (assignee) => assignee.uid === uid,
+          ) as TaskUser);
+
+    return {
+      uid: participant.uid,
+      email: participant.email,
+      name: participant.name,
+    };
+  }
+
+  /**
+   * Find an attachment on a task
+   */
+  private findAttachment(
+    task: TaskDocument,
+    attachmentId: string,
+  ): TaskAttachment {
+    const attachment = task.attachments?.find(
+      (item) => item.id === attachmentId,
+    );
+
+    if (!attachment) {
+      throw new NotFoundException(TASK_ERROR_MESSAGES.ATTACHMENT_NOT_FOUND);
+    }
+
+    return attachment;
+  }
+
+  // ==========================================
+  // PUBLIC METHODS
+  // ==========================================
+
+  /**
+   * Attach a file to a task (creator or assignee)
+   */
+  async uploadAttachment(
+    taskId: string,
+    file: TaskAttachmentUpload | undefined,
+    userUid: string,
+  ): Promise<TaskAttachmentResponse> {
+    this.validateUpload(file);
+
+    const { task, taskRef } = await this.taskService.getAuthorizedTask(
+      taskId,
+      userUid,
+    );
+
+    // Checked again in the transaction; this avoids storing a file for nothing
+    if ((task.attachments?.length ?? 0) >= TASK_ATTACHMENTS.MAX_PER_TASK) {
+      throw new BadRequestException(TASK_ERROR_MESSAGES.MAX_ATTACHMENTS);
+    }
+
+    const id = randomUUID();
+    const attachment: TaskAttachment = {
+      id,
+      fileName: path.basename(file.originalname).slice(0, 255),
+      mimeType: file.mimetype,
+      size: file.size,
+      storageKey: `${taskId}/${id}`,
+      uploadedBy: this.getParticipant(task, userUid),
+      uploadedAt: admin.firestore.Timestamp.now(),
+    };
+
+    await this.storage.save(attachment.storageKey, file.buffer, file.mimetype);
+
+    try {
+      await this.firestore.runTransaction(async (transaction) => {
+        const taskDoc = await transaction.get(taskRef);
+
+        if (!taskDoc.exists) {
+          throw new NotFoundException(TASK_ERROR_MESSAGES.TASK_NOT_FOUND);
+        }
+
+        const taskData = taskDoc.data() as TaskDocument;
+        const attachments = taskData.attachments ?? [];
+
+        if (attachments.length >= TASK_ATTACHMENTS.MAX_PER_TASK) {
+          throw new BadRequestException(TASK_ERROR_MESSAGES.MAX_ATTACHMENTS);
+        }
+
+        transaction.update(taskRef, {
+          attachments: [...attachments, attachment],
+          updatedAt: attachment.uploadedAt,
+        });
+
+        await this.eventService.record(
+          taskId,
+          taskData,
+          {
+            type: TaskEventType.ATTACHMENT_ADDED,
+            actorUid: userUid,
+            detail: attachment.fileName,
+          },
+          transaction,
+        );
+      });
+    } catch (error) {
+      // Don't leave an orphaned file behind
+      await this.storage
+        .delete(attachment.storageKey)
+        .catch((deleteError) =>
+          this.logger.warn(
+            `Failed to clean up attachment ${attachment.storageKey}:`,
+            deleteError,
+          ),
+        );
+      throw error;
+    }
+
+    this.logger.log(
+      `Attachment ${id} (${attachment.mimeType}, ${attachment.size} bytes) added to task ${taskId} by ${userUid}`,
+    );
+
+    return toAttachmentResponse(taskId, attachment);
+  }
+
+  /**
+   * Read an attachment's metadata and contents (creator or assignee)
+   */
+  async getAttachmentFile(
+    taskId: string,
+    attachmentId: string,
+    userUid: string,
+  ): Promise<{ attachment: TaskAttachment; data: Buffer }> {
+    const { task } = await this.taskService.getAuthorizedTask(taskId, userUid);
+    const attachment = this.findAttachment(task, attachmentId);
+
+    try {
+      const data = await this.storage.read(attachment.storageKey);
+      return { attachment, data };
+    } catch (error) {
+      this.logger.error(
+        `Failed to read attachment ${attachment.storageKey}:`,
+        error,
+      );
+      throw new NotFoundException(TASK_ERROR_MESSAGES.ATTACHMENT_NOT_FOUND);
+    }
+  }
+
+  /**
+   * Remove an attachment (uploader or task creator)
+   */
+  async deleteAttachment(
+    taskId: string,
+    attachmentId: string,
+    userUid: string,
+  ): Promise<void> {
+    const { taskRef } = await this.taskService.getAuthorizedTask(
+      taskId,
+      userUid,
+    );
+
+    const attachment = await this.firestore.runTransaction(
+      async (transaction) => {
+        const taskDoc = await transaction.get(taskRef);
+
+        if (!taskDoc.exists) {
+          throw new NotFoundException(TASK_ERROR_MESSAGES.TASK_NOT_FOUND);
+        }
+
+        const taskData = taskDoc.data() as TaskDocument;
+        const target = this.findAttachment(taskData, attachmentId);
+
+        if (
+          target.uploadedBy.uid !== userUid &&
+          taskData.createdBy.uid !== userUid
+        ) {
+          throw new ForbiddenException(
+            TASK_ERROR_MESSAGES.ONLY_UPLOADER_CAN_DELETE_ATTACHMENT,
+          );
+        }
+
+        transaction.update(taskRef, {
+          attachments: (taskData.attachments ?? []).filter(
+            (item) => item.id !== attachmentId,
+          ),
+          updatedAt: admin.firestore.Timestamp.now(),
+        });
+
+        await this.eventService.record(
+          taskId,
+          taskData,
+          {
+            type: TaskEventType.ATTACHMENT_REMOVED,
+            actorUid: userUid,
+            detail: target.fileName,
+          },
+          transaction,
+        );
+
+        return target;
+      },
+    );
+
+    try {
+      await this.storage.delete(attachment.storageKey);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete attachment file ${attachment.storageKey}:`,
+        error,
+      );
+    }
+
+    this.logger.log(
+      `Attachment ${attachmentId} on task ${taskId} deleted by ${userUid}`,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { TaskAttachment, TaskAttachmentResponse } from '@bringup/shared';
+
+/**
+ * Serialize an attachment with its download route
+ */
+export function toAttachmentResponse(
+  taskId: string,
+  attachment: TaskAttachment,
+): TaskAttachmentResponse {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    uploadedBy: attachment.uploadedBy,
+    uploadedAt: attachment.uploadedAt.toDate().toISOString(),
+    downloadPath: `/tasks/${taskId}/attachments/${attachment.id}`,
+  };
+}
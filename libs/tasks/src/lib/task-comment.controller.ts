@@ -0,0 +1,124 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { TaskCommentService } from './task-comment.service';
+import { CurrentUser } from '@bringup/auth';
+import {
+  GetTaskCommentsQueryDto,
+  TaskCommentBodyDto,
+  TaskCommentParamDto,
+  TaskIdParamDto,
+  TaskCommentApiResponse,
+  TaskCommentsApiResponse,
+  TaskDeleteResponse,
+  TASK_SUCCESS_MESSAGES,
+} from '@bringup/shared';
+
+/**
+ * Current user interface from auth decorator
+ */
+interface ICurrentUser {
+  uid: string;
+}
+
+/**
+ * Task Comment Controller
+ * Handles comment thread endpoints for a task
+ */
+@Controller('tasks/:id/comments')
+export class TaskCommentController {
+  constructor(private readonly commentService: TaskCommentService) {}
+
+  /**
+   * Post a comment
+   * POST /tasks/:id/comments
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createComment(
+    @Param() params: TaskIdParamDto,
+    @Body() dto: TaskCommentBodyDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskCommentApiResponse> {
+    const comment = await this.commentService.createComment(
+      params.id,
+      dto.body,
+      user.uid,
+    );
+    return {
+      comment,
+      message: TASK_SUCCESS_MESSAGES.COMMENT_CREATED,
+    };
+  }
+
+  /**
+   * List comments, oldest first
+   * GET /tasks/:id/comments?limit=20&cursor=<commentId>
+   */
+  @Get()
+  async getComments(
+    @Param() params: TaskIdParamDto,
+    @Query() query: GetTaskCommentsQueryDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskCommentsApiResponse> {
+    const result = await this.commentService.getComments(params.id, user.uid, {
+      limit: query.limit,
+      cursor: query.cursor,
+    });
+    return {
+      ...result,
+      message: TASK_SUCCESS_MESSAGES.COMMENTS_RETRIEVED,
+    };
+  }
+
+  /**
+   * Edit a comment
+   * PATCH /tasks/:id/comments/:commentId
+   */
+  @Patch(':commentId')
+  async updateComment(
+    @Param() params: TaskCommentParamDto,
+    @Body() dto: TaskCommentBodyDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskCommentApiResponse> {
+    const comment = await this.commentService.updateComment(
+      params.id,
+      params.commentId,
+      dto.body,
+      user.uid,
+    );
+    return {
+      comment,
+      message: TASK_SUCCESS_MESSAGES.COMMENT_UPDATED,
+    };
+  }
+
+  /**
+   * Delete a comment
+   * DELETE /tasks/:id/comments/:commentId
+   */
+  @Delete(':commentId')
+  @HttpCode(HttpStatus.OK)
+  async deleteComment(
+    @Param() params: TaskCommentParamDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskDeleteResponse> {
+    await this.commentService.deleteComment(
+      params.id,
+      params.commentId,
+      user.uid,
+    );
+    return {
+      message: TASK_SUCCESS_MESSAGES.COMMENT_DELETED,
+    };
+  }
+}
@@ -0,0 +1,328 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import * as admin from 'firebase-admin';
+import {
+  FirebaseUser,
+  FIRESTORE_TOKEN,
+  NotificationType,
+  Task,
+  TaskComment,
+  TaskCommentDocument,
+  TaskCommentResponse,
+  TaskCommentsApiResponse,
+  TaskUser,
+  TASK_COLLECTIONS,
+  TASK_COMMENT_PAGINATION_DEFAULTS,
+  TASK_ERROR_MESSAGES,
+} from '@bringup/shared';
+import { AlertService } from '@bringup/alert';
+import { TaskService } from './task.service';
+import { TaskEventService } from './task-event.service';
+import { getTaskAssignees } from './task-assignees.util';
+
+/**
+ * Task Comment Service
+ * Manages comment threads stored under tasks/{id}/comments
+ */
+@Injectable()
+export class TaskCommentService {
+  private readonly logger = new Logger(TaskCommentService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    private readonly taskService: TaskService,
+    private readonly notyService: AlertService,
+    private readonly eventService: TaskEventService,
+  ) {}
+
+  // ==========================================
+  // PRIVATE HELPERS
+  // ==========================================
+
+  /**
+   * Comments subcollection of a task
+   */
+  private commentsRef(taskId: string): admin.firestore.CollectionReference {
+    return this.firestore
+      .collection(TASK_COLLECTIONS.TASKS)
+      .doc(taskId)
+      .collection(TASK_COLLECTIONS.COMMENTS);
+  }
+
+  /**
+   * Transform comment document to API response format
+   */
+  private transformToResponse(
+    taskId: string,
+    comment: TaskComment,
+  ): TaskCommentResponse {
+    return {
+      id: comment.id,
+      taskId,
+      author: comment.author,
+      body: comment.body,
+      createdAt: comment.createdAt.toDate().toISOString(),
+      editedAt: comment.editedAt
+        ? comment.editedAt.toDate().toISOString()
+        : null,
+    };
+  }
+
+  /**
+   * Get task user reference for the comment author
+   */
+  private async getAuthor(uid: string): Promise<TaskUser> {
+    const userDoc = await this.firestore
+      .collection(TASK_COLLECTIONS.USERS)
+      .doc(uid)
+      .get();
+
+    const data = (userDoc.data() ?? {}) as FirebaseUser;
+    return {
+      uid,
+      email: data.email ?? '',
+      name: data.name ?? 'Unknown',
+    };
+  }
+
+  /**
+   * Get a comment the user wrote on a task they can access
+   */
+  private async getOwnComment(
+    taskId: string,
+    commentId: string,
+    userUid: string,
+  ): Promise<{
+    comment: TaskComment;
+    commentRef: admin.firestore.DocumentReference;
+  }> {
+    await this.taskService.getAuthorizedTask(taskId, userUid);
+
+    const commentRef = this.commentsRef(taskId).doc(commentId);
+    const comment = this.toOwnComment(await commentRef.get(), userUid);
+
+    return { comment, commentRef };
+  }
+
+  /**
+   * Comment from a snapshot, if it exists and the user wrote it
+   */
+  private toOwnComment(
+    commentDoc: admin.firestore.DocumentSnapshot,
+    userUid: string,
+  ): TaskComment {
+    if (!commentDoc.exists) {
+      throw new NotFoundException(TASK_ERROR_MESSAGES.COMMENT_NOT_FOUND);
+    }
+
+    const data = commentDoc.data() as TaskCommentDocument;
+
+    if (data.author.uid !== userUid) {
+      throw new ForbiddenException(
+        TASK_ERROR_MESSAGES.ONLY_AUTHOR_CAN_MODIFY_COMMENT,
+      );
+    }
+
+    return { id: commentDoc.id, ...data };
+  }
+
+  /**
+   * Notify everyone on the task except the author
+   */
+  private async notifyComment(
+    task: Task,
+    author: TaskUser,
+    body: string,
+  ): Promise<void> {
+    const recipients = new Set([
+      task.createdBy.uid,
+      ...getTaskAssignees(task).map((assignee) => assignee.uid),
+    ]);
+    recipients.delete(author.uid);
+
+    await Promise.all(
+      Array.from(recipients).map(async (recipientUid) => {
+        try {
+          await this.notyService.sendTaskCommentNotification({
+            taskId: task.id,
+            recipientUid,
+            authorUid: author.uid,
+            authorName: author.name,
+            taskTitle: task.title,
+            commentBody: body,
+          });
+          await this.recordNotification(task, author, recipientUid, null);
+        } catch (error) {
+          this.logger.warn(
+            `Failed to send comment notification for task ${task.id} to ${recipientUid}:`,
+            error,
+          );
+          await this.recordNotification(task, author, recipientUid, error);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Log a comment notification outcome in the task history
+   */
+  private async recordNotification(
+    task: Task,
+    author: TaskUser,
+    recipientUid: string,
+    error: unknown,
+  ): Promise<void> {
+    await this.eventService.recordNotification(task.id, task, {
+      type: NotificationType.TASK_COMMENT,
+      recipientUid,
+      actorUid: author.uid,
+      error: error ? (error as Error).message : null,
+    });
+  }
+
+  // ==========================================
+  // PUBLIC METHODS
+  // ==========================================
+
+  /**
+   * Post a comment on a task
+   */
+  async createComment(
+    taskId: string,
+    body: string,
+    userUid: string,
+  ): Promise<TaskCommentResponse> {
+    const { task, taskRef } = await this.taskService.getAuthorizedTask(
+      taskId,
+      userUid,
+    );
+    const author = await this.getAuthor(userUid);
+
+    const commentData: TaskCommentDocument = {
+      author,
+      body: body.trim(),
+      createdAt: admin.firestore.Timestamp.now(),
+      editedAt: null,
+    };
+
+    const commentRef = this.commentsRef(taskId).doc();
+    const batch = this.firestore.batch();
+    batch.set(commentRef, commentData);
+    batch.update(taskRef, {
+      commentCount: admin.firestore.FieldValue.increment(1),
+    });
+    await batch.commit();
+
+    await this.notifyComment(task, author, commentData.body);
+
+    return this.transformToResponse(taskId, {
+      id: commentRef.id,
+      ...commentData,
+    });
+  }
+
+  /**
+   * List comments on a task, oldest first
+   */
+  async getComments(
+    taskId: string,
+    userUid: string,
+    options: { limit?: number; cursor?: string } = {},
+  ): Promise<Omit<TaskCommentsApiResponse, 'message'>> {
+    const { limit = TASK_COMMENT_PAGINATION_DEFAULTS.DEFAULT_LIMIT, cursor } =
+      options;
+
+    await this.taskService.getAuthorizedTask(taskId, userUid);
+
+    let query = this.commentsRef(taskId).orderBy('createdAt', 'asc');
+
+    // If cursor is provided, start after that comment
+    if (cursor) {
+      const cursorDoc = await this.commentsRef(taskId).doc(cursor).get();
+      if (cursorDoc.exists) {
+        query = query.startAfter(cursorDoc);
+      }
+    }
+
+    // Fetch one extra to determine if there are more results
+    const snapshot = await query.limit(limit + 1).get();
+    const hasMore = snapshot.docs.length > limit;
+    const docs = hasMore ? snapshot.docs.slice(0, limit) : snapshot.docs;
+
+    return {
+      items: docs.map((doc) =>
+        this.transformToResponse(taskId, {
+          id: doc.id,
+          ...(doc.data() as TaskCommentDocument),
+        }),
+      ),
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor:
+          hasMore && docs.length > 0 ? docs[docs.length - 1].id : null,
+      },
+    };
+  }
+
+  /**
+   * Edit a comment (author only)
+   */
+  async updateComment(
+    taskId: string,
+    commentId: string,
+    body: string,
+    userUid: string,
+  ): Promise<TaskCommentResponse> {
+    const { comment, commentRef } = await this.getOwnComment(
+      taskId,
+      commentId,
+      userUid,
+    );
+
+    const editedAt = admin.firestore.Timestamp.now();
+    await commentRef.update({ body: body.trim(), editedAt });
+
+    return this.transformToResponse(taskId, {
+      ...comment,
+      body: body.trim(),
+      editedAt,
+    });
+  }
+
+  /**
+   * Delete a comment (author only)
+   */
+  async deleteComment(
+    taskId: string,
+    commentId: string,
+    userUid: string,
+  ): Promise<void> {
+    await this.taskService.getAuthorizedTask(taskId, userUid);
+
+    const commentRef = this.commentsRef(taskId).doc(commentId);
+
+    // Read and delete together so a repeated delete can't decrement twice
+    await this.firestore.runTransaction(async (transaction) => {
+      this.toOwnComment(await transaction.get(commentRef), userUid);
+
+      transaction.delete(commentRef);
+      transaction.update(
+        this.firestore.collection(TASK_COLLECTIONS.TASKS).doc(taskId),
+        {
+          commentCount: admin.firestore.FieldValue.increment(-1),
+        },
+      );
+    });
+
+    this.logger.log(
+      `Comment ${commentId} on task ${taskId} deleted by ${userUid}`,
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import * as admin from 'firebase-admin';
+import {
+  FIRESTORE_TOKEN,
+  NotificationType,
+  TaskDocument,
+  TaskEventChange,
+  TaskEventDocument,
+  TaskEventResponse,
+  TaskEventType,
+  TaskEventValue,
+  TASK_COLLECTIONS,
+  TASK_ERROR_MESSAGES,
+} from '@bringup/shared';
+import { getTaskAssignees, isTaskAssignee } from './task-assignees.util';
+
+/**
+ * Task Event Service
+ * Records an append-only history of changes to each task
+ */
+@Injectable()
+export class TaskEventService {
+  private readonly logger = new Logger(TaskEventService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+  ) {}
+
+  // ==========================================
+  // RECORDING
+  // ==========================================
+
+  /**
+   * Record a history entry
+   * Inside a transaction the entry is written atomically with the change;
+   * otherwise it is best effort and failures are only logged
+   */
+  async record(
+    taskId: string,
+    task: TaskDocument,
+    event: {
+      type: TaskEventType;
+      actorUid: string;
+      changes?: TaskEventChange[];
+      detail?: string | null;
+      /** Extra readers, e.g. assignees removed by this change */
+      extraParticipantUids?: string[];
+    },
+    transaction?: admin.firestore.Transaction,
+  ): Promise<void> {
+    const eventRef = this.firestore
+      .collection(TASK_COLLECTIONS.TASK_EVENTS)
+      .doc();
+
+    const eventData: TaskEventDocument = {
+      taskId,
+      type: event.type,
+      actorUid: event.actorUid,
+      changes: event.changes ?? [],
+      detail: event.detail ?? null,
+      participantUids: Array.from(
+        new Set([
+          task.createdBy.uid,
+          ...getTaskAssignees(task).map((assignee) => assignee.uid),
+          ...(event.extraParticipantUids ?? []),
+        ]),
+      ),
+      createdAt: admin.firestore.Timestamp.now(),
+    };
+
+    if (transaction) {
+      transaction.create(eventRef, eventData);
+      return;
+    }
+
+    try {
+      await eventRef.set(eventData);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record ${event.type} event for task ${taskId}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Field changes between two versions of a task
+   */
+  diff(before: TaskDocument, after: TaskDocument): TaskEventChange[] {
+    const snapshot = (task: TaskDocument): Record<string, TaskEventValue> => ({
+      title: task.title,
+      note: task.note,
+      status: task.status,
+      assigneeReaction: task.assigneeReaction,
+      completionRule: task.completionRule ?? null,
+      assigneeUids: getTaskAssignees(task).map((assignee) => assignee.uid),
+      'urgency.durationMinutes': task.urgency.durationMinutes,
+      'urgency.expiresAt': task.urgency.expiresAt.toDate().toISOString(),
+      extensionCount: task.extensionCount ?? 0,
+    });
+
+    const from = snapshot(before);
+    const to = snapshot(after);
+
+    return Object.keys(from)
+      .filter(
+        (field) => JSON.stringify(from[field]) !== JSON.stringify(to[field]),
+      )
+      .map((field) => ({ field, from: from[field], to: to[field] }));
+  }
+
+  /**
+   * Record the outcome of a notification sent about a task
+   */
+  async recordNotification(
+    taskId: string,
+    task: TaskDocument,
+    notification: {
+      type: NotificationType;
+      recipientUid: string;
+      actorUid: string;
+      error?: string | null;
+    },
+  ): Promise<void> {
+    const { type, recipientUid, actorUid, error } = notification;
+
+    await this.record(taskId, task, {
+      type: error
+        ? TaskEventType.NOTIFICATION_FAILED
+        : TaskEventType.NOTIFICATION_SENT,
+      actorUid,
+      detail: error
+        ? `${type} to ${recipientUid}: ${error}`
+        : `${type} to ${recipientUid}`,
+    });
+  }
+
+  // ==========================================
+  // QUERIES
+  // ==========================================
+
+  /**
+   * Get a task's history, oldest first
+   * Works for deleted tasks too, as long as the user took part in the task
+   */
+  async getHistory(
+    taskId: string,
+    userUid: string,
+  ): Promise<TaskEventResponse[]> {
+    const snapshot = await this.firestore
+      .collection(TASK_COLLECTIONS.TASK_EVENTS)
+      .where('taskId', '==', taskId)
+      .where('participantUids', 'array-contains', userUid)
+      .orderBy('createdAt', 'asc')
+      .get();
+
+    if (snapshot.empty) {
+      await this.assertTaskAccess(taskId, userUid);
+    }
+
+    return snapshot.docs.map((doc) => {
+      const data = doc.data() as TaskEventDocument;
+      return {
+        id: doc.id,
+        taskId: data.taskId,
+        type: data.type,
+        actorUid: data.actorUid,
+        changes: data.changes,
+        detail: data.detail,
+        createdAt: data.createdAt.toDate().toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Distinguish "no history yet" from a missing or foreign task
+   */
+  private async assertTaskAccess(
+    taskId: string,
+    userUid: string,
+  ): Promise<void> {
+    const taskDoc = await this.firestore
+      .collection(TASK_COLLECTIONS.TASKS)
+      .doc(taskId)
+      .get();
+
+    if (!taskDoc.exists) {
+      throw new NotFoundException(TASK_ERROR_MESSAGES.TASK_NOT_FOUND);
+    }
+
+    const task = taskDoc.data() as TaskDocument;
+    if (task.createdBy.uid !== userUid && !isTaskAssignee(task, userUid)) {
+      throw new ForbiddenException(TASK_ERROR_MESSAGES.ACCESS_DENIED);
+    }
+  }
+}
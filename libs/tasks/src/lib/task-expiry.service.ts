@@ -0,0 +1,192 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import * as admin from 'firebase-admin';
+import {
+  FIRESTORE_TOKEN,
+  NotificationType,
+  RealtimeEventType,
+  TaskDocument,
+  TaskEventType,
+  TaskStatus,
+  TASK_COLLECTIONS,
+  TASK_EVENTS,
+  TASK_EXPIRY_SWEEP,
+} from '@bringup/shared';
+import { AlertService, RealtimeService } from '@bringup/alert';
+import { DistributedLockService } from '@bringup/database';
+import { getOpenAssignees, getTaskAssignees } from './task-assignees.util';
+import { TaskEventService } from './task-event.service';
+
+/**
+ * Task Expiry Service
+ * Periodically moves pending tasks past their deadline to expired
+ * and notifies the creator and assignees
+ */
+@Injectable()
+export class TaskExpiryService {
+  private readonly logger = new Logger(TaskExpiryService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    private readonly notyService: AlertService,
+    private readonly realtimeService: RealtimeService,
+    private readonly lockService: DistributedLockService,
+    private readonly eventService: TaskEventService,
+  ) {}
+
+  /**
+   * Scheduled entry point, only one instance sweeps at a time
+   */
+  @Interval(TASK_EXPIRY_SWEEP.INTERVAL_MS)
+  async handleExpirySweep(): Promise<void> {
+    try {
+      await this.lockService.runExclusive(
+        TASK_EXPIRY_SWEEP.LOCK_NAME,
+        TASK_EXPIRY_SWEEP.LOCK_TTL_MS,
+        () => this.expireOverdueTasks(),
+      );
+    } catch (error) {
+      this.logger.error('Task expiry sweep failed:', error);
+    }
+  }
+
+  /**
+   * Expire all overdue pending tasks in batches
+   * Returns the number of tasks expired
+   */
+  async expireOverdueTasks(): Promise<number> {
+    let expiredCount = 0;
+
+    for (;;) {
+      const now = admin.firestore.Timestamp.now();
+      const snapshot = await this.firestore
+        .collection(TASK_COLLECTIONS.TASKS)
+        .where('status', '==', TaskStatus.PENDING)
+        .where('urgency.expiresAt', '<=', now)
+        .orderBy('urgency.expiresAt', 'asc')
+        .limit(TASK_EXPIRY_SWEEP.BATCH_SIZE)
+        .get();
+
+      if (snapshot.empty) {
+        break;
+      }
+
+      const expired = await this.expireBatch(snapshot.docs, now);
+      expiredCount += expired.length;
+
+      await Promise.all(
+        expired.map((doc) =>
+          this.notifyExpired(doc.id, doc.data() as TaskDocument),
+        ),
+      );
+
+      // Stop when nothing in the page could be expired (all changed concurrently)
+      // or when the last page was partial
+      if (
+        expired.length === 0 ||
+        snapshot.size < TASK_EXPIRY_SWEEP.BATCH_SIZE
+      ) {
+        break;
+      }
+    }
+
+    if (expiredCount > 0) {
+      this.logger.log(`Expired ${expiredCount} overdue tasks`);
+    }
+
+    return expiredCount;
+  }
+
+  /**
+   * Mark a page of tasks expired
+   * Each write is conditioned on the document not having changed since it was
+   * read, so a task completed or extended in the meantime is left untouched
+   */
+  private async expireBatch(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+    now: admin.firestore.Timestamp,
+  ): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+    const writer = this.firestore.bulkWriter();
+    const results = docs.map((doc) =>
+      writer
+        .update(
+          doc.ref,
+          { status: TaskStatus.EXPIRED, updatedAt: now },
+          { lastUpdateTime: doc.updateTime },
+        )
+        .then(() => doc)
+        .catch((error: Error) => {
+          this.logger.warn(`Skipped expiring task ${doc.id}: ${error.message}`);
+          return null;
+        }),
+    );
+
+    await writer.close();
+    const settled = await Promise.all(results);
+
+    return settled.filter(
+      (doc): doc is admin.firestore.QueryDocumentSnapshot => doc !== null,
+    );
+  }
+
+  /**
+   * Record the expiry, push it to open streams and notify creator and
+   * assignees still working on it
+   */
+  private async notifyExpired(
+    taskId: string,
+    task: TaskDocument,
+  ): Promise<void> {
+    await this.eventService.record(taskId, task, {
+      type: TaskEventType.STATUS_CHANGED,
+      actorUid: TASK_EVENTS.SYSTEM_ACTOR,
+      changes: [
+        { field: 'status', from: TaskStatus.PENDING, to: TaskStatus.EXPIRED },
+      ],
+    });
+
+    this.realtimeService.publish(
+      [
+        task.createdBy.uid,
+        ...getTaskAssignees(task).map((assignee) => assignee.uid),
+      ],
+      RealtimeEventType.TASK_EXPIRED,
+      { taskId, status: TaskStatus.EXPIRED, task: null },
+    );
+
+    const openAssignees = getOpenAssignees(task);
+    let error: string | null = null;
+
+    try {
+      await this.notyService.sendTaskExpiredNotification({
+        taskId,
+        creatorUid: task.createdBy.uid,
+        assignees: openAssignees.map(({ uid, name }) => ({
+          uid,
+          name,
+        })),
+        taskTitle: task.title,
+      });
+    } catch (sendError) {
+      this.logger.warn(
+        `Failed to send expiry notification for task ${taskId}:`,
+        sendError,
+      );
+      error = (sendError as Error).message;
+    }
+
+    // One send covers everyone, so a failure is recorded for each recipient
+    await Promise.all(
+      [task.createdBy.uid, ...openAssignees.map(({ uid }) => uid)].map(
+        (recipientUid) =>
+          this.eventService.recordNotification(taskId, task, {
+            type: NotificationType.TASK_EXPIRED,
+            recipientUid,
+            actorUid: TASK_EVENTS.SYSTEM_ACTOR,
+            error,
+          }),
+      ),
+    );
+  }
+}
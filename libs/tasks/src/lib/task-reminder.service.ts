@@ -0,0 +1,238 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import * as admin from 'firebase-admin';
+import {
+  FIRESTORE_TOKEN,
+  NotificationType,
+  TaskDocument,
+  TaskReminders,
+  TaskStatus,
+  TASK_COLLECTIONS,
+  TASK_EVENTS,
+  TASK_REMINDERS,
+  TASK_TIME_MS,
+} from '@bringup/shared';
+import { AlertService } from '@bringup/alert';
+import { DistributedLockService } from '@bringup/database';
+import { getOpenAssignees } from './task-assignees.util';
+import { TaskEventService } from './task-event.service';
+
+/**
+ * Task Reminder Service
+ * Builds pre-expiry reminder schedules and dispatches due reminders
+ */
+@Injectable()
+export class TaskReminderService {
+  private readonly logger = new Logger(TaskReminderService.name);
+
+  constructor(
+    @Inject(FIRESTORE_TOKEN)
+    private readonly firestore: admin.firestore.Firestore,
+    private readonly notyService: AlertService,
+    private readonly lockService: DistributedLockService,
+    private readonly eventService: TaskEventService,
+  ) {}
+
+  // ==========================================
+  // SCHEDULE HELPERS
+  // ==========================================
+
+  /**
+   * Build the reminder schedule for a deadline
+   * Points are measured back from expiresAt so an extension shifts them all;
+   * points already in the past are dropped
+   */
+  buildSchedule(
+    expiresAt: admin.firestore.Timestamp,
+    durationMinutes: number,
+    sentCount = 0,
+  ): TaskReminders {
+    const now = Date.now();
+    const expiryMs = expiresAt.toMillis();
+    const durationMs = durationMinutes * TASK_TIME_MS.MINUTE;
+
+    const points = [
+      ...TASK_REMINDERS.ELAPSED_FRACTIONS.map(
+        (fraction) => expiryMs - durationMs * (1 - fraction),
+      ),
+      ...TASK_REMINDERS.MINUTES_BEFORE_EXPIRY.map(
+        (minutes) => expiryMs - minutes * TASK_TIME_MS.MINUTE,
+      ),
+    ];
+
+    const pendingAt = Array.from(
+      new Set(
+        points
+          .filter((point) => point > now && point < expiryMs)
+          .map((point) => Math.floor(point / TASK_TIME_MS.MINUTE)),
+      ),
+    )
+      .sort((a, b) => a - b)
+      .map((minute) =>
+        admin.firestore.Timestamp.fromMillis(minute * TASK_TIME_MS.MINUTE),
+      );
+
+    return {
+      nextAt: pendingAt[0] ?? null,
+      pendingAt,
+      sentCount,
+    };
+  }
+
+  /**
+   * Update fields that stop any further reminders for a task
+   */
+  cancelledScheduleUpdate(): Record<string, unknown> {
+    return {
+      'reminders.nextAt': null,
+      'reminders.pendingAt': [],
+    };
+  }
+
+  // ==========================================
+  // DISPATCH
+  // ==========================================
+
+  /**
+   * Scheduled entry point, only one instance dispatches at a time
+   */
+  @Interval(TASK_REMINDERS.INTERVAL_MS)
+  async handleReminderDispatch(): Promise<void> {
+    try {
+      await this.lockService.runExclusive(
+        TASK_REMINDERS.LOCK_NAME,
+        TASK_REMINDERS.LOCK_TTL_MS,
+        () => this.dispatchDueReminders(),
+      );
+    } catch (error) {
+      this.logger.error('Task reminder dispatch failed:', error);
+    }
+  }
+
+  /**
+   * Send all reminders that are due
+   * Returns the number of reminders sent
+   */
+  async dispatchDueReminders(): Promise<number> {
+    let sentCount = 0;
+
+    for (;;) {
+      const now = admin.firestore.Timestamp.now();
+      const snapshot = await this.firestore
+        .collection(TASK_COLLECTIONS.TASKS)
+        .where('status', '==', TaskStatus.PENDING)
+        .where('reminders.nextAt', '<=', now)
+        .orderBy('reminders.nextAt', 'asc')
+        .limit(TASK_REMINDERS.BATCH_SIZE)
+        .get();
+
+      if (snapshot.empty) {
+        break;
+      }
+
+      const claimed = await this.claimBatch(snapshot.docs, now);
+      sentCount += claimed.length;
+
+      await Promise.all(
+        claimed.map((doc) =>
+          this.sendReminder(doc.id, doc.data() as TaskDocument),
+        ),
+      );
+
+      if (claimed.length === 0 || snapshot.size < TASK_REMINDERS.BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (sentCount > 0) {
+      this.logger.log(`Sent ${sentCount} task reminders`);
+    }
+
+    return sentCount;
+  }
+
+  /**
+   * Advance each task's schedule past now before sending
+   * Writes are conditioned on the task being unchanged since it was read,
+   * so a reminder is sent at most once and never after a reschedule
+   */
+  private async claimBatch(
+    docs: admin.firestore.QueryDocumentSnapshot[],
+    now: admin.firestore.Timestamp,
+  ): Promise<admin.firestore.QueryDocumentSnapshot[]> {
+    const writer = this.firestore.bulkWriter();
+    const results = docs.map((doc) => {
+      const reminders = (doc.data() as TaskDocument).reminders as TaskReminders;
+      const pendingAt = reminders.pendingAt.filter(
+        (point) => point.toMillis() > now.toMillis(),
+      );
+
+      return writer
+        .update(
+          doc.ref,
+          {
+            'reminders.nextAt': pendingAt[0] ?? null,
+            'reminders.pendingAt': pendingAt,
+            'reminders.sentCount': reminders.sentCount + 1,
+          },
+          { lastUpdateTime: doc.updateTime },
+        )
+        .then(() => doc)
+        .catch((error: Error) => {
+          this.logger.warn(
+            `Skipped reminder for task ${doc.id}: ${error.message}`,
+          );
+          return null;
+        });
+    });
+
+    await writer.close();
+    const settled = await Promise.all(results);
+
+    return settled.filter(
+      (doc): doc is admin.firestore.QueryDocumentSnapshot => doc !== null,
+    );
+  }
+
+  /**
+   * Notify assignees who have not completed yet of the remaining time
+   */
+  private async sendReminder(
+    taskId: string,
+    task: TaskDocument,
+  ): Promise<void> {
+    const remainingMinutes = Math.max(
+      1,
+      Math.round(
+        (task.urgency.expiresAt.toMillis() - Date.now()) / TASK_TIME_MS.MINUTE,
+      ),
+    );
+
+    await Promise.all(
+      getOpenAssignees(task).map(async (assignee) => {
+        let error: string | null = null;
+        try {
+          await this.notyService.sendTaskReminderNotification({
+            taskId,
+            assigneeUid: assignee.uid,
+            taskTitle: task.title,
+            remainingMinutes,
+          });
+        } catch (sendError) {
+          this.logger.warn(
+            `Failed to send reminder for task ${taskId} to ${assignee.uid}:`,
+            sendError,
+          );
+          error = (sendError as Error).message;
+        }
+
+        await this.eventService.recordNotification(taskId, task, {
+          type: NotificationType.TASK_REMINDER,
+          recipientUid: assignee.uid,
+          actorUid: TASK_EVENTS.SYSTEM_ACTOR,
+          error,
+        });
+      }),
+    );
+  }
+}
@@ -11,17 +11,21 @@ import {
   Query,
 } from '@nestjs/common';
 import { TaskService } from './task.service';
+import { TaskEventService } from './task-event.service';
 import { CurrentUser } from '@bringup/auth';
 import {
   CreateTaskDto,
+  UpdateTaskDto,
   GetTasksQueryDto,
   UpdateTaskReactionDto,
   UpdateTaskStatusDto,
+  RejectTaskDto,
   TaskIdParamDto,
   TaskStatus,
   TaskApiResponse,
   TasksApiResponse,
   TaskDeleteResponse,
+  TaskHistoryApiResponse,
   TASK_SUCCESS_MESSAGES,
 } from '@bringup/shared';
 
@@ -38,7 +42,10 @@ interface ICurrentUser {
  */
 @Controller('tasks')
 export class TaskController {
-  constructor(private readonly taskService: TaskService) {}
+  constructor(
+    private readonly taskService: TaskService,
+    private readonly eventService: TaskEventService,
+  ) {}
 
   // ==========================================
   // CREATE OPERATIONS
@@ -108,10 +115,47 @@ export class TaskController {
     };
   }
 
+  /**
+   * Get the change history of a task (also after deletion)
+   * GET /tasks/:id/history
+   */
+  @Get(':id/history')
+  async getTaskHistory(
+    @Param() params: TaskIdParamDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskHistoryApiResponse> {
+    const items = await this.eventService.getHistory(params.id, user.uid);
+    return {
+      items,
+      message: TASK_SUCCESS_MESSAGES.HISTORY_RETRIEVED,
+    };
+  }
+
   // ==========================================
   // UPDATE OPERATIONS
   // ==========================================
 
+  /**
+   * Edit task details (creator only)
+   * PATCH /tasks/:id
+   */
+  @Patch(':id')
+  async updateTask(
+    @Param() params: TaskIdParamDto,
+    @Body() updateTaskDto: UpdateTaskDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskApiResponse> {
+    const task = await this.taskService.updateTask(
+      params.id,
+      updateTaskDto,
+      user.uid,
+    );
+    return {
+      task,
+      message: TASK_SUCCESS_MESSAGES.TASK_UPDATED,
+    };
+  }
+
   /**
    * Update task status
    * PATCH /tasks/:id/status
@@ -175,9 +219,51 @@ export class TaskController {
       TaskStatus.COMPLETED,
       user.uid,
     );
+    const message =
+      task.status === TaskStatus.AWAITING_REVIEW
+        ? TASK_SUCCESS_MESSAGES.TASK_SUBMITTED_FOR_REVIEW
+        : TASK_SUCCESS_MESSAGES.TASK_COMPLETED;
+
+    return {
+      task,
+      message,
+    };
+  }
+
+  /**
+   * Approve a completion awaiting review (creator only)
+   * PATCH /tasks/:id/approve
+   */
+  @Patch(':id/approve')
+  async approveTask(
+    @Param() params: TaskIdParamDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskApiResponse> {
+    const task = await this.taskService.approveTask(params.id, user.uid);
+    return {
+      task,
+      message: TASK_SUCCESS_MESSAGES.TASK_APPROVED,
+    };
+  }
+
+  /**
+   * Reject a completion awaiting review (creator only)
+   * PATCH /tasks/:id/reject
+   */
+  @Patch(':id/reject')
+  async rejectTask(
+    @Param() params: TaskIdParamDto,
+    @Body() rejectTaskDto: RejectTaskDto,
+    @CurrentUser() user: ICurrentUser,
+  ): Promise<TaskApiResponse> {
+    const task = await this.taskService.rejectTask(
+      params.id,
+      rejectTaskDto.reason,
+      user.uid,
+    );
     return {
       task,
-      message: TASK_SUCCESS_MESSAGES.TASK_COMPLETED,
+      message: TASK_SUCCESS_MESSAGES.TASK_REJECTED,
     };
   }
 
@@ -8,14 +8,21 @@ import {
 } from '@nestjs/common';
 import * as admin from 'firebase-admin';
 import {
+  ATTACHMENT_STORAGE_TOKEN,
   CreateTaskDto,
+  UpdateTaskDto,
   FirebaseUser,
   FIRESTORE_TOKEN,
   Task,
+  TaskAssignee,
+  TaskCompletionRule,
   TaskDocument,
+  TaskEventType,
   TaskReaction,
+  TaskReviewKind,
   TaskStatus,
   TaskUser,
+  TaskUpdateKind,
   TaskQueryType,
   TaskResponse,
   TaskUrgencyResponse,
@@ -30,9 +37,23 @@ import {
   TASK_TIME_MS,
   TASK_TIME_MINUTES,
   TASK_ERROR_MESSAGES,
+  TASK_EVENTS,
+  NotificationType,
+  RealtimeEventType,
 } from '@bringup/shared';
-import { AlertService } from '@bringup/alert';
-
+import type { AttachmentStorage } from '@bringup/shared';
+import { AlertService, RealtimeService } from '@bringup/alert';
+import { TaskReminderService } from './task-reminder.service';
+import { TaskEventService } from './task-event.service';
+import {
+  collectAssigneeEmails,
+  getCompletionRule,
+  getTaskAssignees,
+  isCompletionMet,
+  isTaskAssignee,
+  toTaskAssignee,
+} from './task-assignees.util';
+import { toAttachmentResponse } from './task-attachments.util';
 
 @Injectable()
 export class TaskService {
@@ -41,7 +62,12 @@ export class TaskService {
   constructor(
     @Inject(FIRESTORE_TOKEN)
     private readonly firestore: admin.firestore.Firestore,
+    @Inject(ATTACHMENT_STORAGE_TOKEN)
+    private readonly attachmentStorage: AttachmentStorage,
     private readonly notyService: AlertService,
+    private readonly realtimeService: RealtimeService,
+    private readonly reminderService: TaskReminderService,
+    private readonly eventService: TaskEventService,
   ) {}
 
   // ==========================================
@@ -95,6 +121,11 @@ export class TaskService {
       note: task.note,
       createdBy: task.createdBy,
       assignedTo: task.assignedTo,
+      assignees: getTaskAssignees(task).map((assignee) => ({
+        ...assignee,
+        completedAt: this.toISOString(assignee.completedAt),
+      })),
+      completionRule: getCompletionRule(task),
       status: task.status,
       assigneeReaction: task.assigneeReaction,
       urgency,
@@ -102,6 +133,19 @@ export class TaskService {
       createdAt: this.toISOString(task.createdAt) as string,
       updatedAt: this.toISOString(task.updatedAt) as string,
       extensionCount: task.extensionCount ?? 0,
+      seriesId: task.seriesId ?? null,
+      commentCount: task.commentCount ?? 0,
+      requiresApproval: task.requiresApproval ?? false,
+      review: task.review
+        ? {
+            submittedAt: this.toISOString(task.review.submittedAt),
+            rejectionReason: task.review.rejectionReason,
+            rejectionCount: task.review.rejectionCount,
+          }
+        : null,
+      attachments: (task.attachments ?? []).map((attachment) =>
+        toAttachmentResponse(task.id, attachment),
+      ),
     };
   }
 
@@ -174,8 +218,9 @@ export class TaskService {
 
   /**
    * Get task document with authorization check
+   * Only the creator and assignees may access a task
    */
-  private async getAuthorizedTask(
+  async getAuthorizedTask(
     taskId: string,
     userUid: string,
   ): Promise<{ task: Task; taskRef: admin.firestore.DocumentReference }> {
@@ -190,7 +235,7 @@ export class TaskService {
 
     if (
       taskData.createdBy.uid !== userUid &&
-      taskData.assignedTo.uid !== userUid
+      !isTaskAssignee(taskData, userUid)
     ) {
       throw new ForbiddenException(TASK_ERROR_MESSAGES.ACCESS_DENIED);
     }
@@ -201,18 +246,371 @@ export class TaskService {
     };
   }
 
+  /**
+   * Push a task change to the open streams of its creator and assignees
+   */
+  private publishTaskEvent(
+    type: RealtimeEventType,
+    task: Task,
+    extraRecipientUids: string[] = [],
+  ): TaskResponse {
+    const response = this.transformToResponse(task);
+
+    this.realtimeService.publish(
+      [
+        task.createdBy.uid,
+        ...getTaskAssignees(task).map((assignee) => assignee.uid),
+        ...extraRecipientUids,
+      ],
+      type,
+      { taskId: task.id, status: task.status, task: response },
+    );
+
+    return response;
+  }
+
+  /**
+   * Notify assignees about an edit
+   * Added and removed assignees are told about the reassignment, remaining
+   * assignees only when other details changed
+   */
+  private async notifyTaskUpdated(
+    task: Task,
+    previousAssignees: TaskUser[],
+    detailsChanged: boolean,
+  ): Promise<void> {
+    const base = {
+      taskId: task.id,
+      creatorUid: task.createdBy.uid,
+      creatorName: task.createdBy.name,
+      taskTitle: task.title,
+    };
+
+    const currentUids = new Set(getTaskAssignees(task).map((a) => a.uid));
+    const previousUids = new Set(previousAssignees.map((a) => a.uid));
+
+    const notifications = [
+      ...getTaskAssignees(task)
+        .filter(
+          (assignee) => detailsChanged || !previousUids.has(assignee.uid),
+        )
+        .map((assignee) => ({
+          recipientUid: assignee.uid,
+          kind: previousUids.has(assignee.uid)
+            ? TaskUpdateKind.DETAILS_CHANGED
+            : TaskUpdateKind.ASSIGNED_TO_YOU,
+        })),
+      ...previousAssignees
+        .filter((assignee) => !currentUids.has(assignee.uid))
+        .map((assignee) => ({
+          recipientUid: assignee.uid,
+          kind: TaskUpdateKind.REASSIGNED_AWAY,
+        })),
+    ];
+
+    await Promise.all(
+      notifications.map(async ({ recipientUid, kind }) => {
+        try {
+          await this.notyService.sendTaskUpdatedNotification({
+            ...base,
+            recipientUid,
+            kind,
+          });
+          await this.recordNotification(task, recipientUid, null);
+        } catch (error) {
+          this.logger.warn(
+            `Failed to send update notification for task ${task.id} to ${recipientUid}:`,
+            error,
+          );
+          await this.recordNotification(task, recipientUid, error);
+        }
+      }),
+    );
+  }
+
+  /**
+   * Log a task update notification outcome in the task history
+   */
+  private async recordNotification(
+    task: Task,
+    recipientUid: string,
+    error: unknown,
+  ): Promise<void> {
+    await this.eventService.recordNotification(task.id, task, {
+      type: NotificationType.TASK_UPDATED,
+      recipientUid,
+      actorUid: task.createdBy.uid,
+      error: error ? (error as Error).message : null,
+    });
+  }
+
+  /**
+   * Apply the creator's approval decision
+   */
+  private async reviewTask(
+    taskId: string,
+    userUid: string,
+    kind: TaskReviewKind.APPROVED | TaskReviewKind.REJECTED,
+    reason: string | null,
+  ): Promise<TaskResponse> {
+    const taskRef = this.firestore.collection(TASK_COLLECTIONS.TASKS).doc(taskId);
+
+    const updatedTask = await this.firestore.runTransaction(async (transaction) => {
+      const taskDoc = await transaction.get(taskRef);
+
+      if (!taskDoc.exists) {
+        throw new NotFoundException(TASK_ERROR_MESSAGES.TASK_NOT_FOUND);
+      }
+
+      const taskData = taskDoc.data() as TaskDocument;
+
+      if (taskData.createdBy.uid !== userUid) {
+        throw new ForbiddenException(TASK_ERROR_MESSAGES.ONLY_CREATOR_CAN_REVIEW);
+      }
+
+      if (taskData.status !== TaskStatus.AWAITING_REVIEW) {
+        throw new BadRequestException(TASK_ERROR_MESSAGES.NOT_AWAITING_REVIEW);
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const review = taskData.review ?? {
+        submittedAt: null,
+        rejectionReason: null,
+        rejectionCount: 0,
+      };
+      let task: Task;
+
+      if (kind === TaskReviewKind.APPROVED) {
+        transaction.update(taskRef, {
+          status: TaskStatus.COMPLETED,
+          updatedAt: now,
+        });
+        task = { id: taskId, ...taskData, status: TaskStatus.COMPLETED, updatedAt: now };
+      } else {
+        const { durationMinutes } = taskData.urgency;
+        const expiresAt = admin.firestore.Timestamp.fromMillis(
+          now.toMillis() + durationMinutes * TASK_TIME_MS.MINUTE,
+        );
+        const ttl = admin.firestore.Timestamp.fromMillis(
+          expiresAt.toMillis() + TASK_TIME_MS.DEFAULT_TTL_AFTER_EXPIRY,
+        );
+        const assignees = getTaskAssignees(taskData).map((assignee) => ({
+          ...assignee,
+          completedAt: null,
+        }));
+        const reminders = this.reminderService.buildSchedule(
+          expiresAt,
+          durationMinutes,
+          taskData.reminders?.sentCount ?? 0,
+        );
+        const nextReview = {
+          ...review,
+          rejectionReason: reason,
+          rejectionCount: review.rejectionCount + 1,
+        };
+
+        transaction.update(taskRef, {
+          status: TaskStatus.PENDING,
+          'urgency.expiresAt': expiresAt,
+          ttl,
+          assignees,
+          assigneeUids: assignees.map((assignee) => assignee.uid),
+          reminders,
+          review: nextReview,
+          updatedAt: now,
+        });
+        task = {
+          id: taskId,
+          ...taskData,
+          status: TaskStatus.PENDING,
+          urgency: { expiresAt, durationMinutes },
+          ttl,
+          assignees,
+          reminders,
+          review: nextReview,
+          updatedAt: now,
+        };
+      }
+
+      await this.eventService.record(
+        taskId,
+        task,
+        {
+          type: TaskEventType.STATUS_CHANGED,
+          actorUid: userUid,
+          changes: this.eventService.diff(taskData, task),
+          detail: reason,
+        },
+        transaction,
+      );
+
+      return task;
+    });
+
+    await this.notifyReview(updatedTask, kind, updatedTask.createdBy, reason);
+
+    return this.publishTaskEvent(RealtimeEventType.TASK_UPDATED, updatedTask);
+  }
+
+  /**
+   * Notify the creator and assignees about an approval workflow step
+   */
+  private async notifyReview(
+    task: Task,
+    kind: TaskReviewKind,
+    actor: TaskUser,
+    reason: string | null = null,
+  ): Promise<void> {
+    const recipientUids = [
+      task.createdBy.uid,
+      ...getTaskAssignees(task).map((assignee) => assignee.uid),
+    ];
+
+    await Promise.all(
+      recipientUids.map(async (recipientUid) => {
+        let error: string | null = null;
+        try {
+          await this.notyService.sendTaskReviewNotification({
+            taskId: task.id,
+            recipientUid,
+            actorUid: actor.uid,
+            actorName: actor.name,
+            taskTitle: task.title,
+            kind,
+            reason,
+          });
+        } catch (sendError) {
+          this.logger.warn(
+            `Failed to send review notification for task ${task.id} to ${recipientUid}:`,
+            sendError,
+          );
+          error = (sendError as Error).message;
+        }
+
+        await this.eventService.recordNotification(task.id, task, {
+          type: NotificationType.TASK_REVIEW,
+          recipientUid,
+          actorUid: actor.uid,
+          error,
+        });
+      }),
+    );
+  }
+
+  /**
+   * Notify the creator that an assignee finished the task
+   */
+  private async notifyCompleted(task: Task, actor: TaskUser): Promise<void> {
+    let error: string | null = null;
+    try {
+      await this.notyService.sendTaskCompletedNotification({
+        taskId: task.id,
+        creatorUid: task.createdBy.uid,
+        actorUid: actor.uid,
+        actorName: actor.name,
+        taskTitle: task.title,
+      });
+    } catch (sendError) {
+      this.logger.warn(
+        `Failed to send completion notification for task ${task.id}:`,
+        sendError,
+      );
+      error = (sendError as Error).message;
+    }
+
+    await this.eventService.recordNotification(task.id, task, {
+      type: NotificationType.TASK_COMPLETED,
+      recipientUid: task.createdBy.uid,
+      actorUid: actor.uid,
+      error,
+    });
+  }
+
+  /**
+   * Notify the assignees that the creator cancelled or deleted the task
+   */
+  private async notifyClosed(
+    taskId: string,
+    task: TaskDocument,
+    type: NotificationType.TASK_CANCELLED | NotificationType.TASK_DELETED,
+  ): Promise<void> {
+    await Promise.all(
+      getTaskAssignees(task).map(async ({ uid: recipientUid }) => {
+        const params = {
+          taskId,
+          assigneeUids: [recipientUid],
+          actorUid: task.createdBy.uid,
+          actorName: task.createdBy.name,
+          taskTitle: task.title,
+        };
+        let error: string | null = null;
+
+        try {
+          if (type === NotificationType.TASK_CANCELLED) {
+            await this.notyService.sendTaskCancelledNotification(params);
+          } else {
+            await this.notyService.sendTaskDeletedNotification(params);
+          }
+        } catch (sendError) {
+          this.logger.warn(
+            `Failed to send ${type} notification for task ${taskId} to ${recipientUid}:`,
+            sendError,
+          );
+          error = (sendError as Error).message;
+        }
+
+        await this.eventService.recordNotification(taskId, task, {
+          type,
+          recipientUid,
+          actorUid: task.createdBy.uid,
+          error,
+        });
+      }),
+    );
+  }
+
   // ==========================================
   // PUBLIC METHODS
   // ==========================================
 
+  /**
+   * Resolve assignee emails to users, rejecting self-assignment
+   */
+  async resolveAssignees(
+    emails: string[],
+    creatorUid: string,
+  ): Promise<TaskUser[]> {
+    if (emails.length === 0) {
+      throw new BadRequestException(TASK_ERROR_MESSAGES.ASSIGNEE_REQUIRED);
+    }
+
+    const results = await Promise.all(
+      emails.map((email) => this.findUserByEmail(email)),
+    );
+
+    if (results.some((result) => result.docId === creatorUid)) {
+      throw new BadRequestException(TASK_ERROR_MESSAGES.SELF_ASSIGNMENT);
+    }
+
+    return results.map(({ uid, email, name }) => ({ uid, email, name }));
+  }
+
   /**
    * Create a new task
+   * seriesId links tasks created by a recurring series
    */
   async createTask(
     createTaskDto: CreateTaskDto,
     creatorUid: string,
+    seriesId: string | null = null,
   ): Promise<TaskResponse> {
-    const { title, note, durationMinutes, assignToEmail } = createTaskDto;
+    const {
+      title,
+      note,
+      durationMinutes,
+      completionRule = TaskCompletionRule.ANY,
+      requiresApproval = false,
+    } = createTaskDto;
 
     // Get creator details
     const creator = await this.getTaskUser(
@@ -220,19 +618,11 @@ export class TaskService {
       TASK_ERROR_MESSAGES.CREATOR_NOT_FOUND,
     );
 
-    // Find assignee
-    const assigneeResult = await this.findUserByEmail(assignToEmail);
-
-    // Prevent self-assignment
-    if (assigneeResult.docId === creatorUid) {
-      throw new BadRequestException(TASK_ERROR_MESSAGES.SELF_ASSIGNMENT);
-    }
-
-    const assignee: TaskUser = {
-      uid: assigneeResult.uid,
-      email: assigneeResult.email,
-      name: assigneeResult.name,
-    };
+    // Find assignees (self-assignment is rejected)
+    const assignees = await this.resolveAssignees(
+      collectAssigneeEmails(createTaskDto),
+      creatorUid,
+    );
 
     const now = admin.firestore.Timestamp.now();
     const expiresAt = admin.firestore.Timestamp.fromMillis(
@@ -243,7 +633,10 @@ export class TaskService {
       title: title.trim(),
       note: note?.trim() ?? null,
       createdBy: creator,
-      assignedTo: assignee,
+      assignedTo: assignees[0],
+      assignees: assignees.map(toTaskAssignee),
+      assigneeUids: assignees.map((assignee) => assignee.uid),
+      completionRule,
       status: TaskStatus.PENDING,
       assigneeReaction: null,
       urgency: {
@@ -260,43 +653,78 @@ export class TaskService {
         expiresAt.toMillis() + TASK_TIME_MS.DEFAULT_TTL_AFTER_EXPIRY,
       ),
       extensionCount: 0,
+      reminders: this.reminderService.buildSchedule(expiresAt, durationMinutes),
+      seriesId,
+      requiresApproval,
+      ...(requiresApproval && {
+        review: { submittedAt: null, rejectionReason: null, rejectionCount: 0 },
+      }),
     };
 
     const taskRef = await this.firestore
       .collection(TASK_COLLECTIONS.TASKS)
       .add(taskData);
 
-    // Send notification
-    let notificationSent = false;
-    let notificationSentAt: admin.firestore.Timestamp | null = null;
-    let notificationError: string | null = null;
+    await this.eventService.record(taskRef.id, taskData, {
+      type: TaskEventType.CREATED,
+      actorUid: creatorUid,
+      changes: [{ field: 'status', from: null, to: TaskStatus.PENDING }],
+      detail: seriesId ? `Created by recurring series ${seriesId}` : null,
+    });
 
-    try {
-      await this.notyService.sendTaskAssignmentNotification({
-        taskId: taskRef.id,
-        assigneeUid: assignee.uid,
-        creatorUid: creator.uid,
-        creatorName: creator.name,
-        taskTitle: title,
-      });
+    // Notify every assignee; the task counts as notified if any send succeeds
+    const results = await Promise.allSettled(
+      assignees.map((assignee) =>
+        this.notyService.sendTaskAssignmentNotification({
+          taskId: taskRef.id,
+          assigneeUid: assignee.uid,
+          creatorUid: creator.uid,
+          creatorName: creator.name,
+          taskTitle: title,
+        }),
+      ),
+    );
 
-      notificationSentAt = admin.firestore.Timestamp.now();
-      await taskRef.update({
-        'notification.sent': true,
-        'notification.sentAt': notificationSentAt,
-      });
+    await Promise.all(
+      results.map((result, index) =>
+        this.eventService.recordNotification(taskRef.id, taskData, {
+          type: NotificationType.TASK_ASSIGNED,
+          recipientUid: assignees[index].uid,
+          actorUid: creatorUid,
+          error:
+            result.status === 'rejected'
+              ? (result.reason as Error).message
+              : null,
+        }),
+      ),
+    );
 
-      notificationSent = true;
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === 'rejected',
+    );
+    const notificationSent = failures.length < results.length;
+    const notificationSentAt = notificationSent
+      ? admin.firestore.Timestamp.now()
+      : null;
+    const notificationError =
+      failures.length > 0
+        ? failures.map((failure) => (failure.reason as Error).message).join('; ')
+        : null;
+
+    if (failures.length > 0) {
+      this.logger.warn(
+        `Notification failed for ${failures.length}/${results.length} assignees of task ${taskRef.id}`,
+      );
+    } else {
       this.logger.log(`Task notification sent for task ${taskRef.id}`);
-    } catch (error) {
-      this.logger.warn(`Notification failed for task ${taskRef.id}:`, error);
-      notificationError = (error as Error).message;
-      await taskRef.update({
-        'notification.sent': false,
-        'notification.error': notificationError,
-      });
     }
 
+    await taskRef.update({
+      'notification.sent': notificationSent,
+      'notification.sentAt': notificationSentAt,
+      'notification.error': notificationError,
+    });
+
     const task: Task = {
       id: taskRef.id,
       ...taskData,
@@ -307,29 +735,14 @@ export class TaskService {
       },
     };
 
-    return this.transformToResponse(task);
+    return this.publishTaskEvent(RealtimeEventType.TASK_CREATED, task);
   }
 
   /**
    * Get task by ID
    */
   async getTaskById(taskId: string, userUid: string): Promise<TaskResponse> {
-    const { task, taskRef } = await this.getAuthorizedTask(taskId, userUid);
-
-    // Auto-update expired status
-    if (
-      task.status === TaskStatus.PENDING &&
-      this.isExpired(task.urgency.expiresAt)
-    ) {
-      const now = admin.firestore.Timestamp.now();
-      await taskRef.update({
-        status: TaskStatus.EXPIRED,
-        updatedAt: now,
-      });
-      task.status = TaskStatus.EXPIRED;
-      task.updatedAt = now;
-    }
-
+    const { task } = await this.getAuthorizedTask(taskId, userUid);
     return this.transformToResponse(task);
   }
 
@@ -350,13 +763,21 @@ export class TaskService {
       reaction,
     } = options;
 
-    const field = type === TaskQueryType.CREATED ? 'createdBy.uid' : 'assignedTo.uid';
-    const now = admin.firestore.Timestamp.now();
-
-    // Build query
-    let query: admin.firestore.Query = this.firestore
-      .collection(TASK_COLLECTIONS.TASKS)
-      .where(field, '==', userUid);
+    // Build query (legacy single-assignee tasks have no assigneeUids)
+    const tasksRef = this.firestore.collection(TASK_COLLECTIONS.TASKS);
+    let query: admin.firestore.Query =
+      type === TaskQueryType.CREATED
+        ? tasksRef.where('createdBy.uid', '==', userUid)
+        : tasksRef.where(
+            admin.firestore.Filter.or(
+              admin.firestore.Filter.where('assignedTo.uid', '==', userUid),
+              admin.firestore.Filter.where(
+                'assigneeUids',
+                'array-contains',
+                userUid,
+              ),
+            ),
+          );
 
     // Apply filters
     if (status) {
@@ -379,49 +800,216 @@ export class TaskService {
 
     const snapshot = await query.get();
 
-    // Process tasks and handle expired status updates
-    const tasks: TaskResponse[] = [];
-    const batch = this.firestore.batch();
-    let hasExpiredUpdates = false;
+    // Expired status is maintained by TaskExpiryService
+    const tasks = snapshot.docs.map((doc) =>
+      this.transformToResponse({ id: doc.id, ...doc.data() } as Task),
+    );
+
+    return {
+      items: tasks,
+      meta: this.buildPaginationMeta(totalItems, page, limit),
+    };
+  }
+
+  /**
+   * Edit task details (creator only)
+   * Changing the duration shifts the deadline by the difference, keeping
+   * any running late extensions already granted
+   */
+  async updateTask(
+    taskId: string,
+    updateTaskDto: UpdateTaskDto,
+    userUid: string,
+  ): Promise<TaskResponse> {
+    const { title, note, durationMinutes, completionRule } = updateTaskDto;
+    const assigneeEmails = collectAssigneeEmails(updateTaskDto);
 
-    for (const doc of snapshot.docs) {
-      const data = doc.data() as TaskDocument;
-      let taskData = { id: doc.id, ...data } as Task;
+    if (
+      title === undefined &&
+      note === undefined &&
+      durationMinutes === undefined &&
+      completionRule === undefined &&
+      assigneeEmails.length === 0
+    ) {
+      throw new BadRequestException(TASK_ERROR_MESSAGES.NO_CHANGES);
+    }
 
-      // Auto-update expired tasks
-      if (
-        data.status === TaskStatus.PENDING &&
-        data.urgency.expiresAt.toMillis() <= now.toMillis()
-      ) {
-        batch.update(doc.ref, {
-          status: TaskStatus.EXPIRED,
-          updatedAt: now,
-        });
-        taskData = {
+    // Look up new assignees before the transaction, which only reads the task
+    const users =
+      assigneeEmails.length > 0
+        ? await this.resolveAssignees(assigneeEmails, userUid)
+        : null;
+    const taskRef = this.firestore.collection(TASK_COLLECTIONS.TASKS).doc(taskId);
+
+    const { task: updatedTask, previousAssignees, durationChanged } =
+      await this.firestore.runTransaction(async (transaction) => {
+        const taskDoc = await transaction.get(taskRef);
+
+        if (!taskDoc.exists) {
+          throw new NotFoundException(TASK_ERROR_MESSAGES.TASK_NOT_FOUND);
+        }
+
+        const taskData = taskDoc.data() as TaskDocument;
+
+        if (taskData.createdBy.uid !== userUid) {
+          throw new ForbiddenException(TASK_ERROR_MESSAGES.ONLY_CREATOR_CAN_EDIT);
+        }
+
+        if (
+          taskData.status !== TaskStatus.PENDING ||
+          this.isExpired(taskData.urgency.expiresAt)
+        ) {
+          throw new BadRequestException(TASK_ERROR_MESSAGES.CANNOT_EDIT);
+        }
+
+        const now = admin.firestore.Timestamp.now();
+        const updateData: Record<string, unknown> = { updatedAt: now };
+        const task: Task = {
+          id: taskId,
           ...taskData,
-          status: TaskStatus.EXPIRED,
           updatedAt: now,
         };
-        hasExpiredUpdates = true;
-      }
 
-      tasks.push(this.transformToResponse(taskData));
-    }
+        if (title !== undefined) {
+          updateData['title'] = title.trim();
+          task.title = title.trim();
+        }
+
+        if (note !== undefined) {
+          updateData['note'] = note?.trim() || null;
+          task.note = note?.trim() || null;
+        }
+
+        const durationChanged =
+          durationMinutes !== undefined &&
+          durationMinutes !== taskData.urgency.durationMinutes;
+
+        if (durationChanged) {
+          const deltaMs =
+            (durationMinutes - taskData.urgency.durationMinutes) *
+            TASK_TIME_MS.MINUTE;
+          const expiresAt = admin.firestore.Timestamp.fromMillis(
+            taskData.urgency.expiresAt.toMillis() + deltaMs,
+          );
+
+          if (this.isExpired(expiresAt)) {
+            throw new BadRequestException(TASK_ERROR_MESSAGES.DURATION_ELAPSED);
+          }
+
+          const ttl = admin.firestore.Timestamp.fromMillis(
+            expiresAt.toMillis() + TASK_TIME_MS.DEFAULT_TTL_AFTER_EXPIRY,
+          );
+          const reminders = this.reminderService.buildSchedule(
+            expiresAt,
+            durationMinutes,
+            taskData.reminders?.sentCount ?? 0,
+          );
+
+          updateData['urgency.durationMinutes'] = durationMinutes;
+          updateData['urgency.expiresAt'] = expiresAt;
+          updateData['ttl'] = ttl;
+          updateData['reminders'] = reminders;
+          task.urgency = { expiresAt, durationMinutes };
+          task.ttl = ttl;
+          task.reminders = reminders;
+        }
+
+        const previousAssignees = getTaskAssignees(taskData);
+        let assignees = previousAssignees;
+
+        if (users) {
+          // Assignees who stay keep their progress, new ones start fresh
+          assignees = users.map(
+            (user) =>
+              previousAssignees.find((assignee) => assignee.uid === user.uid) ??
+              toTaskAssignee(user),
+          );
+
+          updateData['assignedTo'] = users[0];
+          updateData['assignees'] = assignees;
+          updateData['assigneeUids'] = assignees.map((assignee) => assignee.uid);
+          task.assignedTo = users[0];
+          task.assignees = assignees;
+          task.assigneeUids = assignees.map((assignee) => assignee.uid);
+
+          // Reactions from removed assignees do not carry over
+          if (!assignees.some((assignee) => assignee.reaction)) {
+            updateData['assigneeReaction'] = null;
+            task.assigneeReaction = null;
+          }
+        }
+
+        if (completionRule !== undefined) {
+          updateData['completionRule'] = completionRule;
+          task.completionRule = completionRule;
+        }
+
+        // Removing open assignees or relaxing the rule can finish the task,
+        // which then goes through approval like a regular completion
+        if (isCompletionMet(assignees, getCompletionRule(task))) {
+          task.status = taskData.requiresApproval
+            ? TaskStatus.AWAITING_REVIEW
+            : TaskStatus.COMPLETED;
+          updateData['status'] = task.status;
+          Object.assign(updateData, this.reminderService.cancelledScheduleUpdate());
+
+          if (task.status === TaskStatus.AWAITING_REVIEW) {
+            updateData['review.submittedAt'] = now;
+            if (taskData.review) {
+              task.review = { ...taskData.review, submittedAt: now };
+            }
+          }
+        }
+
+        transaction.update(taskRef, updateData);
+
+        await this.eventService.record(
+          taskId,
+          task,
+          {
+            type: TaskEventType.UPDATED,
+            actorUid: userUid,
+            changes: this.eventService.diff(taskData, task),
+            extraParticipantUids: previousAssignees.map((assignee) => assignee.uid),
+          },
+          transaction,
+        );
+
+        return { task, previousAssignees, durationChanged };
+      });
+
+    this.logger.log(`Task ${taskId} edited by user ${userUid}`);
 
-    // Commit batch update for expired tasks
-    if (hasExpiredUpdates) {
-      await batch.commit();
-      this.logger.log('Batch updated expired tasks');
+    const detailsChanged =
+      title !== undefined || note !== undefined || durationChanged;
+    await this.notifyTaskUpdated(
+      updatedTask,
+      previousAssignees,
+      detailsChanged,
+    );
+
+    if (updatedTask.status === TaskStatus.AWAITING_REVIEW) {
+      await this.notifyReview(
+        updatedTask,
+        TaskReviewKind.SUBMITTED,
+        updatedTask.createdBy,
+      );
+    } else if (updatedTask.status === TaskStatus.COMPLETED) {
+      await this.notifyCompleted(updatedTask, updatedTask.createdBy);
     }
 
-    return {
-      items: tasks,
-      meta: this.buildPaginationMeta(totalItems, page, limit),
-    };
+    return this.publishTaskEvent(
+      RealtimeEventType.TASK_UPDATED,
+      updatedTask,
+      previousAssignees.map((assignee) => assignee.uid),
+    );
   }
 
   /**
    * Update task status
+   * An assignee completing marks their own part done; the task completes once
+   * the completion rule is met. Runs in a transaction so concurrent
+   * completions are not lost
    */
   async updateTaskStatus(
     taskId: string,
@@ -429,54 +1017,188 @@ export class TaskService {
     userUid?: string,
   ): Promise<TaskResponse> {
     const taskRef = this.firestore.collection(TASK_COLLECTIONS.TASKS).doc(taskId);
-    const taskDoc = await taskRef.get();
 
-    if (!taskDoc.exists) {
-      throw new NotFoundException(TASK_ERROR_MESSAGES.TASK_NOT_FOUND);
-    }
+    const updatedTask = await this.firestore.runTransaction(async (transaction) => {
+      const taskDoc = await transaction.get(taskRef);
 
-    const taskData = taskDoc.data() as TaskDocument;
+      if (!taskDoc.exists) {
+        throw new NotFoundException(TASK_ERROR_MESSAGES.TASK_NOT_FOUND);
+      }
+
+      const taskData = taskDoc.data() as TaskDocument;
+      const assignees = getTaskAssignees(taskData);
+      let completingAssignee: TaskAssignee | undefined;
 
-    // Authorization checks
-    if (userUid) {
-      if (status === TaskStatus.CANCELLED && taskData.createdBy.uid !== userUid) {
-        throw new ForbiddenException(TASK_ERROR_MESSAGES.ONLY_CREATOR_CAN_CANCEL);
+      // Approval has its own endpoints
+      if (status === TaskStatus.AWAITING_REVIEW) {
+        throw new BadRequestException(
+          TASK_ERROR_MESSAGES.INVALID_STATUS_TRANSITION,
+        );
       }
 
-      if (status === TaskStatus.COMPLETED && taskData.assignedTo.uid !== userUid) {
-        throw new ForbiddenException(TASK_ERROR_MESSAGES.ONLY_ASSIGNEE_CAN_COMPLETE);
+      // Authorization checks
+      if (userUid) {
+        if (status === TaskStatus.CANCELLED && taskData.createdBy.uid !== userUid) {
+          throw new ForbiddenException(TASK_ERROR_MESSAGES.ONLY_CREATOR_CAN_CANCEL);
+        }
+
+        if (status === TaskStatus.COMPLETED) {
+          completingAssignee = assignees.find(
+            (assignee) => assignee.uid === userUid,
+          );
+          if (!completingAssignee) {
+            throw new ForbiddenException(
+              TASK_ERROR_MESSAGES.ONLY_ASSIGNEE_CAN_COMPLETE,
+            );
+          }
+        }
       }
-    }
 
-    // Validate status transitions
-    if (taskData.status === TaskStatus.EXPIRED) {
-      throw new BadRequestException(TASK_ERROR_MESSAGES.CANNOT_UPDATE_EXPIRED);
-    }
-    if (taskData.status === TaskStatus.COMPLETED) {
-      throw new BadRequestException(TASK_ERROR_MESSAGES.ALREADY_COMPLETED);
-    }
-    if (taskData.status === TaskStatus.CANCELLED) {
-      throw new BadRequestException(TASK_ERROR_MESSAGES.ALREADY_CANCELLED);
-    }
+      // Validate status transitions (overdue tasks may not be swept yet)
+      if (
+        taskData.status === TaskStatus.EXPIRED ||
+        (taskData.status === TaskStatus.PENDING &&
+          this.isExpired(taskData.urgency.expiresAt))
+      ) {
+        throw new BadRequestException(TASK_ERROR_MESSAGES.CANNOT_UPDATE_EXPIRED);
+      }
+      if (taskData.status === TaskStatus.COMPLETED) {
+        throw new BadRequestException(TASK_ERROR_MESSAGES.ALREADY_COMPLETED);
+      }
+      if (taskData.status === TaskStatus.CANCELLED) {
+        throw new BadRequestException(TASK_ERROR_MESSAGES.ALREADY_CANCELLED);
+      }
+      if (
+        taskData.status === TaskStatus.AWAITING_REVIEW &&
+        status !== TaskStatus.CANCELLED
+      ) {
+        throw new BadRequestException(TASK_ERROR_MESSAGES.AWAITING_REVIEW);
+      }
+      if (completingAssignee?.completedAt) {
+        throw new BadRequestException(
+          TASK_ERROR_MESSAGES.ASSIGNEE_ALREADY_COMPLETED,
+        );
+      }
 
-    const now = admin.firestore.Timestamp.now();
-    await taskRef.update({
-      status,
-      updatedAt: now,
+      const now = admin.firestore.Timestamp.now();
+      let nextStatus: TaskStatus = status;
+      let nextAssignees = assignees;
+      const updateData: Record<string, unknown> = { updatedAt: now };
+
+      if (completingAssignee) {
+        nextAssignees = assignees.map((assignee) =>
+          assignee.uid === userUid ? { ...assignee, completedAt: now } : assignee,
+        );
+        updateData['assignees'] = nextAssignees;
+        updateData['assigneeUids'] = nextAssignees.map((assignee) => assignee.uid);
+
+        // Under the "all" rule the task stays pending until everyone is done
+        if (!isCompletionMet(nextAssignees, getCompletionRule(taskData))) {
+          nextStatus = TaskStatus.PENDING;
+        } else if (taskData.requiresApproval) {
+          // Delegated work waits for the creator's approval
+          nextStatus = TaskStatus.AWAITING_REVIEW;
+          updateData['review.submittedAt'] = now;
+        }
+      }
+
+      updateData['status'] = nextStatus;
+
+      // No reminders once the task is finished
+      if (nextStatus !== TaskStatus.PENDING) {
+        Object.assign(updateData, this.reminderService.cancelledScheduleUpdate());
+      }
+
+      transaction.update(taskRef, updateData);
+
+      const task: Task = {
+        id: taskId,
+        ...taskData,
+        assignees: nextAssignees,
+        status: nextStatus,
+        updatedAt: now,
+        ...(nextStatus === TaskStatus.AWAITING_REVIEW &&
+          taskData.review && {
+            review: { ...taskData.review, submittedAt: now },
+          }),
+      };
+
+      const actorUid = userUid ?? TASK_EVENTS.SYSTEM_ACTOR;
+      if (completingAssignee) {
+        await this.eventService.record(
+          taskId,
+          task,
+          {
+            type: TaskEventType.ASSIGNEE_COMPLETED,
+            actorUid,
+            changes: [
+              {
+                field: `assignees.${actorUid}.completedAt`,
+                from: null,
+                to: now.toDate().toISOString(),
+              },
+            ],
+          },
+          transaction,
+        );
+      }
+      if (nextStatus !== taskData.status) {
+        await this.eventService.record(
+          taskId,
+          task,
+          {
+            type: TaskEventType.STATUS_CHANGED,
+            actorUid,
+            changes: [{ field: 'status', from: taskData.status, to: nextStatus }],
+          },
+          transaction,
+        );
+      }
+
+      return task;
     });
 
-    const updatedTask: Task = {
-      id: taskId,
-      ...taskData,
-      status,
-      updatedAt: now,
-    };
+    if (updatedTask.status === TaskStatus.AWAITING_REVIEW && userUid) {
+      const submitter = getTaskAssignees(updatedTask).find(
+        (assignee) => assignee.uid === userUid,
+      ) as TaskUser;
+      await this.notifyReview(updatedTask, TaskReviewKind.SUBMITTED, submitter);
+    } else if (updatedTask.status === TaskStatus.COMPLETED && userUid) {
+      const completer = getTaskAssignees(updatedTask).find(
+        (assignee) => assignee.uid === userUid,
+      ) as TaskUser;
+      await this.notifyCompleted(updatedTask, completer);
+    } else if (updatedTask.status === TaskStatus.CANCELLED) {
+      await this.notifyClosed(taskId, updatedTask, NotificationType.TASK_CANCELLED);
+    }
+
+    return this.publishTaskEvent(RealtimeEventType.TASK_UPDATED, updatedTask);
+  }
 
-    return this.transformToResponse(updatedTask);
+  /**
+   * Approve a task awaiting review (creator only)
+   */
+  async approveTask(taskId: string, userUid: string): Promise<TaskResponse> {
+    return this.reviewTask(taskId, userUid, TaskReviewKind.APPROVED, null);
+  }
+
+  /**
+   * Reject a task awaiting review (creator only)
+   * The task goes back to pending with a fresh deadline and the assignees'
+   * completions cleared
+   */
+  async rejectTask(
+    taskId: string,
+    reason: string,
+    userUid: string,
+  ): Promise<TaskResponse> {
+    return this.reviewTask(taskId, userUid, TaskReviewKind.REJECTED, reason);
   }
 
   /**
-   * Update task reaction with running late extension
+   * Update an assignee's reaction with running late extension
+   * Each assignee has their own extension allowance; extensions move the
+   * shared deadline
    */
   async updateTaskReaction(
     taskId: string,
@@ -484,89 +1206,175 @@ export class TaskService {
     userUid: string,
   ): Promise<TaskResponse> {
     const taskRef = this.firestore.collection(TASK_COLLECTIONS.TASKS).doc(taskId);
-    const taskDoc = await taskRef.get();
-
-    if (!taskDoc.exists) {
-      throw new NotFoundException(TASK_ERROR_MESSAGES.TASK_NOT_FOUND);
-    }
-
-    const taskData = taskDoc.data() as TaskDocument;
-
-    // Only assignee can set reaction
-    if (taskData.assignedTo.uid !== userUid) {
-      throw new ForbiddenException(TASK_ERROR_MESSAGES.ONLY_ASSIGNEE_CAN_REACT);
-    }
 
-    // Can't react to non-pending tasks
-    if (taskData.status !== TaskStatus.PENDING) {
-      throw new BadRequestException(TASK_ERROR_MESSAGES.CANNOT_REACT);
-    }
-
-    const now = admin.firestore.Timestamp.now();
-    const updateData: Record<string, unknown> = {
-      assigneeReaction: reaction,
-      updatedAt: now,
-    };
-
-    // Handle "running late" reaction - extend time by 30 minutes
-    let newExpiresAt = taskData.urgency.expiresAt;
-    let extensionCount = taskData.extensionCount ?? 0;
-
-    if (reaction === TaskReaction.RUNNING_LATE) {
-      // Check if max extensions reached
-      if (extensionCount >= TASK_TIME_MINUTES.MAX_EXTENSIONS) {
-        throw new BadRequestException(TASK_ERROR_MESSAGES.MAX_EXTENSIONS);
-      }
-
-      // Extend expiration by 30 minutes
-      newExpiresAt = admin.firestore.Timestamp.fromMillis(
-        taskData.urgency.expiresAt.toMillis() + TASK_TIME_MS.RUNNING_LATE_EXTENSION,
-      );
-      extensionCount += 1;
-
-      // Update TTL as well
-      const newTtl = admin.firestore.Timestamp.fromMillis(
-        newExpiresAt.toMillis() + TASK_TIME_MS.DEFAULT_TTL_AFTER_EXPIRY,
-      );
-
-      updateData['urgency.expiresAt'] = newExpiresAt;
-      updateData['extensionCount'] = extensionCount;
-      updateData['ttl'] = newTtl;
+    const { task: updatedTask, assignee } = await this.firestore.runTransaction(
+      async (transaction) => {
+        const taskDoc = await transaction.get(taskRef);
+
+        if (!taskDoc.exists) {
+          throw new NotFoundException(TASK_ERROR_MESSAGES.TASK_NOT_FOUND);
+        }
+
+        const taskData = taskDoc.data() as TaskDocument;
+        const assignees = getTaskAssignees(taskData);
+        const current = assignees.find((a) => a.uid === userUid);
+
+        // Only assignees can set reaction
+        if (!current) {
+          throw new ForbiddenException(TASK_ERROR_MESSAGES.ONLY_ASSIGNEE_CAN_REACT);
+        }
+
+        // Can't react to non-pending tasks
+        if (taskData.status !== TaskStatus.PENDING) {
+          throw new BadRequestException(TASK_ERROR_MESSAGES.CANNOT_REACT);
+        }
+
+        // Overdue tasks are expired even if the sweeper has not reached them yet
+        if (this.isExpired(taskData.urgency.expiresAt)) {
+          throw new BadRequestException(TASK_ERROR_MESSAGES.CANNOT_UPDATE_EXPIRED);
+        }
+
+        if (current.completedAt) {
+          throw new BadRequestException(
+            TASK_ERROR_MESSAGES.ASSIGNEE_ALREADY_COMPLETED,
+          );
+        }
+
+        const now = admin.firestore.Timestamp.now();
+        const updated: TaskAssignee = { ...current, reaction };
+        const updateData: Record<string, unknown> = {
+          assigneeReaction: reaction,
+          updatedAt: now,
+        };
 
-      this.logger.log(
-        `Task ${taskId} extended by 30 minutes (extension #${extensionCount})`,
-      );
-    }
+        // Handle "running late" reaction - extend time by 30 minutes
+        let newExpiresAt = taskData.urgency.expiresAt;
+        let extensionCount = taskData.extensionCount ?? 0;
+
+        if (reaction === TaskReaction.RUNNING_LATE) {
+          // Check if this assignee's max extensions reached
+          if (current.extensionCount >= TASK_TIME_MINUTES.MAX_EXTENSIONS) {
+            throw new BadRequestException(TASK_ERROR_MESSAGES.MAX_EXTENSIONS);
+          }
+
+          // Extend expiration by 30 minutes
+          newExpiresAt = admin.firestore.Timestamp.fromMillis(
+            taskData.urgency.expiresAt.toMillis() + TASK_TIME_MS.RUNNING_LATE_EXTENSION,
+          );
+          extensionCount += 1;
+          updated.extensionCount += 1;
+
+          // Update TTL as well
+          const newTtl = admin.firestore.Timestamp.fromMillis(
+            newExpiresAt.toMillis() + TASK_TIME_MS.DEFAULT_TTL_AFTER_EXPIRY,
+          );
+
+          updateData['urgency.expiresAt'] = newExpiresAt;
+          updateData['extensionCount'] = extensionCount;
+          updateData['ttl'] = newTtl;
+
+          // Move pending reminders to the new deadline
+          updateData['reminders'] = this.reminderService.buildSchedule(
+            newExpiresAt,
+            taskData.urgency.durationMinutes,
+            taskData.reminders?.sentCount ?? 0,
+          );
+
+          this.logger.log(
+            `Task ${taskId} extended by 30 minutes by ${userUid} (extension #${updated.extensionCount})`,
+          );
+        }
+
+        const nextAssignees = assignees.map((a) =>
+          a.uid === userUid ? updated : a,
+        );
+        updateData['assignees'] = nextAssignees;
+        updateData['assigneeUids'] = nextAssignees.map((a) => a.uid);
+
+        transaction.update(taskRef, updateData);
+
+        const task: Task = {
+          id: taskId,
+          ...taskData,
+          assignees: nextAssignees,
+          assigneeReaction: reaction,
+          updatedAt: now,
+          urgency: {
+            ...taskData.urgency,
+            expiresAt: newExpiresAt,
+          },
+          extensionCount,
+        };
 
-    await taskRef.update(updateData);
+        await this.eventService.record(
+          taskId,
+          task,
+          {
+            type: TaskEventType.REACTION_CHANGED,
+            actorUid: userUid,
+            changes: [
+              {
+                field: `assignees.${userUid}.reaction`,
+                from: current.reaction,
+                to: reaction,
+              },
+            ],
+          },
+          transaction,
+        );
+        if (newExpiresAt !== taskData.urgency.expiresAt) {
+          await this.eventService.record(
+            taskId,
+            task,
+            {
+              type: TaskEventType.EXTENDED,
+              actorUid: userUid,
+              changes: [
+                {
+                  field: 'urgency.expiresAt',
+                  from: taskData.urgency.expiresAt.toDate().toISOString(),
+                  to: newExpiresAt.toDate().toISOString(),
+                },
+                {
+                  field: `assignees.${userUid}.extensionCount`,
+                  from: current.extensionCount,
+                  to: updated.extensionCount,
+                },
+              ],
+            },
+            transaction,
+          );
+        }
+
+        return { task, assignee: updated };
+      },
+    );
 
     // Send notification to task creator
+    let notificationError: string | null;
     try {
       await this.notyService.sendTaskReactionNotification({
         taskId,
-        creatorUid: taskData.createdBy.uid,
-        assigneeUid: taskData.assignedTo.uid,
-        assigneeName: taskData.assignedTo.name,
-        taskTitle: taskData.title,
+        creatorUid: updatedTask.createdBy.uid,
+        assigneeUid: assignee.uid,
+        assigneeName: assignee.name,
+        taskTitle: updatedTask.title,
         reaction,
       });
+      notificationError = null;
     } catch (error) {
       this.logger.warn(`Failed to send reaction notification for task ${taskId}:`, error);
+      notificationError = (error as Error).message;
     }
 
-    const updatedTask: Task = {
-      id: taskId,
-      ...taskData,
-      assigneeReaction: reaction,
-      updatedAt: now,
-      urgency: {
-        ...taskData.urgency,
-        expiresAt: newExpiresAt,
-      },
-      extensionCount,
-    };
+    await this.eventService.recordNotification(taskId, updatedTask, {
+      type: NotificationType.TASK_REACTION,
+      recipientUid: updatedTask.createdBy.uid,
+      actorUid: userUid,
+      error: notificationError,
+    });
 
-    return this.transformToResponse(updatedTask);
+    return this.publishTaskEvent(RealtimeEventType.TASK_REACTION, updatedTask);
   }
 
   /**
@@ -587,7 +1395,42 @@ export class TaskService {
       throw new ForbiddenException(TASK_ERROR_MESSAGES.ONLY_CREATOR_CAN_DELETE);
     }
 
-    await taskRef.delete();
+    await this.eventService.record(taskId, taskData, {
+      type: TaskEventType.DELETED,
+      actorUid: userUid,
+    });
+
+    // Also removes the comments subcollection
+    await this.firestore.recursiveDelete(taskRef);
+
+    for (const attachment of taskData.attachments ?? []) {
+      try {
+        await this.attachmentStorage.delete(attachment.storageKey);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to delete attachment file ${attachment.storageKey}:`,
+          error,
+        );
+      }
+    }
+
+    this.realtimeService.publish(
+      [
+        taskData.createdBy.uid,
+        ...getTaskAssignees(taskData).map((assignee) => assignee.uid),
+      ],
+      RealtimeEventType.TASK_DELETED,
+      { taskId, status: taskData.status, task: null },
+    );
+
+    // Finished tasks no longer concern their assignees
+    if (
+      taskData.status === TaskStatus.PENDING ||
+      taskData.status === TaskStatus.AWAITING_REVIEW
+    ) {
+      await this.notifyClosed(taskId, taskData, NotificationType.TASK_DELETED);
+    }
+
     this.logger.log(`Task ${taskId} deleted by user ${userUid}`);
   }
 }
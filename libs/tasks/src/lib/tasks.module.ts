@@ -1,8 +1,19 @@
 import { Module } from '@nestjs/common';
 import { TaskController } from './task.controller';
+import { RecurringTaskController } from './recurring-task.controller';
+import { TaskCommentController } from './task-comment.controller';
+import { TaskAttachmentController } from './task-attachment.controller';
 import { TaskService } from './task.service';
+import { TaskExpiryService } from './task-expiry.service';
+import { TaskReminderService } from './task-reminder.service';
+import { RecurringTaskService } from './recurring-task.service';
+import { TaskCommentService } from './task-comment.service';
+import { TaskEventService } from './task-event.service';
+import { TaskAttachmentService } from './task-attachment.service';
+import { LocalAttachmentStorage } from './local-attachment.storage';
 import { AlertModule } from '@bringup/alert';
 import { DatabaseModule } from '@bringup/database';
+import { ATTACHMENT_STORAGE_TOKEN } from '@bringup/shared';
 
 /**
  * Tasks Module
@@ -11,12 +22,32 @@ import { DatabaseModule } from '@bringup/database';
  * - Pagination support
  * - Running late time extensions
  * - Status and reaction management
+ * - Background expiry of overdue tasks
+ * - Pre-expiry reminders for assignees
+ * - Recurring task series
+ * - Task comment threads
+ * - Task history (audit trail)
+ * - Task attachments (local disk storage by default)
  */
 @Module({
   imports: [DatabaseModule, AlertModule],
-  controllers: [TaskController],
-  providers: [TaskService],
+  controllers: [
+    TaskController,
+    RecurringTaskController,
+    TaskCommentController,
+    TaskAttachmentController,
+  ],
+  providers: [
+    TaskService,
+    TaskExpiryService,
+    TaskReminderService,
+    RecurringTaskService,
+    TaskCommentService,
+    TaskEventService,
+    TaskAttachmentService,
+    // Swap useClass to move attachments to another backend
+    { provide: ATTACHMENT_STORAGE_TOKEN, useClass: LocalAttachmentStorage },
+  ],
   exports: [TaskService],
 })
 export class TasksModule {}
-
@@ -53,7 +53,7 @@ export class GlobalExceptionFilter implements ExceptionFilter {
           }))
         : undefined;
 
-      return ResponseBuilder.error(status, message, path, response.error || 'HTTP_EXCEPTION', {
+      return ResponseBuilder.error(status, message, path, response.code || response.error || 'HTTP_EXCEPTION', {
         validationErrors,
       });
     }